@@ -0,0 +1,45 @@
+import type { AlertNotice, AlertSink } from './types.js';
+
+export type RetryPolicy = {
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { baseDelayMs: 2_000, maxDelayMs: 5 * 60_000 };
+
+// Exponential backoff: base, 2×base, 4×base, ... capped at maxDelayMs.
+export function backoffDelayMs(attempt: number, policy: RetryPolicy): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+}
+
+export type DeliveryAttempt = { attempt: number; ok: boolean; error: string | null; final: boolean };
+
+// Sends one notice to one sink, retrying failures up to the sink's maxAttempts.
+// Never throws: the outcome is the last attempt, and every attempt is reported through `onAttempt`.
+export async function deliverWithRetry(
+  sink: AlertSink,
+  notice: AlertNotice,
+  opts: { policy?: RetryPolicy; onAttempt?: (attempt: DeliveryAttempt) => void; sleep?: (ms: number) => Promise<void> } = {}
+): Promise<DeliveryAttempt> {
+  const policy = opts.policy ?? DEFAULT_RETRY_POLICY;
+  const sleep = opts.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  // Sinks built in code skip the config checks; anything unusable means a single try.
+  const maxAttempts = Number.isFinite(sink.maxAttempts) ? Math.max(1, Math.floor(sink.maxAttempts)) : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    let error: string | null = null;
+    try {
+      await sink.send(notice);
+    } catch (e: any) {
+      error = String(e?.message || e) || 'send failed';
+    }
+    const result: DeliveryAttempt = { attempt, ok: error == null, error, final: error == null || attempt >= maxAttempts };
+    try {
+      opts.onAttempt?.(result);
+    } catch {
+      // logging must not change the outcome
+    }
+    if (result.final) return result;
+    await sleep(backoffDelayMs(attempt, policy));
+  }
+}
@@ -0,0 +1,43 @@
+import { createAlertDelivery, recordAlertDeliveryAttempt, type Alert, type Market } from '../db/index.js';
+import { deliverWithRetry, DEFAULT_RETRY_POLICY, type RetryPolicy } from './deliver.js';
+import { sinkAccepts } from './sinks.js';
+import type { AlertNotice, AlertSink } from './types.js';
+
+let sinks: AlertSink[] = [];
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+export function configureAlertSinks(next: AlertSink[], policy?: RetryPolicy): void {
+  sinks = [...next];
+  if (policy) retryPolicy = policy;
+}
+
+export function listAlertSinks(): AlertSink[] {
+  return [...sinks];
+}
+
+export function alertNotice(alert: Alert, market: Market | null): AlertNotice {
+  return {
+    id: alert.id,
+    severity: alert.severity,
+    message: alert.message,
+    createdAt: alert.createdAt,
+    ruleId: alert.ruleId || null,
+    marketId: alert.marketId || null,
+    marketQuestion: market ? market.question || market.externalId : null
+  };
+}
+
+// Fans an alert out to every sink whose severity filter accepts it, logging each delivery in `alert_deliveries`.
+// Resolves once every sink has delivered or run out of retries.
+export async function dispatchAlert(notice: AlertNotice): Promise<void> {
+  const targets = sinks.filter((s) => sinkAccepts(s, notice.severity));
+  await Promise.all(
+    targets.map(async (sink) => {
+      const delivery = createAlertDelivery({ alertId: notice.id, sink: sink.name });
+      await deliverWithRetry(sink, notice, {
+        policy: retryPolicy,
+        onAttempt: (a) => recordAlertDeliveryAttempt(delivery.id, { at: Date.now(), ok: a.ok, error: a.error, final: a.final })
+      });
+    })
+  );
+}
@@ -0,0 +1,5 @@
+export type { AlertNotice, AlertSink, AlertSinkConfig, DesktopSinkConfig, MailSinkConfig, WebhookSinkConfig } from './types.js';
+export { ALERT_SEVERITIES, normalizeAlertSeverity, severityAtLeast, type AlertSeverity } from './severity.js';
+export { createAlertSink, loadAlertSinks, sinkAccepts } from './sinks.js';
+export { backoffDelayMs, deliverWithRetry, DEFAULT_RETRY_POLICY, type DeliveryAttempt, type RetryPolicy } from './deliver.js';
+export { alertNotice, configureAlertSinks, dispatchAlert, listAlertSinks } from './dispatcher.js';
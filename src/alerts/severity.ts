@@ -0,0 +1,14 @@
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export function normalizeAlertSeverity(value: unknown): AlertSeverity {
+  const s = String(value || '').trim().toLowerCase();
+  if (s === 'critical') return 'critical';
+  if (s === 'warning' || s === 'warn') return 'warning';
+  return 'info';
+}
+
+export function severityAtLeast(severity: AlertSeverity, min: AlertSeverity): boolean {
+  return ALERT_SEVERITIES.indexOf(severity) >= ALERT_SEVERITIES.indexOf(min);
+}
@@ -0,0 +1,181 @@
+import { execFile } from 'node:child_process';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { dirname, join } from 'node:path';
+import { promisify } from 'node:util';
+import { normalizeAlertSeverity, severityAtLeast, type AlertSeverity } from './severity.js';
+import type { AlertNotice, AlertSink, AlertSinkConfig, DesktopSinkConfig, MailSinkConfig, WebhookSinkConfig } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+export function sinkAccepts(sink: Pick<AlertSink, 'minSeverity'>, severity: AlertSeverity): boolean {
+  return severityAtLeast(severity, sink.minSeverity);
+}
+
+// Config comes from a hand-edited JSON file: a bad value is rejected rather than left to surface at send time.
+function numberOption(config: object, key: string, fallback: number, min: number, max: number): number {
+  const value = (config as Record<string, unknown>)[key];
+  if (value == null) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`${key} must be a whole number from ${min} to ${max}`);
+  }
+  return value;
+}
+
+function stringOption(config: object, key: string): string | undefined {
+  const value = (config as Record<string, unknown>)[key];
+  if (value == null) return undefined;
+  if (typeof value !== 'string') throw new Error(`${key} must be a string`);
+  return value.trim() || undefined;
+}
+
+function severityOption(config: object): AlertSeverity {
+  const value = stringOption(config, 'minSeverity');
+  if (value == null) return 'info';
+  const severity = normalizeAlertSeverity(value);
+  if (severity === 'info' && value.toLowerCase() !== 'info') throw new Error('minSeverity must be info, warning or critical');
+  return severity;
+}
+
+function noticeTitle(notice: AlertNotice): string {
+  return `[${notice.severity.toUpperCase()}] ${notice.marketQuestion || 'Truth Terminal alert'}`;
+}
+
+function noticeText(notice: AlertNotice): string {
+  return [noticeTitle(notice), notice.message].join('\n');
+}
+
+function webhookBody(notice: AlertNotice, format: WebhookSinkConfig['format']): unknown {
+  const text = noticeText(notice);
+  if (format === 'slack') return { text };
+  if (format === 'discord') return { content: text.slice(0, 2000) };
+  return { text, content: text.slice(0, 2000), alert: notice };
+}
+
+function webhookSink(config: WebhookSinkConfig): AlertSink {
+  const url = stringOption(config, 'url') ?? '';
+  if (!/^https?:\/\//i.test(url)) throw new Error('webhook sink needs an http(s) url');
+  if (config.format != null && !['json', 'slack', 'discord'].includes(config.format)) throw new Error('format must be json, slack or discord');
+  const headers = config.headers ?? {};
+  if (typeof headers !== 'object' || Array.isArray(headers) || Object.values(headers).some((v) => typeof v !== 'string')) {
+    throw new Error('headers must be an object of strings');
+  }
+  const timeoutMs = numberOption(config, 'timeoutMs', 10_000, 100, 120_000);
+  return {
+    name: stringOption(config, 'name') ?? 'webhook',
+    type: 'webhook',
+    minSeverity: severityOption(config),
+    maxAttempts: numberOption(config, 'maxAttempts', 5, 1, 20),
+    send: async (notice) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(webhookBody(notice, config.format)),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    }
+  };
+}
+
+function desktopSink(config: DesktopSinkConfig): AlertSink {
+  const command = stringOption(config, 'command') ?? 'notify-send';
+  const urgency: Record<AlertSeverity, string> = { info: 'low', warning: 'normal', critical: 'critical' };
+  return {
+    name: stringOption(config, 'name') ?? 'desktop',
+    type: 'desktop',
+    minSeverity: severityOption(config),
+    // A missing notify daemon will not appear between retries.
+    maxAttempts: numberOption(config, 'maxAttempts', 1, 1, 20),
+    send: async (notice) => {
+      await execFileAsync(command, ['-u', urgency[notice.severity], '-a', 'Truth Terminal', noticeTitle(notice), notice.message], {
+        timeout: 10_000
+      });
+    }
+  };
+}
+
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+function mailMessage(notice: AlertNotice, to: string): string {
+  const date = new Date(notice.createdAt);
+  // mboxrd: quote body lines that would otherwise read as message separators.
+  const body = notice.message.replace(/\r\n/g, '\n').replace(/^(>*From )/gm, '>$1');
+  return [
+    'From: Truth Terminal <truth-terminal@localhost>',
+    `To: ${headerValue(to)}`,
+    `Subject: ${headerValue(noticeTitle(notice))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${notice.id}@truth-terminal>`,
+    `X-Truth-Terminal-Severity: ${notice.severity}`,
+    ...(notice.marketId ? [`X-Truth-Terminal-Market: ${notice.marketId}`] : []),
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body,
+    ''
+  ].join('\n');
+}
+
+// asctime in UTC, as the mbox "From " separator line expects: `Mon Oct 19 12:00:00 2026`.
+function mboxDate(ms: number): string {
+  const [wday, day, mon, year, time] = new Date(ms).toUTCString().replace(',', '').split(' ');
+  return `${wday} ${mon} ${String(Number(day)).padStart(2, ' ')} ${time} ${year}`;
+}
+
+function mailSink(config: MailSinkConfig): AlertSink {
+  const target = stringOption(config, 'path');
+  if (!target) throw new Error(`${config.type} sink needs a path`);
+  const to = stringOption(config, 'to') ?? 'you@localhost';
+
+  const send =
+    config.type === 'mbox'
+      ? async (notice: AlertNotice) => {
+          await mkdir(dirname(target), { recursive: true });
+          await appendFile(target, `From truth-terminal@localhost ${mboxDate(notice.createdAt)}\n${mailMessage(notice, to)}\n`, 'utf8');
+        }
+      : async (notice: AlertNotice) => {
+          // Maildir delivery: write under tmp/, then rename into new/ so readers never see a partial message.
+          for (const sub of ['tmp', 'new', 'cur']) await mkdir(join(target, sub), { recursive: true });
+          const file = `${Date.now()}.${process.pid}_${notice.id}.${hostname().replace(/[/:]/g, '_')}`;
+          await writeFile(join(target, 'tmp', file), mailMessage(notice, to), 'utf8');
+          await rename(join(target, 'tmp', file), join(target, 'new', file));
+        };
+
+  return {
+    name: stringOption(config, 'name') ?? config.type,
+    type: config.type,
+    minSeverity: severityOption(config),
+    maxAttempts: numberOption(config, 'maxAttempts', 3, 1, 20),
+    send
+  };
+}
+
+export function createAlertSink(config: AlertSinkConfig): AlertSink {
+  if (config == null || typeof config !== 'object' || Array.isArray(config)) throw new Error('alert sink config must be an object');
+  if (config.type === 'webhook') return webhookSink(config);
+  if (config.type === 'desktop') return desktopSink(config);
+  if (config.type === 'mbox' || config.type === 'maildir') return mailSink(config);
+  throw new Error(`Unknown alert sink type: ${(config as { type?: unknown }).type}`);
+}
+
+// Reads a JSON array of sink configs. Sink names must be unique: the delivery log is keyed by them.
+// Any invalid entry fails the whole load, naming the entry.
+export async function loadAlertSinks(filePath: string): Promise<AlertSink[]> {
+  const raw = JSON.parse(await readFile(filePath, 'utf8')) as unknown;
+  if (!Array.isArray(raw)) throw new Error('alert sinks file must contain a JSON array');
+  const sinks = raw.map((c, i) => {
+    try {
+      return createAlertSink(c as AlertSinkConfig);
+    } catch (e: any) {
+      throw new Error(`alert sink #${i + 1}${c?.name ? ` (${c.name})` : ''}: ${e?.message || e}`);
+    }
+  });
+  const seen = new Set<string>();
+  for (const sink of sinks) {
+    if (seen.has(sink.name)) throw new Error(`Duplicate alert sink name: ${sink.name}`);
+    seen.add(sink.name);
+  }
+  return sinks;
+}
@@ -0,0 +1,49 @@
+import type { AlertSeverity } from './severity.js';
+
+// What a sink receives: the alert plus enough market context to read it outside the workstation.
+export type AlertNotice = {
+  id: string;
+  severity: AlertSeverity;
+  message: string;
+  createdAt: number;
+  ruleId: string | null;
+  marketId: string | null;
+  marketQuestion: string | null;
+};
+
+export interface AlertSink {
+  name: string;
+  type: string;
+  minSeverity: AlertSeverity;
+  // Including the first try; 1 disables retries.
+  maxAttempts: number;
+  send: (notice: AlertNotice) => Promise<void>;
+}
+
+type SinkConfigBase = {
+  name?: string;
+  minSeverity?: AlertSeverity;
+  maxAttempts?: number;
+};
+
+// `format` picks the body: slack `{text}`, discord `{content}`, json = both plus the structured alert.
+export type WebhookSinkConfig = SinkConfigBase & {
+  type: 'webhook';
+  url: string;
+  format?: 'json' | 'slack' | 'discord';
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+export type DesktopSinkConfig = SinkConfigBase & {
+  type: 'desktop';
+  command?: string; // defaults to notify-send
+};
+
+export type MailSinkConfig = SinkConfigBase & {
+  type: 'mbox' | 'maildir';
+  path: string;
+  to?: string;
+};
+
+export type AlertSinkConfig = WebhookSinkConfig | DesktopSinkConfig | MailSinkConfig;
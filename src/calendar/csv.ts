@@ -0,0 +1,107 @@
+import type { ScheduleItem, ScheduleParseResult } from './types.js';
+
+// CSV schedules need a header row. Recognised columns (case-insensitive):
+//   title | event | name | summary       (required)
+//   date | start | datetime | when        (required)
+//   confidence | date_confidence          exact | approximate | unknown
+//   source | url
+//   notes | description | impact | impact_hypothesis
+//   category | type | kind                 groups events in the event study (fomc, cpi, earnings, ...)
+//   market | market_id | condition_id     link to this market instead of keyword matching
+
+const COLUMNS: Record<keyof Omit<ScheduleItem, 'dateConfidence'> | 'confidence', string[]> = {
+  title: ['title', 'event', 'name', 'summary'],
+  date: ['date', 'start', 'datetime', 'when'],
+  confidence: ['confidence', 'date_confidence'],
+  source: ['source', 'url'],
+  notes: ['notes', 'description', 'impact', 'impact_hypothesis'],
+  category: ['category', 'type', 'kind'],
+  market: ['market', 'market_id', 'condition_id', 'conditionid']
+};
+
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ISO dates pass through; US-style M/D/YYYY is rewritten. Anything else ("Q3 2025", "late October") is kept verbatim.
+export function normalizeScheduleDate(raw: string): { date: string; parsed: boolean } {
+  const value = raw.trim();
+  if (/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) {
+    return { date: value.replace(' ', 'T'), parsed: true };
+  }
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return { date: `${us[3]}-${us[1]!.padStart(2, '0')}-${us[2]!.padStart(2, '0')}`, parsed: true };
+  return { date: value, parsed: false };
+}
+
+function normalizeConfidence(raw: string, parsed: boolean): ScheduleItem['dateConfidence'] {
+  const s = raw.trim().toLowerCase();
+  if (s === 'exact' || s === 'approximate' || s === 'unknown') return s;
+  if (s === 'approx') return 'approximate';
+  return parsed ? 'exact' : 'approximate';
+}
+
+export function parseCsvSchedule(text: string): ScheduleParseResult {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const header = rows.shift()?.map((h) => h.trim().toLowerCase()) ?? [];
+  const index = (names: string[]) => header.findIndex((h) => names.includes(h));
+  const col = Object.fromEntries(Object.entries(COLUMNS).map(([key, names]) => [key, index(names)])) as Record<keyof typeof COLUMNS, number>;
+  if (col.title < 0 || col.date < 0) throw new Error('CSV header needs a title and a date column');
+
+  const items: ScheduleItem[] = [];
+  const skipped: ScheduleParseResult['skipped'] = [];
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    const cell = (idx: number) => (idx >= 0 ? (row[idx] ?? '').trim() : '');
+    if (row.every((v) => !v.trim())) return;
+    const title = cell(col.title);
+    const rawDate = cell(col.date);
+    if (!title) return skipped.push({ line, reason: 'missing title' });
+    if (!rawDate) return skipped.push({ line, reason: 'missing date' });
+    const { date, parsed } = normalizeScheduleDate(rawDate);
+    items.push({
+      title,
+      date,
+      dateConfidence: normalizeConfidence(cell(col.confidence), parsed),
+      source: cell(col.source) || null,
+      notes: cell(col.notes),
+      category: cell(col.category) || null,
+      market: cell(col.market) || null
+    });
+  });
+  return { items, skipped };
+}
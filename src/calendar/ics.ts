@@ -0,0 +1,120 @@
+import type { ScheduleItem, ScheduleParseResult } from './types.js';
+
+// Minimal RFC 5545 reader: VEVENT blocks with SUMMARY / DTSTART / DESCRIPTION / URL / CATEGORIES (first one).
+// Recurring events (RRULE) import their first occurrence only.
+
+function unfold(text: string): Array<{ line: number; value: string }> {
+  const out: Array<{ line: number; value: string }> = [];
+  const raw = text.replace(/\r\n?/g, '\n').split('\n');
+  for (let i = 0; i < raw.length; i++) {
+    const value = raw[i]!;
+    if ((value.startsWith(' ') || value.startsWith('\t')) && out.length) {
+      out[out.length - 1]!.value += value.slice(1);
+    } else if (value.trim()) {
+      out.push({ line: i + 1, value });
+    }
+  }
+  return out;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch)).trim();
+}
+
+// Offset of `timeZone` from UTC at instant `at`, in ms; null for a zone Intl doesn't know.
+function zoneOffsetMs(at: number, timeZone: string): number | null {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(at);
+  } catch {
+    return null;
+  }
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - Math.floor(at / 1000) * 1000;
+}
+
+// DTSTART;VALUE=DATE:20250917 → 2025-09-17 · DTSTART:20250917T180000Z → 2025-09-17T18:00:00Z.
+// DTSTART;TZID=America/New_York:20250917T140000 → 2025-09-17T18:00:00Z. A TZID Intl can't resolve keeps its
+// wall-clock time and comes back `approximate`; floating times (no Z, no TZID) keep theirs as they are.
+export function parseIcsDate(value: string, tzid?: string | null): { date: string; approximate: boolean } | null {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, hh, mm, ss, z] = m;
+  const day = `${y}-${mo}-${d}`;
+  if (!hh) return { date: day, approximate: false };
+  const wallClock = `${day}T${hh}:${mm}:${ss ?? '00'}`;
+  if (z || !tzid) return { date: `${wallClock}${z ? 'Z' : ''}`, approximate: false };
+
+  // Two passes settle the offset across a DST change
+  const asUtc = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(hh), Number(mm), Number(ss ?? 0));
+  let at = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const offset = zoneOffsetMs(at, tzid);
+    if (offset == null) return { date: wallClock, approximate: true };
+    at = asUtc - offset;
+  }
+  return { date: new Date(at).toISOString().replace('.000Z', 'Z'), approximate: false };
+}
+
+function tzidParam(params: string): string | null {
+  const m = params.match(/(?:^|;)TZID=("?)([^";]+)\1/i);
+  return m ? m[2]!.trim() : null;
+}
+
+export function parseIcs(text: string): ScheduleParseResult {
+  const items: ScheduleItem[] = [];
+  const skipped: ScheduleParseResult['skipped'] = [];
+  let current: { line: number; props: Map<string, string>; params: Map<string, string> } | null = null;
+
+  for (const { line, value } of unfold(text)) {
+    const upper = value.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = { line, props: new Map(), params: new Map() };
+      continue;
+    }
+    if (upper === 'END:VEVENT') {
+      if (!current) continue;
+      const title = unescapeText(current.props.get('SUMMARY') ?? '');
+      const start = current.props.get('DTSTART') ?? '';
+      const parsed = parseIcsDate(start, tzidParam(current.params.get('DTSTART') ?? ''));
+      const status = (current.props.get('STATUS') ?? '').toUpperCase();
+      if (status === 'CANCELLED') skipped.push({ line: current.line, reason: 'cancelled' });
+      else if (!title) skipped.push({ line: current.line, reason: 'missing SUMMARY' });
+      else if (!parsed) skipped.push({ line: current.line, reason: `unreadable DTSTART ${start || '(missing)'}` });
+      else {
+        items.push({
+          title,
+          date: parsed.date,
+          dateConfidence:
+            parsed.approximate || (current.props.get('X-TT-DATE-CONFIDENCE') ?? '').toLowerCase() === 'approximate' ? 'approximate' : 'exact',
+          source: current.props.get('URL')?.trim() || null,
+          notes: unescapeText(current.props.get('DESCRIPTION') ?? ''),
+          category: unescapeText((current.props.get('CATEGORIES') ?? '').split(/(?<!\\),/)[0] ?? '') || null,
+          market: null
+        });
+      }
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = value.indexOf(':');
+    if (colon <= 0) continue;
+    const [rawName, ...params] = value.slice(0, colon).split(';');
+    const name = rawName!.toUpperCase();
+    if (current.props.has(name)) continue;
+    current.props.set(name, value.slice(colon + 1));
+    current.params.set(name, params.join(';'));
+  }
+
+  return { items, skipped };
+}
@@ -0,0 +1,98 @@
+import { extname } from 'node:path';
+import {
+  createInfoEvent,
+  db,
+  findInfoEventByTitleAndDay,
+  getMarketByExternalId,
+  getMarketById,
+  listWatchedMarkets,
+  type InfoEvent,
+  type Market
+} from '../db/index.js';
+import { parseCsvSchedule } from './csv.js';
+import { parseIcs } from './ics.js';
+import { matchMarketForTitle } from './link.js';
+import type { ScheduleItem, ScheduleParseResult } from './types.js';
+
+export type ScheduleFormat = 'ics' | 'csv';
+
+export type ScheduleImportResult = {
+  created: Array<{ event: InfoEvent; market: Market | null; linkScore: number | null }>;
+  duplicates: Array<{ title: string; date: string; existingId: string }>;
+  skipped: ScheduleParseResult['skipped'];
+};
+
+export function detectScheduleFormat(filename: string, text: string): ScheduleFormat {
+  const ext = extname(filename).toLowerCase();
+  if (ext === '.ics' || ext === '.ical' || ext === '.ifb') return 'ics';
+  if (ext === '.csv') return 'csv';
+  return /^\s*BEGIN:VCALENDAR/i.test(text) ? 'ics' : 'csv';
+}
+
+export function parseSchedule(text: string, format: ScheduleFormat): ScheduleParseResult {
+  return format === 'ics' ? parseIcs(text) : parseCsvSchedule(text);
+}
+
+function explicitMarket(ref: string): Market | null {
+  return getMarketById(ref) ?? getMarketByExternalId('polymarket', ref);
+}
+
+// Stores schedule items as info events. Items whose title already exists on the same day are skipped; the rest are
+// linked to the schedule's explicit market, else to the best keyword match among watched markets. All or nothing:
+// an unknown explicit market aborts the whole import.
+export function importScheduleItems(
+  items: ScheduleItem[],
+  opts: { defaultSource?: string | null; link?: boolean } = {}
+): Omit<ScheduleImportResult, 'skipped'> {
+  const watched = opts.link === false ? [] : listWatchedMarkets();
+  const created: ScheduleImportResult['created'] = [];
+  const duplicates: ScheduleImportResult['duplicates'] = [];
+
+  db.transaction(() => {
+    for (const item of items) {
+      const existing = findInfoEventByTitleAndDay(item.title, item.date);
+      if (existing) {
+        duplicates.push({ title: item.title, date: item.date, existingId: existing.id });
+        continue;
+      }
+
+      let market: Market | null = null;
+      let linkScore: number | null = null;
+      if (item.market) {
+        market = explicitMarket(item.market);
+        if (!market) throw new Error(`Market not found: ${item.market} (${item.title})`);
+      } else if (opts.link !== false) {
+        const match = matchMarketForTitle(item.title, watched);
+        if (match) {
+          market = match.market;
+          linkScore = match.score;
+        }
+      }
+
+      const event = createInfoEvent({
+        marketId: market?.id ?? null,
+        title: item.title,
+        date: item.date,
+        dateConfidence: item.dateConfidence,
+        source: item.source ?? opts.defaultSource ?? null,
+        impactHypothesis: item.notes,
+        category: item.category,
+        createdBy: 'user'
+      });
+      created.push({ event, market, linkScore });
+    }
+  })();
+
+  return { created, duplicates };
+}
+
+export function importSchedule(
+  text: string,
+  opts: { filename?: string; format?: ScheduleFormat; link?: boolean } = {}
+): ScheduleImportResult {
+  const filename = opts.filename ?? '';
+  const format = opts.format ?? detectScheduleFormat(filename, text);
+  const parsed = parseSchedule(text, format);
+  const result = importScheduleItems(parsed.items, { defaultSource: filename ? `import:${filename}` : null, link: opts.link });
+  return { ...result, skipped: parsed.skipped };
+}
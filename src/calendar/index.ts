@@ -0,0 +1,32 @@
+export type { ScheduleItem, ScheduleParseResult } from './types.js';
+export { parseIcs, parseIcsDate } from './ics.js';
+export { normalizeScheduleDate, parseCsvRows, parseCsvSchedule } from './csv.js';
+export { keywordScore, LINK_MIN_SCORE, matchMarketForTitle, titleKeywords } from './link.js';
+export {
+  detectScheduleFormat,
+  importSchedule,
+  importScheduleItems,
+  parseSchedule,
+  type ScheduleFormat,
+  type ScheduleImportResult
+} from './import.js';
+export { eventWindow, hypothesisDirection, type EventWindow, type HypothesisDirection } from './window.js';
+export {
+  aggregateStudies,
+  fractionRepricedAt,
+  STUDY_OFFSETS_HOURS,
+  studyEvent,
+  type EventStudy,
+  type EventStudyOptions,
+  type PricePoint,
+  type RepricingCurve
+} from './repricing.js';
+export {
+  pickRepricingCurve,
+  repricingCurvesAsOf,
+  runEventStudy,
+  typicalRepricingCurve,
+  UNCATEGORIZED,
+  type EventStudyQuery,
+  type EventStudyReport
+} from './study.js';
@@ -0,0 +1,67 @@
+import type { Market } from '../db/index.js';
+
+// Keyword linking of schedule titles to market questions. Acronyms ("FOMC", "CPI") count double, so one is enough;
+// other words need a second match. Title case is not evidence: schedule titles capitalize every word.
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'will', 'what', 'when', 'who', 'which', 'this', 'that', 'than', 'then',
+  'before', 'after', 'end', 'by', 'of', 'on', 'in', 'at', 'to', 'be', 'is', 'are', 'was', 'a', 'an', 'or',
+  'date', 'day', 'week', 'month', 'year', 'meeting', 'release', 'report', 'announcement', 'decision', 'hearing',
+  'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'mon', 'tue', 'tues', 'wed', 'thu',
+  'thur', 'thurs', 'fri', 'sat', 'sun', 'today', 'tonight', 'tomorrow', 'daily', 'weekly', 'monthly', 'quarterly',
+  'annual', 'price', 'prices', 'index', 'data', 'update', 'call', 'live', 'final', 'preliminary', 'session'
+]);
+
+// Schedule vocabulary that markets phrase differently.
+const ALIASES: Record<string, string[]> = {
+  fomc: ['fed', 'federal', 'rates', 'rate'],
+  cpi: ['inflation'],
+  scotus: ['supreme'],
+  gdp: ['recession', 'growth'],
+  nfp: ['jobs', 'unemployment', 'payrolls'],
+  payrolls: ['jobs', 'unemployment']
+};
+
+export const LINK_MIN_SCORE = 2;
+
+type Keyword = { word: string; weight: number };
+
+function words(text: string): string[] {
+  return text.match(/[\p{L}\p{N}][\p{L}\p{N}'&.-]*/gu)?.map((w) => w.replace(/[.'-]+$/, '')) ?? [];
+}
+
+export function titleKeywords(title: string): Keyword[] {
+  const out = new Map<string, number>();
+  // In an all-caps title every word looks like an acronym
+  const shouted = title === title.toUpperCase();
+  for (const raw of words(title)) {
+    const word = raw.toLowerCase();
+    if (word.length < 3 || STOPWORDS.has(word) || /^\d+$/.test(word)) continue;
+    const acronym = !shouted && raw === raw.toUpperCase() && /\p{L}/u.test(raw);
+    out.set(word, Math.max(out.get(word) ?? 0, acronym ? 2 : 1));
+  }
+  return [...out].map(([word, weight]) => ({ word, weight }));
+}
+
+export function keywordScore(keywords: Keyword[], question: string): number {
+  const questionWords = new Set(words(question).map((w) => w.toLowerCase()));
+  let score = 0;
+  for (const k of keywords) {
+    if (questionWords.has(k.word) || ALIASES[k.word]?.some((alias) => questionWords.has(alias))) score += k.weight;
+  }
+  return score;
+}
+
+// Best-scoring market at or above LINK_MIN_SCORE; ties go to the first market in the list.
+export function matchMarketForTitle(title: string, markets: Market[]): { market: Market; score: number } | null {
+  const keywords = titleKeywords(title);
+  if (!keywords.length) return null;
+  let best: { market: Market; score: number } | null = null;
+  for (const market of markets) {
+    const score = keywordScore(keywords, market.question);
+    if (score >= LINK_MIN_SCORE && (!best || score > best.score)) best = { market, score };
+  }
+  return best;
+}
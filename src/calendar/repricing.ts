@@ -0,0 +1,160 @@
+// Event-study math over a YES mid series around one event time (t0). Moves are in probability points (0.05 = 5pp),
+// measured from the last mid at or before t0.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const STUDY_OFFSETS_HOURS = [-48, -24, -12, -6, -3, -1, 0, 1, 2, 4, 6, 12, 24, 48, 72];
+
+export type PricePoint = { at: number; mid: number };
+
+export type EventStudyOptions = {
+  preHours?: number; // default 48
+  postHours?: number; // default 72
+  minMove?: number; // smaller total moves count as "no repricing": no half-life, left out of the curve shape (default 0.01)
+  endToleranceHours?: number; // the final mid must be at most this much older than t0 + postHours (default 6)
+};
+
+export type EventStudy = {
+  eventId: string;
+  title: string;
+  category: string;
+  marketId: string;
+  at: number;
+  baseline: number; // mid at t0
+  final: number; // mid at t0 + postHours
+  move: number; // final - baseline
+  halfRepricingHours: number | null; // first time the mid covered half of `move`
+  volatilityBefore: number | null; // stdev of hourly mid changes over the pre window
+  volatilityAfter: number | null; // same, post window
+  curve: Array<{ hours: number; move: number | null }>; // mid at t0 + hours minus baseline
+  samples: number;
+};
+
+export type RepricingCurve = {
+  category: string;
+  events: number;
+  repriced: number; // events whose |move| reached minMove
+  meanMove: number | null;
+  meanAbsMove: number | null;
+  medianAbsMove: number | null;
+  medianHalfRepricingHours: number | null;
+  meanVolatilityBefore: number | null;
+  meanVolatilityAfter: number | null;
+  // Median share of the final move already priced in at each offset (repriced events only), and mean |move| there.
+  curve: Array<{ hours: number; fractionRepriced: number | null; meanAbsMove: number | null }>;
+};
+
+function lastAtOrBefore(series: PricePoint[], at: number): PricePoint | null {
+  let found: PricePoint | null = null;
+  for (const p of series) {
+    if (p.at > at) break;
+    found = p;
+  }
+  return found;
+}
+
+function hourlyChangeStdev(series: PricePoint[], from: number, to: number): number | null {
+  const values: number[] = [];
+  for (let t = from; t <= to; t += HOUR_MS) {
+    const p = lastAtOrBefore(series, t);
+    if (p) values.push(p.mid);
+  }
+  if (values.length < 3) return null;
+  const changes = values.slice(1).map((v, i) => v - values[i]!);
+  const mean = changes.reduce((sum, x) => sum + x, 0) / changes.length;
+  return Math.sqrt(changes.reduce((sum, x) => sum + (x - mean) ** 2, 0) / changes.length);
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((sum, x) => sum + x, 0) / values.length : null;
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+// `series` must be sorted by time. Returns null without a price at t0 or near the end of the post window
+// (a series that stops early would report a partial move as the final one).
+export function studyEvent(
+  event: { eventId: string; title: string; category: string; marketId: string; at: number },
+  series: PricePoint[],
+  opts: EventStudyOptions = {}
+): EventStudy | null {
+  const preMs = (opts.preHours ?? 48) * HOUR_MS;
+  const postMs = (opts.postHours ?? 72) * HOUR_MS;
+  const minMove = opts.minMove ?? 0.01;
+  const endToleranceMs = (opts.endToleranceHours ?? 6) * HOUR_MS;
+  const t0 = event.at;
+  const window = series.filter((p) => p.at >= t0 - preMs && p.at <= t0 + postMs);
+  const base = lastAtOrBefore(series, t0);
+  const end = lastAtOrBefore(series, t0 + postMs);
+  if (!base || !end || end.at <= t0 || end.at < t0 + postMs - endToleranceMs) return null;
+
+  const move = end.mid - base.mid;
+  let halfRepricingHours: number | null = null;
+  if (Math.abs(move) >= minMove) {
+    const half = base.mid + move / 2;
+    const hit = window.find((p) => p.at > t0 && (move > 0 ? p.mid >= half : p.mid <= half));
+    if (hit) halfRepricingHours = (hit.at - t0) / HOUR_MS;
+  }
+
+  return {
+    ...event,
+    baseline: base.mid,
+    final: end.mid,
+    move,
+    halfRepricingHours,
+    volatilityBefore: hourlyChangeStdev(series, t0 - preMs, t0),
+    volatilityAfter: hourlyChangeStdev(series, t0, t0 + postMs),
+    curve: STUDY_OFFSETS_HOURS.filter((h) => h * HOUR_MS >= -preMs && h * HOUR_MS <= postMs).map((hours) => {
+      const p = lastAtOrBefore(series, t0 + hours * HOUR_MS);
+      return { hours, move: p ? p.mid - base.mid : null };
+    }),
+    samples: window.length
+  };
+}
+
+export function aggregateStudies(category: string, studies: EventStudy[], opts: Pick<EventStudyOptions, 'minMove'> = {}): RepricingCurve {
+  const minMove = opts.minMove ?? 0.01;
+  const repriced = studies.filter((s) => Math.abs(s.move) >= minMove);
+  const offsets = [...new Set(studies.flatMap((s) => s.curve.map((c) => c.hours)))].sort((a, b) => a - b);
+  return {
+    category,
+    events: studies.length,
+    repriced: repriced.length,
+    meanMove: mean(studies.map((s) => s.move)),
+    meanAbsMove: mean(studies.map((s) => Math.abs(s.move))),
+    medianAbsMove: median(studies.map((s) => Math.abs(s.move))),
+    medianHalfRepricingHours: median(repriced.flatMap((s) => (s.halfRepricingHours == null ? [] : [s.halfRepricingHours]))),
+    meanVolatilityBefore: mean(studies.flatMap((s) => (s.volatilityBefore == null ? [] : [s.volatilityBefore]))),
+    meanVolatilityAfter: mean(studies.flatMap((s) => (s.volatilityAfter == null ? [] : [s.volatilityAfter]))),
+    curve: offsets.map((hours) => {
+      const at = (s: EventStudy) => s.curve.find((c) => c.hours === hours)?.move ?? null;
+      const fractions = repriced.flatMap((s) => {
+        const m = at(s);
+        return m == null ? [] : [m / s.move];
+      });
+      const moves = studies.flatMap((s) => {
+        const m = at(s);
+        return m == null ? [] : [Math.abs(m)];
+      });
+      return { hours, fractionRepriced: median(fractions), meanAbsMove: mean(moves) };
+    })
+  };
+}
+
+// Share of the typical move already priced in `hours` after the event, interpolated between curve offsets.
+export function fractionRepricedAt(curve: RepricingCurve, hours: number): number | null {
+  const points = curve.curve.filter((c) => c.hours >= 0 && c.fractionRepriced != null) as Array<{ hours: number; fractionRepriced: number }>;
+  if (!points.length) return null;
+  if (hours <= points[0]!.hours) return points[0]!.fractionRepriced;
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!;
+    const b = points[i]!;
+    if (hours <= b.hours) return a.fractionRepriced + ((b.fractionRepriced - a.fractionRepriced) * (hours - a.hours)) / (b.hours - a.hours);
+  }
+  return points[points.length - 1]!.fractionRepriced;
+}
@@ -0,0 +1,81 @@
+import { listInfoEventsWithMarkets, listPriceSnapshots } from '../db/index.js';
+import { aggregateStudies, studyEvent, type EventStudy, type EventStudyOptions, type RepricingCurve } from './repricing.js';
+import { eventWindow } from './window.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const CURVE_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export type EventStudyQuery = EventStudyOptions & {
+  category?: string | null;
+  marketId?: string | null;
+  eventId?: string | null;
+  includeApproximate?: boolean; // approximate dates blur t0; left out unless asked for
+  now?: number;
+};
+
+export type EventStudyReport = {
+  studies: EventStudy[];
+  curves: RepricingCurve[]; // one per category, plus "all"
+  skipped: number; // past market-linked events without enough price history
+};
+
+export const UNCATEGORIZED = 'uncategorized';
+
+// Studies every market-linked event whose post window has fully elapsed, using the stored price snapshots.
+export function runEventStudy(query: EventStudyQuery = {}): EventStudyReport {
+  const now = query.now ?? Date.now();
+  const preMs = (query.preHours ?? 48) * HOUR_MS;
+  const postMs = (query.postHours ?? 72) * HOUR_MS;
+  const category = query.category?.trim().toLowerCase() || null;
+
+  const studies: EventStudy[] = [];
+  let skipped = 0;
+  for (const { event } of listInfoEventsWithMarkets({ limit: 2000, marketId: query.marketId ?? null })) {
+    if (!event.marketId) continue;
+    if (query.eventId && event.id !== query.eventId) continue;
+    const eventCategory = event.category ?? UNCATEGORIZED;
+    if (category && eventCategory !== category) continue;
+    if (event.dateConfidence === 'approximate' && !query.includeApproximate) continue;
+    const window = eventWindow(event.date, event.dateConfidence, { approximateSlackMs: 0 });
+    if (!window || window.start + postMs > now) continue;
+
+    // A day of extra history before the window so the baseline exists even when sampling was sparse.
+    const series = listPriceSnapshots(event.marketId, { from: window.start - preMs - 24 * HOUR_MS, to: window.start + postMs })
+      .filter((snap) => snap.mid != null)
+      .map((snap) => ({ at: snap.at, mid: snap.mid! }));
+    const study = studyEvent(
+      { eventId: event.id, title: event.title, category: eventCategory, marketId: event.marketId, at: window.start },
+      series,
+      query
+    );
+    if (study) studies.push(study);
+    else skipped++;
+  }
+
+  const categories = [...new Set(studies.map((s) => s.category))].sort();
+  const curves = categories.map((c) => aggregateStudies(c, studies.filter((s) => s.category === c), query));
+  curves.push(aggregateStudies('all', studies, query));
+  return { studies, curves, skipped };
+}
+
+// Typical curves by category (default study options) from the events whose post window had elapsed by `at`,
+// so a backtest can ask what was known at a past point.
+export function repricingCurvesAsOf(at: number): Map<string, RepricingCurve> {
+  return new Map(runEventStudy({ now: at }).curves.map((c) => [c.category, c]));
+}
+
+export function pickRepricingCurve(curves: Map<string, RepricingCurve>, category: string | null): RepricingCurve | null {
+  const curve = curves.get(category?.trim().toLowerCase() || UNCATEGORIZED) ?? null;
+  return curve && curve.events ? curve : null;
+}
+
+let cachedCurves: { at: number; curves: Map<string, RepricingCurve> } | null = null;
+
+// The typical curve for a category (default study options), cached for a few minutes; rule conditions call this on
+// every evaluation. Null when the category has no studied events.
+export function typicalRepricingCurve(category: string | null, now = Date.now()): RepricingCurve | null {
+  if (!cachedCurves || now - cachedCurves.at > CURVE_CACHE_TTL_MS || now < cachedCurves.at) {
+    cachedCurves = { at: now, curves: repricingCurvesAsOf(now) };
+  }
+  return pickRepricingCurve(cachedCurves.curves, category);
+}
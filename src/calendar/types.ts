@@ -0,0 +1,14 @@
+import type { DateConfidence } from '../db/index.js';
+
+// One row of a public schedule, before it is deduplicated and stored as an info event.
+export type ScheduleItem = {
+  title: string;
+  date: string; // YYYY-MM-DD, or an ISO timestamp when the schedule has a time
+  dateConfidence: DateConfidence;
+  source: string | null;
+  notes: string; // becomes the event's impact hypothesis
+  category: string | null;
+  market: string | null; // explicit market id / conditionId from the schedule, skips keyword linking
+};
+
+export type ScheduleParseResult = { items: ScheduleItem[]; skipped: Array<{ line: number; reason: string }> };
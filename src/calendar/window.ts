@@ -0,0 +1,47 @@
+import type { DateConfidence } from '../db/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When an info event can happen. `exact` dates cover the instant (timestamps) or the UTC day (plain dates);
+// `approximate` ones are widened by `approximateSlackMs` on both sides. `unknown` dates and free text ("Q3 2026")
+// have no window.
+export type EventWindow = { start: number; end: number; allDay: boolean };
+
+export function eventWindow(date: string, confidence: DateConfidence, opts: { approximateSlackMs: number }): EventWindow | null {
+  if (confidence === 'unknown') return null;
+  const value = date.trim();
+  let window: EventWindow | null = null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const start = Date.parse(`${value}T00:00:00Z`);
+    if (Number.isFinite(start)) window = { start, end: start + DAY_MS, allDay: true };
+  } else if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+    // Times without an offset (floating iCalendar times) are read as UTC.
+    const at = Date.parse(/(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`);
+    if (Number.isFinite(at)) window = { start: at, end: at, allDay: false };
+  }
+  if (!window) return null;
+  if (confidence === 'approximate') {
+    window.start -= opts.approximateSlackMs;
+    window.end += opts.approximateSlackMs;
+  }
+  return window;
+}
+
+export type HypothesisDirection = { direction: 1 | -1 | null; expectedMove: number | null };
+
+const UP_WORDS = /\b(up|higher|rise|rises|rally|rallies|jump|jumps|bullish|increase|increases|spike|spikes)\b/i;
+const DOWN_WORDS = /\b(down|lower|fall|falls|drop|drops|bearish|decrease|decreases|dump|dumps|sink|sinks)\b/i;
+
+// Reads the expected YES move out of a free-text impact hypothesis: a signed amount ("+5%", "-3pp", "+4c") wins,
+// otherwise direction words ("YES price rises"). Mixed or absent signals give no direction.
+export function hypothesisDirection(text: string): HypothesisDirection {
+  const signed = text.match(/(^|[\s(])([+\-−])\s?(\d+(?:\.\d+)?)\s?(%|pp|pts?|c|¢)/i);
+  if (signed) {
+    const sign = signed[2] === '+' ? 1 : -1;
+    return { direction: sign, expectedMove: (sign * Number(signed[3])) / 100 };
+  }
+  const up = UP_WORDS.test(text);
+  const down = DOWN_WORDS.test(text);
+  if (up === down) return { direction: null, expectedMove: null };
+  return { direction: up ? 1 : -1, expectedMove: null };
+}
@@ -0,0 +1,48 @@
+import { getConvictionProbabilityAt, listResolvedConvictions, listResolvedResearchCases } from '../db/index.js';
+import { caseConfidenceProbability, type Forecast } from './score.js';
+
+// Every resolved forecast: convictions as P(YES), research cases as P(recommended outcome wins).
+// A conviction is scored at its last revision before the market resolved; edits after that don't count,
+// and a conviction first recorded after resolution is no forecast at all.
+export function listResolvedForecasts(): Forecast[] {
+  const forecasts: Forecast[] = [];
+
+  for (const { conviction, market, resolution } of listResolvedConvictions()) {
+    const resolvedAt = Date.parse(resolution.resolvedAt);
+    const probability = Number.isFinite(resolvedAt) ? getConvictionProbabilityAt(conviction.id, resolvedAt) : conviction.myProbability;
+    if (probability == null) continue;
+    forecasts.push({
+      kind: 'conviction',
+      id: conviction.id,
+      label: market.question || market.externalId,
+      probability,
+      happened: resolution.yesWon,
+      model: 'manual',
+      category: resolution.category || 'uncategorized',
+      resolvedAt: resolution.resolvedAt
+    });
+  }
+
+  for (const { researchCase, resolution } of listResolvedResearchCases()) {
+    const probability = caseConfidenceProbability(researchCase.confidence);
+    const pick = String(researchCase.recommendedPosition || '').trim().toLowerCase();
+    // "None" (or anything that names no outcome) is not a forecast.
+    const outcomes = (researchCase.market?.outcomes ?? []).map((o) => String(o).trim().toLowerCase());
+    if (probability == null || !pick || (!outcomes.includes(pick) && pick !== 'yes' && pick !== 'no')) continue;
+    const happened =
+      pick === resolution.winningOutcome.trim().toLowerCase() || (pick === 'yes' ? resolution.yesWon : pick === 'no' ? !resolution.yesWon : false);
+
+    forecasts.push({
+      kind: 'case',
+      id: String(researchCase.dbId),
+      label: researchCase.market?.question || researchCase.marketId,
+      probability,
+      happened,
+      model: researchCase.agentModel || 'unknown',
+      category: researchCase.market?.category || resolution.category || 'uncategorized',
+      resolvedAt: resolution.resolvedAt
+    });
+  }
+
+  return forecasts;
+}
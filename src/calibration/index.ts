@@ -0,0 +1,14 @@
+export {
+  calibrationReport,
+  calibrationStats,
+  caseConfidenceProbability,
+  CONFIDENCE_PROBABILITY,
+  type CalibrationGroup,
+  type CalibrationReport,
+  type CalibrationStats,
+  type Forecast,
+  type ForecastKind,
+  type ReliabilityBucket
+} from './score.js';
+export { listResolvedForecasts } from './forecasts.js';
+export { pollMarketResolutions, type ResolutionPollResult } from './resolution.js';
@@ -0,0 +1,52 @@
+import {
+  listUnresolvedCaseMarketIds,
+  listUnresolvedMarkets,
+  recordMarketResolution,
+  type MarketResolution
+} from '../db/index.js';
+import { fetchMarketById, fetchMarketByConditionId, resolvedOutcomeIndex } from '../polymarket/index.js';
+import type { PolymarketMarket } from '../types/index.js';
+
+export type ResolutionPollResult = { checked: number; resolved: MarketResolution[]; errors: number };
+
+function record(market: PolymarketMarket, marketId: string | null): MarketResolution | null {
+  const winner = resolvedOutcomeIndex(market);
+  if (winner == null) return null;
+  return recordMarketResolution({
+    marketId,
+    gammaMarketId: market.id,
+    winningOutcome: market.outcomes[winner] ?? String(winner),
+    winningIndex: winner,
+    category: market.category
+  });
+}
+
+// One pass over every workstation market and research-case market without a recorded resolution.
+// Gamma is asked one market at a time; a failed lookup is retried on the next pass.
+export async function pollMarketResolutions(): Promise<ResolutionPollResult> {
+  const result: ResolutionPollResult = { checked: 0, resolved: [], errors: 0 };
+
+  for (const market of listUnresolvedMarkets()) {
+    result.checked++;
+    try {
+      const gamma = await fetchMarketByConditionId(market.externalId);
+      const resolution = gamma ? record(gamma, market.id) : null;
+      if (resolution) result.resolved.push(resolution);
+    } catch {
+      result.errors++;
+    }
+  }
+
+  // Cases are written against Gamma ids; a market already resolved above is no longer listed here.
+  for (const gammaId of listUnresolvedCaseMarketIds()) {
+    result.checked++;
+    try {
+      const resolution = record(await fetchMarketById(gammaId), null);
+      if (resolution) result.resolved.push(resolution);
+    } catch {
+      result.errors++;
+    }
+  }
+
+  return result;
+}
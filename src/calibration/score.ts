@@ -0,0 +1,110 @@
+// Scoring for probability forecasts against resolved outcomes: Brier score, log loss and reliability buckets.
+
+export type ForecastKind = 'conviction' | 'case';
+
+export type Forecast = {
+  kind: ForecastKind;
+  id: string;
+  label: string; // market question
+  probability: number; // 0..1, probability that the forecast event happens
+  happened: boolean;
+  model: string; // agent model for research cases, `manual` for convictions
+  category: string;
+  resolvedAt: string;
+};
+
+export type ReliabilityBucket = {
+  from: number;
+  to: number;
+  count: number;
+  meanForecast: number | null;
+  observedRate: number | null;
+};
+
+export type CalibrationStats = {
+  count: number;
+  brier: number | null;
+  logLoss: number | null;
+  buckets: ReliabilityBucket[];
+};
+
+export type CalibrationGroup = CalibrationStats & { key: string };
+
+export type CalibrationReport = {
+  overall: CalibrationStats;
+  byKind: CalibrationGroup[];
+  byModel: CalibrationGroup[];
+  byCategory: CalibrationGroup[];
+  forecasts: Forecast[];
+};
+
+// Log loss is unbounded at 0 and 1; a single "certain" miss would otherwise swamp every other forecast.
+const LOG_LOSS_EPSILON = 0.001;
+
+// Research cases carry a word, not a number. These are the probabilities the words are scored as.
+export const CONFIDENCE_PROBABILITY: Record<string, number> = { low: 0.55, medium: 0.7, high: 0.85 };
+
+// Probability that a case's recommended outcome wins: low/medium/high, or a number (0..1 or 0..100).
+export function caseConfidenceProbability(raw: unknown): number | null {
+  const text = String(raw ?? '').trim().toLowerCase();
+  if (text in CONFIDENCE_PROBABILITY) return CONFIDENCE_PROBABILITY[text]!;
+  const n = Number(text.replace(/%$/, ''));
+  if (!text || !Number.isFinite(n) || n < 0) return null;
+  if (n <= 1) return n;
+  return n <= 100 ? n / 100 : null;
+}
+
+export function calibrationStats(forecasts: Forecast[], bucketCount = 10): CalibrationStats {
+  const n = Math.max(1, Math.floor(bucketCount));
+  const buckets: ReliabilityBucket[] = Array.from({ length: n }, (_, i) => ({
+    from: i / n,
+    to: (i + 1) / n,
+    count: 0,
+    meanForecast: null,
+    observedRate: null
+  }));
+  if (!forecasts.length) return { count: 0, brier: null, logLoss: null, buckets };
+
+  let brier = 0;
+  let logLoss = 0;
+  const sums = buckets.map(() => ({ p: 0, hits: 0 }));
+  for (const f of forecasts) {
+    const o = f.happened ? 1 : 0;
+    brier += (f.probability - o) ** 2;
+    const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, f.probability));
+    logLoss += -(o * Math.log(p) + (1 - o) * Math.log(1 - p));
+    const i = Math.min(n - 1, Math.floor(f.probability * n));
+    buckets[i]!.count++;
+    sums[i]!.p += f.probability;
+    sums[i]!.hits += o;
+  }
+  for (let i = 0; i < n; i++) {
+    const b = buckets[i]!;
+    if (!b.count) continue;
+    b.meanForecast = sums[i]!.p / b.count;
+    b.observedRate = sums[i]!.hits / b.count;
+  }
+  return { count: forecasts.length, brier: brier / forecasts.length, logLoss: logLoss / forecasts.length, buckets };
+}
+
+function groupBy(forecasts: Forecast[], keyOf: (f: Forecast) => string, bucketCount: number): CalibrationGroup[] {
+  const groups = new Map<string, Forecast[]>();
+  for (const f of forecasts) {
+    const key = keyOf(f) || 'unknown';
+    groups.set(key, [...(groups.get(key) ?? []), f]);
+  }
+  return [...groups.entries()]
+    .map(([key, items]) => ({ key, ...calibrationStats(items, bucketCount) }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key));
+}
+
+export function calibrationReport(forecasts: Forecast[], opts: { buckets?: number } = {}): CalibrationReport {
+  const bucketCount = opts.buckets ?? 10;
+  return {
+    overall: calibrationStats(forecasts, bucketCount),
+    byKind: groupBy(forecasts, (f) => f.kind, bucketCount),
+    byModel: groupBy(forecasts, (f) => f.model, bucketCount),
+    byCategory: groupBy(forecasts, (f) => f.category, bucketCount),
+    forecasts
+  };
+}
@@ -2,6 +2,18 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import type { ResearchCase, CaseDecision, TradeRecord, OutcomeRecord } from '../types/index.js';
+import { normalizeAlertSeverity, type AlertSeverity } from '../alerts/severity.js';
+import { caseConfidenceProbability } from '../calibration/score.js';
+import {
+  edgeConditionTree,
+  legacyConditionTree,
+  normalizeConditionTree,
+  normalizeRuleAction,
+  parseStoredConditionTree,
+  parseStoredRuleAction,
+  type RuleAction,
+  type RuleConditionNode
+} from '../rules/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DB_PATH = path.join(__dirname, '../../data/truth-terminal.db');
@@ -48,10 +60,15 @@ db.exec(`
 
   CREATE TABLE IF NOT EXISTS outcomes (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
-    trade_id TEXT NOT NULL,
+    trade_id TEXT,
+    market_id TEXT,
+    gamma_market_id TEXT,
     resolved INTEGER DEFAULT 0,
     won INTEGER,
     pnl REAL,
+    winning_outcome TEXT,
+    winning_index INTEGER,
+    category TEXT,
     resolved_at TEXT,
     FOREIGN KEY (trade_id) REFERENCES trades(id)
   );
@@ -107,6 +124,7 @@ db.exec(`
     date_confidence TEXT NOT NULL,
     source TEXT,
     impact_hypothesis TEXT NOT NULL DEFAULT '',
+    category TEXT,
     created_by TEXT NOT NULL,
     created_at INTEGER NOT NULL,
     updated_at INTEGER NOT NULL,
@@ -155,20 +173,314 @@ db.exec(`
 
   CREATE TABLE IF NOT EXISTS alerts (
     id TEXT PRIMARY KEY,
-    rule_id TEXT NOT NULL,
+    rule_id TEXT,
+    event_id TEXT,
     market_id TEXT NOT NULL,
     message TEXT NOT NULL,
     created_at INTEGER NOT NULL,
     seen INTEGER NOT NULL DEFAULT 0,
     FOREIGN KEY (rule_id) REFERENCES rules(id),
+    FOREIGN KEY (event_id) REFERENCES info_events(id),
     FOREIGN KEY (market_id) REFERENCES markets(id)
   );
 
   CREATE INDEX IF NOT EXISTS idx_alerts_created ON alerts(created_at DESC);
   CREATE INDEX IF NOT EXISTS idx_alerts_seen_created ON alerts(seen, created_at DESC);
   CREATE INDEX IF NOT EXISTS idx_alerts_market ON alerts(market_id);
+
+  CREATE TABLE IF NOT EXISTS rule_history (
+    id TEXT PRIMARY KEY,
+    rule_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    detail TEXT NOT NULL DEFAULT '',
+    created_at INTEGER NOT NULL,
+    FOREIGN KEY (rule_id) REFERENCES rules(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_rule_history_rule_created ON rule_history(rule_id, created_at DESC);
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS price_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    market_id TEXT NOT NULL,
+    at INTEGER NOT NULL,
+    bucket_ms INTEGER NOT NULL DEFAULT 0,
+    mid REAL,
+    best_bid REAL,
+    best_ask REAL,
+    last_trade REAL,
+    liquidity REAL,
+    FOREIGN KEY (market_id) REFERENCES markets(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_price_snapshots_market_at ON price_snapshots(market_id, at);
+  CREATE INDEX IF NOT EXISTS idx_price_snapshots_bucket_at ON price_snapshots(bucket_ms, at);
+`);
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS alert_deliveries (
+    id TEXT PRIMARY KEY,
+    alert_id TEXT NOT NULL,
+    sink TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    delivered_at INTEGER,
+    FOREIGN KEY (alert_id) REFERENCES alerts(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_alert_deliveries_alert ON alert_deliveries(alert_id);
+  CREATE INDEX IF NOT EXISTS idx_alert_deliveries_created ON alert_deliveries(created_at DESC);
+`);
+
+try {
+  const cols = db.prepare(`PRAGMA table_info(info_events)`).all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === 'category')) db.exec(`ALTER TABLE info_events ADD COLUMN category TEXT`);
+} catch {
+  // ignore
+}
+
+try {
+  const cols = db.prepare(`PRAGMA table_info(alerts)`).all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === 'severity')) db.exec(`ALTER TABLE alerts ADD COLUMN severity TEXT NOT NULL DEFAULT 'info'`);
+} catch {
+  // ignore
+}
+
+// Calendar alerts have an event instead of a rule, so rule_id has to become nullable: rebuild the table. Foreign keys
+// are switched off while the old table is dropped, otherwise alert_deliveries would block it.
+try {
+  const cols = db.prepare(`PRAGMA table_info(alerts)`).all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === 'event_id')) {
+    const foreignKeys = db.pragma('foreign_keys', { simple: true });
+    db.pragma('foreign_keys = OFF');
+    try {
+      db.transaction(() => {
+        db.exec(`
+          CREATE TABLE alerts_rebuilt (
+            id TEXT PRIMARY KEY,
+            rule_id TEXT,
+            event_id TEXT,
+            market_id TEXT NOT NULL,
+            message TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            seen INTEGER NOT NULL DEFAULT 0,
+            severity TEXT NOT NULL DEFAULT 'info',
+            FOREIGN KEY (rule_id) REFERENCES rules(id),
+            FOREIGN KEY (event_id) REFERENCES info_events(id),
+            FOREIGN KEY (market_id) REFERENCES markets(id)
+          );
+          INSERT INTO alerts_rebuilt (id, rule_id, market_id, message, created_at, seen, severity)
+          SELECT id, rule_id, market_id, message, created_at, seen, severity FROM alerts;
+          DROP TABLE alerts;
+          ALTER TABLE alerts_rebuilt RENAME TO alerts;
+          CREATE INDEX IF NOT EXISTS idx_alerts_created ON alerts(created_at DESC);
+          CREATE INDEX IF NOT EXISTS idx_alerts_seen_created ON alerts(seen, created_at DESC);
+          CREATE INDEX IF NOT EXISTS idx_alerts_market ON alerts(market_id);
+        `);
+      })();
+    } finally {
+      db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+    }
+  }
+} catch {
+  // ignore
+}
+
+// One row per (event, scheduled date): when the pre-event alert went out and how the market moved across the event.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS event_impacts (
+    id TEXT PRIMARY KEY,
+    event_id TEXT NOT NULL,
+    market_id TEXT NOT NULL,
+    event_date TEXT NOT NULL,
+    date_confidence TEXT NOT NULL,
+    window_start INTEGER NOT NULL,
+    window_end INTEGER NOT NULL,
+    impact_hypothesis TEXT NOT NULL DEFAULT '',
+    alert_id TEXT,
+    alerted_at INTEGER,
+    before_mid REAL,
+    before_at INTEGER,
+    after_mid REAL,
+    after_at INTEGER,
+    move REAL,
+    status TEXT NOT NULL DEFAULT 'alerted',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    FOREIGN KEY (event_id) REFERENCES info_events(id),
+    FOREIGN KEY (market_id) REFERENCES markets(id),
+    FOREIGN KEY (alert_id) REFERENCES alerts(id)
+  );
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_event_impacts_event_date ON event_impacts(event_id, event_date);
+  CREATE INDEX IF NOT EXISTS idx_event_impacts_status ON event_impacts(status, window_end);
+`);
+
+// Outcomes used to be per trade only; market resolutions (trade_id NULL) need a nullable trade_id,
+// which SQLite can only get by rebuilding the table.
+try {
+  const cols = db.prepare(`PRAGMA table_info(outcomes)`).all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === 'market_id')) {
+    db.transaction(() => {
+      db.exec(`
+        ALTER TABLE outcomes RENAME TO outcomes_legacy;
+        CREATE TABLE outcomes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          trade_id TEXT,
+          market_id TEXT,
+          gamma_market_id TEXT,
+          resolved INTEGER DEFAULT 0,
+          won INTEGER,
+          pnl REAL,
+          winning_outcome TEXT,
+          winning_index INTEGER,
+          category TEXT,
+          resolved_at TEXT,
+          FOREIGN KEY (trade_id) REFERENCES trades(id)
+        );
+        INSERT INTO outcomes (id, trade_id, resolved, won, pnl, resolved_at)
+        SELECT id, trade_id, resolved, won, pnl, resolved_at FROM outcomes_legacy;
+        DROP TABLE outcomes_legacy;
+      `);
+    })();
+  }
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_outcomes_market ON outcomes(market_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_outcomes_gamma_market ON outcomes(gamma_market_id) WHERE trade_id IS NULL;
+  `);
+} catch {
+  // ignore
+}
+
+// Related markets (one election, one price ladder) and the joint outcomes they can resolve to.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS market_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    market_ids TEXT NOT NULL DEFAULT '[]',
+    scenarios TEXT NOT NULL DEFAULT '[]',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+`);
+
+// Append-only history of conviction edits, so a changed view keeps its past (and what prompted it).
+db.exec(`
+  CREATE TABLE IF NOT EXISTS conviction_revisions (
+    id TEXT PRIMARY KEY,
+    conviction_id TEXT NOT NULL,
+    market_id TEXT NOT NULL,
+    my_probability REAL NOT NULL,
+    previous_probability REAL,
+    entry_thesis TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL,
+    market_mid REAL,
+    reason TEXT NOT NULL DEFAULT '',
+    case_id INTEGER,
+    info_event_id TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_conviction_revisions_conviction ON conviction_revisions(conviction_id, created_at);
 `);
 
+try {
+  const cols = db.prepare(`PRAGMA table_info(convictions)`).all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === 'case_id')) db.exec(`ALTER TABLE convictions ADD COLUMN case_id INTEGER`);
+} catch {
+  // ignore
+}
+
+try {
+  // Convictions from before the history existed start it at their last saved state.
+  db.exec(`
+    INSERT INTO conviction_revisions (id, conviction_id, market_id, my_probability, entry_thesis, status, reason, created_at)
+    SELECT 'rev_' || c.id, c.id, c.market_id, c.my_probability, c.entry_thesis, c.status, 'recorded before revision history', c.updated_at
+    FROM convictions c
+    WHERE NOT EXISTS (SELECT 1 FROM conviction_revisions r WHERE r.conviction_id = c.id)
+  `);
+} catch {
+  // ignore
+}
+
+// Every change to a position: execution fills, and manual edits as adjustments.
+db.exec(`
+  CREATE TABLE IF NOT EXISTS position_ledger (
+    id TEXT PRIMARY KEY,
+    position_id TEXT NOT NULL,
+    market_id TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    shares_delta REAL NOT NULL,
+    price REAL,
+    realized_pnl REAL NOT NULL DEFAULT 0,
+    shares_after REAL NOT NULL,
+    avg_price_after REAL NOT NULL,
+    order_id TEXT,
+    fill_id TEXT,
+    note TEXT NOT NULL DEFAULT '',
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_position_ledger_position ON position_ledger(position_id, created_at);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_position_ledger_fill ON position_ledger(fill_id) WHERE fill_id IS NOT NULL;
+`);
+
+try {
+  const cols = db.prepare(`PRAGMA table_info(positions)`).all() as Array<{ name: string }>;
+  if (!cols.some((c) => c.name === 'realized_pnl')) db.exec(`ALTER TABLE positions ADD COLUMN realized_pnl REAL NOT NULL DEFAULT 0`);
+  // Positions entered before the ledger existed start it with one adjustment for their current size.
+  db.exec(`
+    INSERT INTO position_ledger (id, position_id, market_id, outcome, kind, shares_delta, price, shares_after, avg_price_after, note, created_at)
+    SELECT 'led_' || p.id, p.id, p.market_id, p.outcome, 'adjustment', p.shares, p.avg_price, p.shares, p.avg_price, 'opening balance', p.created_at
+    FROM positions p
+    WHERE NOT EXISTS (SELECT 1 FROM position_ledger l WHERE l.position_id = p.id)
+  `);
+} catch {
+  // ignore
+}
+
+// Lightweight migrations (keep existing DBs working)
+try {
+  const cols = db.prepare(`PRAGMA table_info(rules)`).all() as Array<{ name: string }>;
+  const names = new Set(cols.map((c) => c.name));
+  if (!names.has('conditions')) db.exec(`ALTER TABLE rules ADD COLUMN conditions TEXT`);
+  if (!names.has('edge_basis')) db.exec(`ALTER TABLE rules ADD COLUMN edge_basis TEXT`);
+  if (!names.has('edge_size_usd')) db.exec(`ALTER TABLE rules ADD COLUMN edge_size_usd REAL`);
+  if (!names.has('mode')) db.exec(`ALTER TABLE rules ADD COLUMN mode TEXT NOT NULL DEFAULT 'once'`);
+  if (!names.has('rearm_band')) db.exec(`ALTER TABLE rules ADD COLUMN rearm_band REAL NOT NULL DEFAULT 0`);
+  if (!names.has('cooldown_minutes')) db.exec(`ALTER TABLE rules ADD COLUMN cooldown_minutes REAL`);
+  if (!names.has('max_fires')) db.exec(`ALTER TABLE rules ADD COLUMN max_fires INTEGER`);
+  if (!names.has('fire_count')) {
+    db.exec(`ALTER TABLE rules ADD COLUMN fire_count INTEGER NOT NULL DEFAULT 0`);
+    // Rules that fired before fire counts existed fired exactly once.
+    db.exec(`UPDATE rules SET fire_count = 1 WHERE triggered_at IS NOT NULL`);
+  }
+  if (!names.has('expires_at')) db.exec(`ALTER TABLE rules ADD COLUMN expires_at INTEGER`);
+  if (!names.has('action')) db.exec(`ALTER TABLE rules ADD COLUMN action TEXT`);
+
+  // Single-threshold rules predate `conditions`; express them as condition trees so the engine has one code path.
+  const legacy = db.prepare(`SELECT id, type, price_threshold, min_my_probability FROM rules WHERE conditions IS NULL`).all() as any[];
+  const setConditions = db.prepare(`UPDATE rules SET conditions = ? WHERE id = ?`);
+  for (const r of legacy) {
+    const tree = legacyConditionTree({
+      type: String(r.type) === 'price_above' ? 'price_above' : 'price_below',
+      priceThreshold: Number(r.price_threshold),
+      minMyProbability: r.min_my_probability == null ? null : Number(r.min_my_probability)
+    });
+    setConditions.run(JSON.stringify(tree), String(r.id));
+  }
+} catch {
+  // ignore
+}
+
 function newId(prefix: string): string {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
 }
@@ -265,6 +577,154 @@ export function upsertMarket(input: {
   return getMarketById(existing.id)!;
 }
 
+export function listMarkets(opts?: { source?: MarketSource; limit?: number }): Market[] {
+  const limitRaw = opts?.limit ?? 1000;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(5000, Math.floor(limitRaw))) : 1000;
+  const source = opts?.source ?? null;
+  const rows = db
+    .prepare(`SELECT * FROM markets WHERE (? IS NULL OR source = ?) ORDER BY updated_at DESC LIMIT ?`)
+    .all(source, source, limit) as any[];
+  return rows.map(rowToMarket);
+}
+
+// Markets the user follows: a conviction that is not exited, or an open position.
+export function listWatchedMarkets(): Market[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT m.* FROM markets m
+      WHERE EXISTS (SELECT 1 FROM convictions c WHERE c.market_id = m.id AND c.status != 'exited')
+         OR EXISTS (SELECT 1 FROM positions p WHERE p.market_id = m.id AND p.shares > 0)
+      ORDER BY m.updated_at DESC
+    `
+    )
+    .all() as any[];
+  return rows.map(rowToMarket);
+}
+
+// ============================
+// Price snapshots
+// ============================
+
+// `bucketMs` is 0 for a raw sample; compacted rows carry the bucket width they summarize (closing values, `at` = bucket start).
+export type PriceSnapshot = {
+  marketId: string;
+  at: number;
+  bucketMs: number;
+  mid: number | null;
+  bestBid: number | null;
+  bestAsk: number | null;
+  lastTrade: number | null;
+  liquidity: number | null;
+};
+
+function finiteOrNull(value: unknown): number | null {
+  if (value == null) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function rowToPriceSnapshot(r: any): PriceSnapshot {
+  return {
+    marketId: String(r.market_id),
+    at: Number(r.at),
+    bucketMs: Number(r.bucket_ms || 0),
+    mid: finiteOrNull(r.mid),
+    bestBid: finiteOrNull(r.best_bid),
+    bestAsk: finiteOrNull(r.best_ask),
+    lastTrade: finiteOrNull(r.last_trade),
+    liquidity: finiteOrNull(r.liquidity)
+  };
+}
+
+export function insertPriceSnapshot(input: Omit<PriceSnapshot, 'bucketMs'>): void {
+  db.prepare(
+    `INSERT INTO price_snapshots (market_id, at, bucket_ms, mid, best_bid, best_ask, last_trade, liquidity) VALUES (?, ?, 0, ?, ?, ?, ?, ?)`
+  ).run(
+    input.marketId,
+    input.at,
+    finiteOrNull(input.mid),
+    finiteOrNull(input.bestBid),
+    finiteOrNull(input.bestAsk),
+    finiteOrNull(input.lastTrade),
+    finiteOrNull(input.liquidity)
+  );
+}
+
+// Oldest first. With `intervalMs`, keeps the last snapshot per interval (stamped at the interval start).
+export function listPriceSnapshots(
+  marketId: string,
+  opts?: { from?: number | null; to?: number | null; intervalMs?: number | null; limit?: number }
+): PriceSnapshot[] {
+  const limitRaw = opts?.limit ?? 5000;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(50_000, Math.floor(limitRaw))) : 5000;
+  const from = opts?.from ?? null;
+  const to = opts?.to ?? null;
+  const rows = db
+    .prepare(
+      `
+      SELECT * FROM price_snapshots
+      WHERE market_id = ? AND (? IS NULL OR at >= ?) AND (? IS NULL OR at <= ?)
+      ORDER BY at ASC, id ASC
+    `
+    )
+    .all(marketId, from, from, to, to) as any[];
+
+  const intervalMs = opts?.intervalMs ?? null;
+  let snapshots = rows.map(rowToPriceSnapshot);
+  if (intervalMs != null && intervalMs > 0) {
+    const byBucket = new Map<number, PriceSnapshot>();
+    for (const snap of snapshots) {
+      const start = Math.floor(snap.at / intervalMs) * intervalMs;
+      byBucket.set(start, { ...snap, at: start, bucketMs: Math.max(intervalMs, snap.bucketMs) });
+    }
+    snapshots = [...byBucket.values()];
+  }
+  return snapshots.length > limit ? snapshots.slice(snapshots.length - limit) : snapshots;
+}
+
+export type PriceSnapshotRetention = {
+  rawMs: number; // raw samples younger than this are kept as-is
+  hourlyMs: number; // then hourly closes up to this age
+  maxAgeMs: number | null; // then daily closes, dropped past this age (null = kept forever)
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Collapses every `fromBucketMs` row older than `before` into one closing row per `toBucketMs` bucket.
+function collapsePriceSnapshots(fromBucketMs: number, toBucketMs: number, before: number): number {
+  const cutoff = Math.floor(before / toBucketMs) * toBucketMs; // only whole buckets
+  const rows = db
+    .prepare(`SELECT * FROM price_snapshots WHERE bucket_ms = ? AND at < ? ORDER BY market_id, at ASC, id ASC`)
+    .all(fromBucketMs, cutoff) as any[];
+  if (!rows.length) return 0;
+
+  const closes = new Map<string, PriceSnapshot>();
+  for (const r of rows) {
+    const snap = rowToPriceSnapshot(r);
+    const start = Math.floor(snap.at / toBucketMs) * toBucketMs;
+    closes.set(`${snap.marketId}:${start}`, { ...snap, at: start, bucketMs: toBucketMs });
+  }
+
+  const insert = db.prepare(
+    `INSERT INTO price_snapshots (market_id, at, bucket_ms, mid, best_bid, best_ask, last_trade, liquidity) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    db.prepare(`DELETE FROM price_snapshots WHERE bucket_ms = ? AND at < ?`).run(fromBucketMs, cutoff);
+    for (const c of closes.values()) insert.run(c.marketId, c.at, c.bucketMs, c.mid, c.bestBid, c.bestAsk, c.lastTrade, c.liquidity);
+  })();
+  return rows.length - closes.size;
+}
+
+export function compactPriceSnapshots(policy: PriceSnapshotRetention, now = Date.now()): { collapsed: number; deleted: number } {
+  let collapsed = collapsePriceSnapshots(0, HOUR_MS, now - policy.rawMs);
+  collapsed += collapsePriceSnapshots(HOUR_MS, DAY_MS, now - policy.hourlyMs);
+  const deleted =
+    policy.maxAgeMs == null ? 0 : Number(db.prepare(`DELETE FROM price_snapshots WHERE at < ?`).run(now - policy.maxAgeMs).changes || 0);
+  return { collapsed, deleted };
+}
+
 export type ConvictionStatus = 'watching' | 'entered' | 'exited';
 
 export type Conviction = {
@@ -275,6 +735,7 @@ export type Conviction = {
   status: ConvictionStatus;
   keyUncertainties: string[];
   exitConditions: string[];
+  caseId: number | null; // research case it was last approved from
   createdAt: number;
   updatedAt: number;
 };
@@ -305,6 +766,7 @@ function rowToConviction(r: any): Conviction {
     status: (String(r.status) as ConvictionStatus) || 'watching',
     keyUncertainties,
     exitConditions,
+    caseId: r.case_id == null ? null : Number(r.case_id),
     createdAt: Number(r.created_at),
     updatedAt: Number(r.updated_at)
   };
@@ -346,14 +808,74 @@ export function getConvictionByMarketId(marketId: string): Conviction | null {
   return row ? rowToConviction(row) : null;
 }
 
-export function upsertConvictionByMarketId(input: {
+export type ConvictionRevision = {
+  id: string;
+  convictionId: string;
   marketId: string;
-  myProbability: unknown;
-  entryThesis?: string;
-  status?: unknown;
-  keyUncertainties?: unknown;
-  exitConditions?: unknown;
-}): Conviction {
+  myProbability: number; // 0..1
+  previousProbability: number | null;
+  entryThesis: string;
+  status: ConvictionStatus;
+  marketMid: number | null; // YES mid when the revision was saved
+  reason: string;
+  caseId: number | null; // research case that prompted it
+  infoEventId: string | null; // info event that prompted it
+  createdAt: number;
+};
+
+function rowToConvictionRevision(r: any): ConvictionRevision {
+  return {
+    id: String(r.id),
+    convictionId: String(r.conviction_id),
+    marketId: String(r.market_id),
+    myProbability: Number(r.my_probability),
+    previousProbability: r.previous_probability == null ? null : Number(r.previous_probability),
+    entryThesis: String(r.entry_thesis || ''),
+    status: normalizeStatus(r.status),
+    marketMid: r.market_mid == null ? null : Number(r.market_mid),
+    reason: String(r.reason || ''),
+    caseId: r.case_id == null ? null : Number(r.case_id),
+    infoEventId: r.info_event_id == null ? null : String(r.info_event_id),
+    createdAt: Number(r.created_at)
+  };
+}
+
+export function listConvictionRevisions(convictionId: string, opts?: { limit?: number }): ConvictionRevision[] {
+  const limitRaw = opts?.limit ?? 500;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 500;
+  const rows = db
+    .prepare(`SELECT * FROM (SELECT rowid AS seq, * FROM conviction_revisions WHERE conviction_id = ? ORDER BY created_at DESC, seq DESC LIMIT ?) ORDER BY created_at ASC, seq ASC`)
+    .all(convictionId, limit) as any[];
+  return rows.map(rowToConvictionRevision);
+}
+
+// The conviction's probability as last revised at or before `at` (null if it had no revision by then).
+export function getConvictionProbabilityAt(convictionId: string, at: number): number | null {
+  const row = db
+    .prepare(`SELECT my_probability FROM conviction_revisions WHERE conviction_id = ? AND created_at <= ? ORDER BY created_at DESC, rowid DESC LIMIT 1`)
+    .get(convictionId, at) as { my_probability: number } | undefined;
+  return row ? Number(row.my_probability) : null;
+}
+
+// What a save is revising from, for the revision history. An edit that changes nothing and gives no reason is not recorded.
+export type ConvictionRevisionInput = {
+  marketMid?: number | null;
+  reason?: string;
+  caseId?: number | null;
+  infoEventId?: string | null;
+};
+
+export function upsertConvictionByMarketId(
+  input: {
+    marketId: string;
+    myProbability: unknown;
+    entryThesis?: string;
+    status?: unknown;
+    keyUncertainties?: unknown;
+    exitConditions?: unknown;
+  },
+  revision: ConvictionRevisionInput = {}
+): Conviction {
   const marketId = String(input.marketId || '').trim();
   if (!marketId) throw new Error('marketId required');
 
@@ -366,29 +888,57 @@ export function upsertConvictionByMarketId(input: {
   const exitConditions =
     Array.isArray(input.exitConditions) ? input.exitConditions.map((x) => String(x)) : typeof input.exitConditions === 'string' ? [input.exitConditions] : [];
 
+  const reason = String(revision.reason ?? '').trim();
+  const caseId = revision.caseId == null ? null : Math.floor(Number(revision.caseId));
+  if (caseId != null && (!Number.isFinite(caseId) || !db.prepare(`SELECT 1 FROM research_cases WHERE id = ?`).get(caseId))) {
+    throw new Error('Research case not found');
+  }
+  const infoEventId = revision.infoEventId ? String(revision.infoEventId).trim() || null : null;
+  if (infoEventId && !db.prepare(`SELECT 1 FROM info_events WHERE id = ?`).get(infoEventId)) throw new Error('Info event not found');
+  const marketMid = revision.marketMid != null && Number.isFinite(revision.marketMid) ? revision.marketMid : null;
+
   const existing = getConvictionByMarketId(marketId);
   const now = Date.now();
 
-  if (!existing) {
-    const id = newId('cvn');
-    db.prepare(
+  const changed =
+    !existing ||
+    existing.myProbability !== myProbability ||
+    existing.entryThesis !== entryThesis ||
+    existing.status !== status ||
+    JSON.stringify(existing.keyUncertainties) !== JSON.stringify(keyUncertainties) ||
+    JSON.stringify(existing.exitConditions) !== JSON.stringify(exitConditions);
+
+  const id = existing?.id ?? newId('cvn');
+  db.transaction(() => {
+    if (!existing) {
+      db.prepare(
+        `
+        INSERT INTO convictions (id, market_id, my_probability, entry_thesis, status, key_uncertainties, exit_conditions, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `
-      INSERT INTO convictions (id, market_id, my_probability, entry_thesis, status, key_uncertainties, exit_conditions, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `
-    ).run(id, marketId, myProbability, entryThesis, status, JSON.stringify(keyUncertainties), JSON.stringify(exitConditions), now, now);
-    return getConvictionById(id)!;
-  }
+      ).run(id, marketId, myProbability, entryThesis, status, JSON.stringify(keyUncertainties), JSON.stringify(exitConditions), now, now);
+    } else {
+      db.prepare(
+        `
+        UPDATE convictions
+        SET my_probability = ?, entry_thesis = ?, status = ?, key_uncertainties = ?, exit_conditions = ?, updated_at = ?
+        WHERE id = ?
+      `
+      ).run(myProbability, entryThesis, status, JSON.stringify(keyUncertainties), JSON.stringify(exitConditions), now, id);
+    }
 
-  db.prepare(
+    if (!changed && !reason && caseId == null && !infoEventId) return;
+    db.prepare(
+      `
+      INSERT INTO conviction_revisions (
+        id, conviction_id, market_id, my_probability, previous_probability, entry_thesis, status, market_mid, reason, case_id, info_event_id, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `
-    UPDATE convictions
-    SET my_probability = ?, entry_thesis = ?, status = ?, key_uncertainties = ?, exit_conditions = ?, updated_at = ?
-    WHERE id = ?
-  `
-  ).run(myProbability, entryThesis, status, JSON.stringify(keyUncertainties), JSON.stringify(exitConditions), now, existing.id);
+    ).run(newId('rev'), id, marketId, myProbability, existing?.myProbability ?? null, entryThesis, status, marketMid, reason, caseId, infoEventId, now);
+  })();
 
-  return getConvictionById(existing.id)!;
+  return getConvictionById(id)!;
 }
 
 export function deleteConviction(id: string): void {
@@ -452,11 +1002,17 @@ export type InfoEvent = {
   dateConfidence: DateConfidence;
   source: string | null;
   impactHypothesis: string;
+  category: string | null; // e.g. "fomc", "cpi", "earnings"; groups events in the event study
   createdBy: CreatedBy;
   createdAt: number;
   updatedAt: number;
 };
 
+function normalizeEventCategory(value: unknown): string | null {
+  if (value == null) return null;
+  return String(value).trim().toLowerCase().replace(/\s+/g, '-').slice(0, 64) || null;
+}
+
 function normalizeDateConfidence(value: unknown): DateConfidence {
   const s = String(value || '').toLowerCase();
   if (s === 'exact') return 'exact';
@@ -478,6 +1034,7 @@ function rowToInfoEvent(r: any): InfoEvent {
     dateConfidence: normalizeDateConfidence(r.date_confidence),
     source: r.source == null ? null : String(r.source),
     impactHypothesis: String(r.impact_hypothesis || ''),
+    category: normalizeEventCategory(r.category),
     createdBy: normalizeCreatedBy(r.created_by),
     createdAt: Number(r.created_at),
     updatedAt: Number(r.updated_at)
@@ -547,6 +1104,7 @@ export function createInfoEvent(input: {
   dateConfidence?: unknown;
   source?: string | null;
   impactHypothesis?: string;
+  category?: unknown;
   createdBy?: unknown;
 }): InfoEvent {
   const id = newId('evt');
@@ -560,14 +1118,15 @@ export function createInfoEvent(input: {
   const dateConfidence = normalizeDateConfidence(input.dateConfidence);
   const source = input.source == null ? null : String(input.source).trim() || null;
   const impactHypothesis = String(input.impactHypothesis ?? '');
+  const category = normalizeEventCategory(input.category);
   const createdBy = normalizeCreatedBy(input.createdBy);
 
   db.prepare(
     `
-    INSERT INTO info_events (id, market_id, title, date, date_confidence, source, impact_hypothesis, created_by, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO info_events (id, market_id, title, date, date_confidence, source, impact_hypothesis, category, created_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `
-  ).run(id, marketId, title, date, dateConfidence, source, impactHypothesis, createdBy, now, now);
+  ).run(id, marketId, title, date, dateConfidence, source, impactHypothesis, category, createdBy, now, now);
 
   const row = db.prepare(`SELECT * FROM info_events WHERE id = ?`).get(id) as any;
   return rowToInfoEvent(row);
@@ -587,6 +1146,7 @@ export function updateInfoEvent(id: string, patch: Partial<Omit<InfoEvent, 'id'
     dateConfidence: patch.dateConfidence === undefined ? current.dateConfidence : normalizeDateConfidence(patch.dateConfidence),
     source: patch.source === undefined ? current.source : patch.source == null ? null : String(patch.source),
     impactHypothesis: patch.impactHypothesis === undefined ? current.impactHypothesis : String(patch.impactHypothesis),
+    category: patch.category === undefined ? current.category : normalizeEventCategory(patch.category),
     createdBy: patch.createdBy === undefined ? current.createdBy : normalizeCreatedBy(patch.createdBy),
     createdAt: current.createdAt,
     updatedAt: now
@@ -598,7 +1158,7 @@ export function updateInfoEvent(id: string, patch: Partial<Omit<InfoEvent, 'id'
   db.prepare(
     `
     UPDATE info_events
-    SET market_id = ?, title = ?, date = ?, date_confidence = ?, source = ?, impact_hypothesis = ?, created_by = ?, updated_at = ?
+    SET market_id = ?, title = ?, date = ?, date_confidence = ?, source = ?, impact_hypothesis = ?, category = ?, created_by = ?, updated_at = ?
     WHERE id = ?
   `
   ).run(
@@ -608,6 +1168,7 @@ export function updateInfoEvent(id: string, patch: Partial<Omit<InfoEvent, 'id'
     next.dateConfidence,
     next.source,
     next.impactHypothesis,
+    next.category,
     next.createdBy,
     now,
     id
@@ -617,8 +1178,180 @@ export function updateInfoEvent(id: string, patch: Partial<Omit<InfoEvent, 'id'
   return rowToInfoEvent(row);
 }
 
+// Same title (case-insensitive) on the same day; the importers use this to skip events they have already seen.
+export function findInfoEventByTitleAndDay(title: string, date: string): InfoEvent | null {
+  const row = db
+    .prepare(`SELECT * FROM info_events WHERE lower(title) = lower(?) AND substr(date, 1, 10) = substr(?, 1, 10) LIMIT 1`)
+    .get(String(title).trim(), String(date).trim()) as any;
+  return row ? rowToInfoEvent(row) : null;
+}
+
 export function deleteInfoEvent(id: string): void {
-  db.prepare(`DELETE FROM info_events WHERE id = ?`).run(id);
+  db.transaction(() => {
+    db.prepare(`DELETE FROM event_impacts WHERE event_id = ?`).run(id);
+    db.prepare(`UPDATE alerts SET event_id = NULL WHERE event_id = ?`).run(id);
+    db.prepare(`DELETE FROM info_events WHERE id = ?`).run(id);
+  })();
+}
+
+// Events with a usable date that are linked to a watched market (see listWatchedMarkets); the calendar scheduler
+// alerts ahead of these.
+export function listAlertableInfoEvents(): Array<{ event: InfoEvent; market: Market }> {
+  const markets = new Map(listWatchedMarkets().map((m) => [m.id, m]));
+  if (!markets.size) return [];
+  const rows = db.prepare(`SELECT * FROM info_events WHERE market_id IS NOT NULL AND date_confidence != 'unknown'`).all() as any[];
+  return rows
+    .map(rowToInfoEvent)
+    .filter((event) => markets.has(event.marketId!))
+    .map((event) => ({ event, market: markets.get(event.marketId!)! }));
+}
+
+// alerted (pre-event alert sent) → complete (move measured) | no_data (no price on one side of the event).
+export type EventImpactStatus = 'alerted' | 'complete' | 'no_data';
+
+export type EventImpact = {
+  id: string;
+  eventId: string;
+  marketId: string;
+  eventDate: string; // the event's date when it was alerted; rescheduling the event starts a new row
+  dateConfidence: DateConfidence;
+  windowStart: number;
+  windowEnd: number;
+  impactHypothesis: string;
+  alertId: string | null;
+  alertedAt: number | null;
+  beforeMid: number | null;
+  beforeAt: number | null;
+  afterMid: number | null;
+  afterAt: number | null;
+  move: number | null; // afterMid - beforeMid, in YES probability
+  status: EventImpactStatus;
+  createdAt: number;
+  updatedAt: number;
+};
+
+function rowToEventImpact(r: any): EventImpact {
+  const status = String(r.status);
+  return {
+    id: String(r.id),
+    eventId: String(r.event_id),
+    marketId: String(r.market_id),
+    eventDate: String(r.event_date),
+    dateConfidence: normalizeDateConfidence(r.date_confidence),
+    windowStart: Number(r.window_start),
+    windowEnd: Number(r.window_end),
+    impactHypothesis: String(r.impact_hypothesis || ''),
+    alertId: r.alert_id == null ? null : String(r.alert_id),
+    alertedAt: r.alerted_at == null ? null : Number(r.alerted_at),
+    beforeMid: finiteOrNull(r.before_mid),
+    beforeAt: r.before_at == null ? null : Number(r.before_at),
+    afterMid: finiteOrNull(r.after_mid),
+    afterAt: r.after_at == null ? null : Number(r.after_at),
+    move: finiteOrNull(r.move),
+    status: status === 'complete' || status === 'no_data' ? status : 'alerted',
+    createdAt: Number(r.created_at),
+    updatedAt: Number(r.updated_at)
+  };
+}
+
+export function getEventImpact(eventId: string, eventDate: string): EventImpact | null {
+  const row = db.prepare(`SELECT * FROM event_impacts WHERE event_id = ? AND event_date = ?`).get(eventId, eventDate) as any;
+  return row ? rowToEventImpact(row) : null;
+}
+
+export function recordEventAlert(input: {
+  event: InfoEvent;
+  marketId: string;
+  windowStart: number;
+  windowEnd: number;
+  alertId: string;
+  mid: number | null; // live mid when the alert went out; fallback "before" price
+  at: number;
+}): EventImpact {
+  const id = newId('eimp');
+  db.prepare(
+    `
+    INSERT INTO event_impacts (
+      id, event_id, market_id, event_date, date_confidence, window_start, window_end, impact_hypothesis,
+      alert_id, alerted_at, before_mid, before_at, status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'alerted', ?, ?)
+  `
+  ).run(
+    id,
+    input.event.id,
+    input.marketId,
+    input.event.date,
+    input.event.dateConfidence,
+    input.windowStart,
+    input.windowEnd,
+    input.event.impactHypothesis,
+    input.alertId,
+    input.at,
+    input.mid,
+    input.mid == null ? null : input.at,
+    input.at,
+    input.at
+  );
+  return rowToEventImpact(db.prepare(`SELECT * FROM event_impacts WHERE id = ?`).get(id));
+}
+
+// Alerted events whose window closed at or before `endedBefore`, waiting for their after-event price.
+export function listPendingEventImpacts(endedBefore: number): EventImpact[] {
+  const rows = db
+    .prepare(`SELECT * FROM event_impacts WHERE status = 'alerted' AND window_end <= ? ORDER BY window_end ASC`)
+    .all(endedBefore) as any[];
+  return rows.map(rowToEventImpact);
+}
+
+export function completeEventImpact(
+  id: string,
+  input: { beforeMid: number | null; beforeAt: number | null; afterMid: number | null; afterAt: number | null }
+): EventImpact {
+  const hasMove = input.beforeMid != null && input.afterMid != null;
+  db.prepare(
+    `
+    UPDATE event_impacts
+    SET before_mid = ?, before_at = ?, after_mid = ?, after_at = ?, move = ?, status = ?, updated_at = ?
+    WHERE id = ?
+  `
+  ).run(
+    input.beforeMid,
+    input.beforeAt,
+    input.afterMid,
+    input.afterAt,
+    hasMove ? input.afterMid! - input.beforeMid! : null,
+    hasMove ? 'complete' : 'no_data',
+    Date.now(),
+    id
+  );
+  const row = db.prepare(`SELECT * FROM event_impacts WHERE id = ?`).get(id) as any;
+  if (!row) throw new Error('Event impact not found');
+  return rowToEventImpact(row);
+}
+
+export type EventImpactWithEvent = { impact: EventImpact; event: InfoEvent | null; market: Market | null };
+
+export function listEventImpacts(opts?: { limit?: number; marketId?: string | null; eventId?: string | null }): EventImpactWithEvent[] {
+  const limitRaw = opts?.limit ?? 200;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 200;
+  const marketId = opts?.marketId ?? null;
+  const eventId = opts?.eventId ?? null;
+  const rows = db
+    .prepare(
+      `
+      SELECT * FROM event_impacts
+      WHERE (? IS NULL OR market_id = ?) AND (? IS NULL OR event_id = ?)
+      ORDER BY window_start DESC
+      LIMIT ?
+    `
+    )
+    .all(marketId, marketId, eventId, eventId, limit) as any[];
+  const eventStmt = db.prepare(`SELECT * FROM info_events WHERE id = ?`);
+  return rows.map((r) => {
+    const impact = rowToEventImpact(r);
+    const eventRow = eventStmt.get(impact.eventId) as any;
+    return { impact, event: eventRow ? rowToInfoEvent(eventRow) : null, market: getMarketById(impact.marketId) };
+  });
 }
 
 export type PositionOutcome = 'YES' | 'NO';
@@ -629,6 +1362,7 @@ export type Position = {
   outcome: PositionOutcome;
   shares: number;
   avgPrice: number; // 0..1
+  realizedPnl: number; // USD, from sells below/above average cost
   createdAt: number;
   updatedAt: number;
 };
@@ -645,6 +1379,7 @@ function rowToPosition(r: any): Position {
     outcome: normalizeOutcome(r.outcome),
     shares: Number(r.shares),
     avgPrice: Number(r.avg_price),
+    realizedPnl: Number(r.realized_pnl || 0),
     createdAt: Number(r.created_at),
     updatedAt: Number(r.updated_at)
   };
@@ -708,12 +1443,26 @@ export function createPosition(input: { marketId: string; outcome: unknown; shar
 
   const now = Date.now();
   const id = newId('pos');
-  db.prepare(
+  db.transaction(() => {
+    db.prepare(
+      `
+      INSERT INTO positions (id, market_id, outcome, shares, avg_price, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
     `
-    INSERT INTO positions (id, market_id, outcome, shares, avg_price, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `
-  ).run(id, marketId, outcome, shares, avgPrice, now, now);
+    ).run(id, marketId, outcome, shares, avgPrice, now, now);
+    recordLedgerEntry({
+      positionId: id,
+      marketId,
+      outcome,
+      kind: 'adjustment',
+      sharesDelta: shares,
+      price: avgPrice,
+      sharesAfter: shares,
+      avgPriceAfter: avgPrice,
+      note: 'opened manually',
+      at: now
+    });
+  })();
 
   const row = db.prepare(`SELECT * FROM positions WHERE id = ?`).get(id) as any;
   return rowToPosition(row);
@@ -735,35 +1484,378 @@ export function updatePosition(id: string, patch: Partial<Pick<Position, 'outcom
   if (!Number.isFinite(shares) || shares <= 0) throw new Error('shares must be > 0');
 
   const avgPrice = patch.avgPrice === undefined ? current.avgPrice : normalizePrice(patch.avgPrice);
-
-  db.prepare(`UPDATE positions SET outcome = ?, shares = ?, avg_price = ?, updated_at = ? WHERE id = ?`).run(outcome, shares, avgPrice, now, id);
+  // Saving an unchanged form is not an adjustment.
+  if (outcome === current.outcome && shares === current.shares && avgPrice === current.avgPrice) return current;
+
+  db.transaction(() => {
+    db.prepare(`UPDATE positions SET outcome = ?, shares = ?, avg_price = ?, updated_at = ? WHERE id = ?`).run(outcome, shares, avgPrice, now, id);
+    const changes = [
+      outcome !== current.outcome ? `outcome ${current.outcome} → ${outcome}` : '',
+      avgPrice !== current.avgPrice ? `avg ${current.avgPrice} → ${avgPrice}` : ''
+    ].filter(Boolean);
+    recordLedgerEntry({
+      positionId: id,
+      marketId: current.marketId,
+      outcome,
+      kind: 'adjustment',
+      sharesDelta: shares - current.shares,
+      price: null,
+      sharesAfter: shares,
+      avgPriceAfter: avgPrice,
+      note: ['edited manually', ...changes].join('; '),
+      at: now
+    });
+  })();
   const row = db.prepare(`SELECT * FROM positions WHERE id = ?`).get(id) as any;
   return rowToPosition(row);
 }
 
+// The ledger outlives the position: a closing adjustment records what was removed.
 export function deletePosition(id: string): void {
-  db.prepare(`DELETE FROM positions WHERE id = ?`).run(id);
+  const existing = db.prepare(`SELECT * FROM positions WHERE id = ?`).get(id) as any;
+  if (!existing) return;
+  const current = rowToPosition(existing);
+  db.transaction(() => {
+    recordLedgerEntry({
+      positionId: id,
+      marketId: current.marketId,
+      outcome: current.outcome,
+      kind: 'adjustment',
+      sharesDelta: -current.shares,
+      price: null,
+      sharesAfter: 0,
+      avgPriceAfter: current.avgPrice,
+      note: 'deleted manually',
+      at: Date.now()
+    });
+    db.prepare(`DELETE FROM positions WHERE id = ?`).run(id);
+  })();
 }
 
-export type RuleType = 'price_below' | 'price_above';
-export type RuleStatus = 'active' | 'triggered' | 'disabled';
+export type PositionLedgerKind = 'fill' | 'adjustment';
 
-export type Rule = {
+export type PositionLedgerEntry = {
   id: string;
+  positionId: string;
   marketId: string;
-  name: string;
-  type: RuleType;
-  priceThreshold: number; // 0..1
-  minMyProbability: number | null; // 0..1
-  status: RuleStatus;
-  triggeredAt: number | null;
-  lastEvaluatedAt: number | null;
+  outcome: PositionOutcome;
+  kind: PositionLedgerKind;
+  sharesDelta: number;
+  price: number | null;
+  realizedPnl: number;
+  sharesAfter: number;
+  avgPriceAfter: number;
+  orderId: string | null;
+  fillId: string | null;
+  note: string;
   createdAt: number;
-  updatedAt: number;
 };
 
-function normalizeRuleType(value: unknown): RuleType {
-  const s = String(value || '').trim().toLowerCase();
+function rowToLedgerEntry(r: any): PositionLedgerEntry {
+  return {
+    id: String(r.id),
+    positionId: String(r.position_id),
+    marketId: String(r.market_id),
+    outcome: normalizeOutcome(r.outcome),
+    kind: String(r.kind) === 'fill' ? 'fill' : 'adjustment',
+    sharesDelta: Number(r.shares_delta),
+    price: r.price == null ? null : Number(r.price),
+    realizedPnl: Number(r.realized_pnl || 0),
+    sharesAfter: Number(r.shares_after),
+    avgPriceAfter: Number(r.avg_price_after),
+    orderId: r.order_id == null ? null : String(r.order_id),
+    fillId: r.fill_id == null ? null : String(r.fill_id),
+    note: String(r.note || ''),
+    createdAt: Number(r.created_at)
+  };
+}
+
+function recordLedgerEntry(input: {
+  positionId: string;
+  marketId: string;
+  outcome: PositionOutcome;
+  kind: PositionLedgerKind;
+  sharesDelta: number;
+  price: number | null;
+  realizedPnl?: number;
+  sharesAfter: number;
+  avgPriceAfter: number;
+  orderId?: string | null;
+  fillId?: string | null;
+  note?: string;
+  at: number;
+}): void {
+  db.prepare(
+    `
+    INSERT INTO position_ledger (
+      id, position_id, market_id, outcome, kind, shares_delta, price, realized_pnl, shares_after, avg_price_after,
+      order_id, fill_id, note, created_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `
+  ).run(
+    newId('led'),
+    input.positionId,
+    input.marketId,
+    input.outcome,
+    input.kind,
+    input.sharesDelta,
+    input.price,
+    input.realizedPnl ?? 0,
+    input.sharesAfter,
+    input.avgPriceAfter,
+    input.orderId ?? null,
+    input.fillId ?? null,
+    input.note ?? '',
+    input.at
+  );
+}
+
+export function listPositionLedger(positionId: string, opts?: { limit?: number }): PositionLedgerEntry[] {
+  const limitRaw = opts?.limit ?? 500;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 500;
+  const rows = db
+    .prepare(`SELECT * FROM position_ledger WHERE position_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?`)
+    .all(positionId, limit) as any[];
+  return rows.map(rowToLedgerEntry);
+}
+
+// Applies an execution fill to the market/outcome position (the most recently updated one; created on first buy).
+// Buys average into the cost basis; sells realize (price - avg) per share and leave the average unchanged.
+// Idempotent per fill id, so a fill replayed after a crash is not counted twice.
+export function applyFillToPosition(input: {
+  marketId: string;
+  outcome: unknown;
+  side: 'BUY' | 'SELL';
+  qty: number;
+  price: number;
+  orderId: string;
+  fillId: string;
+  at: number;
+}): { position: Position; entry: PositionLedgerEntry } | null {
+  const outcome = normalizeOutcome(input.outcome);
+  if (!(input.qty > 0) || !(input.price > 0)) throw new Error('Invalid fill');
+
+  return db.transaction(() => {
+    if (db.prepare(`SELECT 1 FROM position_ledger WHERE fill_id = ?`).get(input.fillId)) return null;
+
+    const row = db
+      .prepare(`SELECT * FROM positions WHERE market_id = ? AND outcome = ? ORDER BY updated_at DESC LIMIT 1`)
+      .get(input.marketId, outcome) as any;
+    const current = row ? rowToPosition(row) : null;
+    if (!current && input.side === 'SELL') throw new Error('No position to sell from');
+
+    const shares = current?.shares ?? 0;
+    const avgPrice = current?.avgPrice ?? 0;
+    let nextShares: number;
+    let nextAvg: number;
+    let realized = 0;
+    let note = '';
+    if (input.side === 'BUY') {
+      nextShares = shares + input.qty;
+      nextAvg = (shares * avgPrice + input.qty * input.price) / nextShares;
+    } else {
+      const sold = Math.min(shares, input.qty);
+      if (sold < input.qty) note = `sell of ${input.qty} exceeded ${shares} held`;
+      realized = (input.price - avgPrice) * sold;
+      nextShares = shares - sold;
+      nextAvg = avgPrice;
+    }
+
+    let positionId = current?.id ?? '';
+    if (current) {
+      db.prepare(`UPDATE positions SET shares = ?, avg_price = ?, realized_pnl = realized_pnl + ?, updated_at = ? WHERE id = ?`).run(
+        nextShares,
+        nextAvg,
+        realized,
+        input.at,
+        current.id
+      );
+    } else {
+      positionId = newId('pos');
+      db.prepare(
+        `INSERT INTO positions (id, market_id, outcome, shares, avg_price, realized_pnl, created_at, updated_at) VALUES (?, ?, ?, ?, ?, 0, ?, ?)`
+      ).run(positionId, input.marketId, outcome, nextShares, nextAvg, input.at, input.at);
+    }
+
+    recordLedgerEntry({
+      positionId,
+      marketId: input.marketId,
+      outcome,
+      kind: 'fill',
+      sharesDelta: input.side === 'BUY' ? input.qty : nextShares - shares,
+      price: input.price,
+      realizedPnl: realized,
+      sharesAfter: nextShares,
+      avgPriceAfter: nextAvg,
+      orderId: input.orderId,
+      fillId: input.fillId,
+      note,
+      at: input.at
+    });
+
+    const position = rowToPosition(db.prepare(`SELECT * FROM positions WHERE id = ?`).get(positionId));
+    const entry = rowToLedgerEntry(db.prepare(`SELECT * FROM position_ledger WHERE fill_id = ?`).get(input.fillId));
+    return { position, entry };
+  })();
+}
+
+// "Candidate X wins" ⇒ each listed market resolves to the given side. Markets a scenario leaves out stay at their mark.
+export type MarketScenario = {
+  name: string;
+  outcomes: Record<string, PositionOutcome>; // markets.id → side that wins
+};
+
+export type MarketGroup = {
+  id: string;
+  name: string;
+  description: string;
+  marketIds: string[];
+  scenarios: MarketScenario[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+function parseStoredScenarios(raw: unknown): MarketScenario[] {
+  try {
+    const parsed = JSON.parse(String(raw || '[]'));
+    return Array.isArray(parsed) ? parsed.filter((s) => s && typeof s === 'object' && s.outcomes && typeof s.outcomes === 'object') : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToMarketGroup(r: any): MarketGroup {
+  const marketIds = (() => {
+    try {
+      const parsed = JSON.parse(String(r.market_ids || '[]'));
+      return Array.isArray(parsed) ? parsed.map((x) => String(x)) : [];
+    } catch {
+      return [];
+    }
+  })();
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    description: String(r.description || ''),
+    marketIds,
+    scenarios: parseStoredScenarios(r.scenarios),
+    createdAt: Number(r.created_at),
+    updatedAt: Number(r.updated_at)
+  };
+}
+
+// Validates members and scenarios; scenario markets are added to the members if missing.
+function normalizeMarketGroup(input: { marketIds?: unknown; scenarios?: unknown }): { marketIds: string[]; scenarios: MarketScenario[] } {
+  const marketIds = Array.isArray(input.marketIds) ? input.marketIds.map((x) => String(x).trim()).filter(Boolean) : [];
+  if (input.scenarios != null && !Array.isArray(input.scenarios)) throw new Error('scenarios must be an array');
+  const scenarios: MarketScenario[] = ((input.scenarios as unknown[] | undefined) ?? []).map((raw, i) => {
+    const s = (raw ?? {}) as { name?: unknown; outcomes?: unknown };
+    if (!s.outcomes || typeof s.outcomes !== 'object' || Array.isArray(s.outcomes)) throw new Error(`Scenario ${i + 1}: outcomes must map market ids to YES/NO`);
+    const outcomes: Record<string, PositionOutcome> = {};
+    for (const [marketId, side] of Object.entries(s.outcomes as Record<string, unknown>)) {
+      const upper = String(side).trim().toUpperCase();
+      if (upper !== 'YES' && upper !== 'NO') throw new Error(`Scenario ${i + 1}: ${marketId} must resolve YES or NO`);
+      outcomes[marketId] = upper;
+      if (!marketIds.includes(marketId)) marketIds.push(marketId);
+    }
+    return { name: String(s.name || '').trim() || `Scenario ${i + 1}`, outcomes };
+  });
+  for (const marketId of marketIds) {
+    if (!getMarketById(marketId)) throw new Error(`Market not found: ${marketId}`);
+  }
+  return { marketIds, scenarios };
+}
+
+export function listMarketGroups(): MarketGroup[] {
+  const rows = db.prepare(`SELECT * FROM market_groups ORDER BY name ASC, created_at ASC`).all() as any[];
+  return rows.map(rowToMarketGroup);
+}
+
+export function getMarketGroupById(id: string): MarketGroup | null {
+  const row = db.prepare(`SELECT * FROM market_groups WHERE id = ?`).get(id) as any;
+  return row ? rowToMarketGroup(row) : null;
+}
+
+export function createMarketGroup(input: { name: unknown; description?: unknown; marketIds?: unknown; scenarios?: unknown }): MarketGroup {
+  const name = String(input.name ?? '').trim();
+  if (!name) throw new Error('name required');
+  const { marketIds, scenarios } = normalizeMarketGroup(input);
+  const now = Date.now();
+  const id = newId('grp');
+  db.prepare(
+    `
+    INSERT INTO market_groups (id, name, description, market_ids, scenarios, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `
+  ).run(id, name, String(input.description ?? ''), JSON.stringify(marketIds), JSON.stringify(scenarios), now, now);
+  return getMarketGroupById(id)!;
+}
+
+export function updateMarketGroup(
+  id: string,
+  patch: { name?: unknown; description?: unknown; marketIds?: unknown; scenarios?: unknown }
+): MarketGroup {
+  const current = getMarketGroupById(id);
+  if (!current) throw new Error('Market group not found');
+  const name = patch.name === undefined ? current.name : String(patch.name ?? '').trim();
+  if (!name) throw new Error('name required');
+  const { marketIds, scenarios } = normalizeMarketGroup({
+    marketIds: patch.marketIds === undefined ? current.marketIds : patch.marketIds,
+    scenarios: patch.scenarios === undefined ? current.scenarios : patch.scenarios
+  });
+  const description = patch.description === undefined ? current.description : String(patch.description ?? '');
+  db.prepare(`UPDATE market_groups SET name = ?, description = ?, market_ids = ?, scenarios = ?, updated_at = ? WHERE id = ?`).run(
+    name,
+    description,
+    JSON.stringify(marketIds),
+    JSON.stringify(scenarios),
+    Date.now(),
+    id
+  );
+  return getMarketGroupById(id)!;
+}
+
+export function deleteMarketGroup(id: string): void {
+  db.prepare(`DELETE FROM market_groups WHERE id = ?`).run(id);
+}
+
+export type RuleType = 'price_below' | 'price_above' | 'edge_above' | 'edge_above_no' | 'composite';
+export type RuleStatus = 'active' | 'triggered' | 'disabled' | 'expired';
+export type EdgeBasis = 'mid' | 'ask';
+// once: fire a single time. rearm: after firing, go active again once the conditions clear by `rearmBand`.
+export type RuleMode = 'once' | 'rearm';
+
+export type Rule = {
+  id: string;
+  marketId: string;
+  name: string;
+  type: RuleType;
+  priceThreshold: number | null; // 0..1 (price rules only)
+  minEdge: number | null; // 0..1 (edge rules only)
+  edgeBasis: EdgeBasis;
+  edgeSizeUsd: number | null; // order size used to estimate slippage against the asks
+  minMyProbability: number | null; // 0..1
+  conditions: RuleConditionNode;
+  mode: RuleMode;
+  rearmBand: number; // 0..1, hysteresis before a fired rule re-arms
+  cooldownMinutes: number | null; // minimum time between alerts
+  maxFires: number | null;
+  fireCount: number;
+  expiresAt: number | null;
+  action: RuleAction | null; // null = alert only
+  status: RuleStatus;
+  triggeredAt: number | null; // last fire
+  lastEvaluatedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+function normalizeRuleType(value: unknown): RuleType {
+  const s = String(value || '').trim().toLowerCase();
+  if (s === 'composite') return 'composite';
+  if (s === 'edge_above') return 'edge_above';
+  if (s === 'edge_above_no') return 'edge_above_no';
   return s === 'price_above' ? 'price_above' : 'price_below';
 }
 
@@ -771,17 +1863,105 @@ function normalizeRuleStatus(value: unknown): RuleStatus {
   const s = String(value || '').trim().toLowerCase();
   if (s === 'triggered') return 'triggered';
   if (s === 'disabled') return 'disabled';
+  if (s === 'expired') return 'expired';
   return 'active';
 }
 
+function normalizeRuleMode(value: unknown): RuleMode {
+  const s = String(value || '').trim().toLowerCase();
+  return s === 'rearm' || s === 're-arm' ? 'rearm' : 'once';
+}
+
+function normalizeRearmBand(value: unknown): number {
+  if (value == null || value === '') return 0;
+  return normalizeProbability(value);
+}
+
+function normalizeCooldownMinutes(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (!Number.isFinite(n) || n < 0) throw new Error('cooldownMinutes must be >= 0');
+  return n || null;
+}
+
+function normalizeMaxFires(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error('maxFires must be a positive integer');
+  return n;
+}
+
+// Epoch ms, or anything Date.parse understands (e.g. an ISO timestamp from a datetime input).
+function normalizeExpiresAt(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'number' ? value : Date.parse(String(value).trim());
+  if (!Number.isFinite(n)) throw new Error('Invalid expiresAt');
+  return n;
+}
+
+function normalizeEdgeBasis(value: unknown): EdgeBasis {
+  return String(value || '').trim().toLowerCase() === 'ask' ? 'ask' : 'mid';
+}
+
+function normalizeSizeUsd(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const n = typeof value === 'string' ? Number(value.trim()) : Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new Error('edgeSizeUsd must be > 0');
+  return n;
+}
+
+function isEdgeRuleType(type: RuleType): type is 'edge_above' | 'edge_above_no' {
+  return type === 'edge_above' || type === 'edge_above_no';
+}
+
+// Non-composite rule types are templates: their columns fully determine the condition tree.
+function templateConditionTree(rule: Pick<Rule, 'type' | 'priceThreshold' | 'minEdge' | 'edgeBasis' | 'edgeSizeUsd' | 'minMyProbability'>): RuleConditionNode {
+  if (isEdgeRuleType(rule.type)) {
+    if (rule.minEdge == null) throw new Error('minEdge required for edge rules');
+    return edgeConditionTree({
+      side: rule.type === 'edge_above_no' ? 'NO' : 'YES',
+      minEdge: rule.minEdge,
+      basis: rule.edgeBasis,
+      sizeUsd: rule.edgeSizeUsd,
+      minMyProbability: rule.minMyProbability
+    });
+  }
+  if (rule.priceThreshold == null) throw new Error('priceThreshold required for price rules');
+  return legacyConditionTree({
+    type: rule.type === 'price_above' ? 'price_above' : 'price_below',
+    priceThreshold: rule.priceThreshold,
+    minMyProbability: rule.minMyProbability
+  });
+}
+
 function rowToRule(r: any): Rule {
+  const type = normalizeRuleType(r.type);
+  // `price_threshold` holds the rule's threshold: a price for price rules, the minimum edge for edge rules.
+  const threshold = Number(r.price_threshold);
+  const base = {
+    type,
+    priceThreshold: type === 'price_below' || type === 'price_above' ? threshold : null,
+    minEdge: isEdgeRuleType(type) ? threshold : null,
+    edgeBasis: normalizeEdgeBasis(r.edge_basis),
+    edgeSizeUsd: r.edge_size_usd == null ? null : Number(r.edge_size_usd),
+    minMyProbability: r.min_my_probability == null ? null : Number(r.min_my_probability)
+  };
+  const conditions = parseStoredConditionTree(r.conditions) ?? (type === 'composite' ? null : templateConditionTree(base));
+
   return {
     id: String(r.id),
     marketId: String(r.market_id),
     name: String(r.name || ''),
-    type: normalizeRuleType(r.type),
-    priceThreshold: Number(r.price_threshold),
-    minMyProbability: r.min_my_probability == null ? null : Number(r.min_my_probability),
+    ...base,
+    // A composite rule whose conditions no longer parse (e.g. an unregistered condition type) can never pass.
+    conditions: conditions ?? { op: 'or', children: [] },
+    mode: normalizeRuleMode(r.mode),
+    rearmBand: r.rearm_band == null ? 0 : Number(r.rearm_band),
+    cooldownMinutes: r.cooldown_minutes == null ? null : Number(r.cooldown_minutes),
+    maxFires: r.max_fires == null ? null : Number(r.max_fires),
+    fireCount: Number(r.fire_count || 0),
+    expiresAt: r.expires_at == null ? null : Number(r.expires_at),
+    action: parseStoredRuleAction(r.action),
     status: normalizeRuleStatus(r.status),
     triggeredAt: r.triggered_at == null ? null : Number(r.triggered_at),
     lastEvaluatedAt: r.last_evaluated_at == null ? null : Number(r.last_evaluated_at),
@@ -790,12 +1970,18 @@ function rowToRule(r: any): Rule {
   };
 }
 
+export function getRuleById(id: string): Rule | null {
+  const row = db.prepare(`SELECT * FROM rules WHERE id = ?`).get(id) as any;
+  return row ? rowToRule(row) : null;
+}
+
 export type RuleWithMarket = { rule: Rule; market: Market };
 
-export function listRulesWithMarkets(opts?: { limit?: number; status?: RuleStatus }): RuleWithMarket[] {
+export function listRulesWithMarkets(opts?: { limit?: number; status?: RuleStatus; marketId?: string }): RuleWithMarket[] {
   const limitRaw = opts?.limit ?? 500;
   const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 500;
   const status = opts?.status ?? null;
+  const marketId = opts?.marketId ?? null;
 
   const rows = db
     .prepare(
@@ -814,11 +2000,12 @@ export function listRulesWithMarkets(opts?: { limit?: number; status?: RuleStatu
       FROM rules r
       JOIN markets m ON m.id = r.market_id
       WHERE (? IS NULL OR r.status = ?)
+        AND (? IS NULL OR r.market_id = ?)
       ORDER BY r.updated_at DESC
       LIMIT ?
     `
     )
-    .all(status, status, limit) as any[];
+    .all(status, status, marketId, marketId, limit) as any[];
 
   return rows.map((r) => ({
     rule: rowToRule(r),
@@ -836,38 +2023,128 @@ export function listRulesWithMarkets(opts?: { limit?: number; status?: RuleStatu
   }));
 }
 
-export function createRule(input: {
+export type RuleInput = {
   marketId: string;
   name?: string;
-  type: unknown;
-  priceThreshold: unknown;
+  type?: unknown;
+  priceThreshold?: unknown;
+  minEdge?: unknown;
+  edgeBasis?: unknown;
+  edgeSizeUsd?: unknown;
   minMyProbability?: unknown;
-}): Rule {
+  conditions?: unknown;
+  mode?: unknown;
+  rearmBand?: unknown;
+  cooldownMinutes?: unknown;
+  maxFires?: unknown;
+  expiresAt?: unknown;
+  action?: unknown;
+};
+
+// Validates input into an unsaved rule (id `draft`), e.g. to backtest it before committing.
+// Price/edge rules keep their threshold columns (and a matching condition tree); passing `conditions` makes a composite rule.
+export function draftRule(input: RuleInput): Rule {
   const marketId = String(input.marketId || '').trim();
   if (!marketId) throw new Error('marketId required');
-  const type = normalizeRuleType(input.type);
-  const priceThreshold = normalizeProbability(input.priceThreshold);
-  const minMyProbability = input.minMyProbability == null ? null : normalizeProbability(input.minMyProbability);
-  const name = String(input.name ?? '');
 
+  const composite = input.conditions != null && input.conditions !== '';
+  const requested = normalizeRuleType(input.type);
+  const type: RuleType = composite ? 'composite' : requested === 'composite' ? 'price_below' : requested;
+  const fields = {
+    type,
+    priceThreshold: type === 'price_below' || type === 'price_above' ? normalizeProbability(input.priceThreshold) : null,
+    minEdge: isEdgeRuleType(type) ? normalizeProbability(input.minEdge ?? input.priceThreshold) : null,
+    edgeBasis: normalizeEdgeBasis(input.edgeBasis),
+    edgeSizeUsd: normalizeSizeUsd(input.edgeSizeUsd),
+    minMyProbability: input.minMyProbability == null ? null : normalizeProbability(input.minMyProbability)
+  };
   const now = Date.now();
+
+  return {
+    id: 'draft',
+    marketId,
+    name: String(input.name ?? ''),
+    ...fields,
+    conditions: composite ? normalizeConditionTree(input.conditions) : templateConditionTree(fields),
+    mode: normalizeRuleMode(input.mode),
+    rearmBand: normalizeRearmBand(input.rearmBand),
+    cooldownMinutes: normalizeCooldownMinutes(input.cooldownMinutes),
+    maxFires: normalizeMaxFires(input.maxFires),
+    fireCount: 0,
+    expiresAt: normalizeExpiresAt(input.expiresAt),
+    action: normalizeRuleAction(input.action),
+    status: 'active',
+    triggeredAt: null,
+    lastEvaluatedAt: null,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+export function createRule(input: RuleInput): Rule {
+  const draft = draftRule(input);
   const id = newId('rule');
 
-  db.prepare(
+  db.transaction(() => {
+    db.prepare(
+      `
+      INSERT INTO rules (
+        id, market_id, name, type, price_threshold, min_my_probability, edge_basis, edge_size_usd, conditions,
+        mode, rearm_band, cooldown_minutes, max_fires, fire_count, expires_at, action, status, created_at, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, 'active', ?, ?)
     `
-    INSERT INTO rules (id, market_id, name, type, price_threshold, min_my_probability, status, created_at, updated_at)
-    VALUES (?, ?, ?, ?, ?, ?, 'active', ?, ?)
-  `
-  ).run(id, marketId, name, type, priceThreshold, minMyProbability, now, now);
+    ).run(
+      id,
+      draft.marketId,
+      draft.name,
+      draft.type,
+      draft.priceThreshold ?? draft.minEdge ?? 0,
+      draft.minMyProbability,
+      draft.edgeBasis,
+      draft.edgeSizeUsd,
+      JSON.stringify(draft.conditions),
+      draft.mode,
+      draft.rearmBand,
+      draft.cooldownMinutes,
+      draft.maxFires,
+      draft.expiresAt,
+      draft.action ? JSON.stringify(draft.action) : null,
+      draft.createdAt,
+      draft.updatedAt
+    );
+    recordRuleHistory({ ruleId: id, event: 'created', fromStatus: null, toStatus: 'active', at: draft.createdAt });
+  })();
 
-  const row = db.prepare(`SELECT * FROM rules WHERE id = ?`).get(id) as any;
-  return rowToRule(row);
+  return getRuleById(id)!;
 }
 
-export function updateRule(id: string, patch: Partial<Pick<Rule, 'name' | 'status' | 'type' | 'priceThreshold' | 'minMyProbability'>>): Rule {
-  const existing = db.prepare(`SELECT * FROM rules WHERE id = ?`).get(id) as any;
-  if (!existing) throw new Error('Rule not found');
-  const current = rowToRule(existing);
+export function updateRule(
+  id: string,
+  patch: Partial<
+    Pick<
+      Rule,
+      | 'name'
+      | 'status'
+      | 'type'
+      | 'priceThreshold'
+      | 'minEdge'
+      | 'edgeBasis'
+      | 'edgeSizeUsd'
+      | 'minMyProbability'
+      | 'mode'
+      | 'rearmBand'
+      | 'cooldownMinutes'
+      | 'maxFires'
+      | 'expiresAt'
+    >
+  > & {
+    conditions?: unknown;
+    action?: unknown; // null clears it
+  }
+): Rule {
+  const current = getRuleById(id);
+  if (!current) throw new Error('Rule not found');
   const now = Date.now();
 
   const next: Rule = {
@@ -876,20 +2153,60 @@ export function updateRule(id: string, patch: Partial<Pick<Rule, 'name' | 'statu
     status: patch.status === undefined ? current.status : normalizeRuleStatus(patch.status),
     type: patch.type === undefined ? current.type : normalizeRuleType(patch.type),
     priceThreshold: patch.priceThreshold === undefined ? current.priceThreshold : normalizeProbability(patch.priceThreshold),
+    minEdge: patch.minEdge === undefined ? current.minEdge : normalizeProbability(patch.minEdge),
+    edgeBasis: patch.edgeBasis === undefined ? current.edgeBasis : normalizeEdgeBasis(patch.edgeBasis),
+    edgeSizeUsd: patch.edgeSizeUsd === undefined ? current.edgeSizeUsd : normalizeSizeUsd(patch.edgeSizeUsd),
     minMyProbability: patch.minMyProbability === undefined ? current.minMyProbability : patch.minMyProbability == null ? null : normalizeProbability(patch.minMyProbability),
+    mode: patch.mode === undefined ? current.mode : normalizeRuleMode(patch.mode),
+    rearmBand: patch.rearmBand === undefined ? current.rearmBand : normalizeRearmBand(patch.rearmBand),
+    cooldownMinutes: patch.cooldownMinutes === undefined ? current.cooldownMinutes : normalizeCooldownMinutes(patch.cooldownMinutes),
+    maxFires: patch.maxFires === undefined ? current.maxFires : normalizeMaxFires(patch.maxFires),
+    expiresAt: patch.expiresAt === undefined ? current.expiresAt : normalizeExpiresAt(patch.expiresAt),
+    action: patch.action === undefined ? current.action : normalizeRuleAction(patch.action),
     updatedAt: now
   };
 
-  db.prepare(
+  if (patch.conditions != null && patch.conditions !== '') {
+    next.type = 'composite';
+    next.conditions = normalizeConditionTree(patch.conditions);
+  } else if (next.type !== 'composite') {
+    next.conditions = templateConditionTree(next);
+  }
+  if (next.type !== 'price_below' && next.type !== 'price_above') next.priceThreshold = null;
+  if (!isEdgeRuleType(next.type)) next.minEdge = null;
+
+  db.transaction(() => {
+    db.prepare(
+      `
+      UPDATE rules
+      SET name = ?, type = ?, price_threshold = ?, min_my_probability = ?, edge_basis = ?, edge_size_usd = ?, conditions = ?,
+          mode = ?, rearm_band = ?, cooldown_minutes = ?, max_fires = ?, expires_at = ?, action = ?, status = ?, updated_at = ?
+      WHERE id = ?
     `
-    UPDATE rules
-    SET name = ?, type = ?, price_threshold = ?, min_my_probability = ?, status = ?, updated_at = ?
-    WHERE id = ?
-  `
-  ).run(next.name, next.type, next.priceThreshold, next.minMyProbability, next.status, now, id);
+    ).run(
+      next.name,
+      next.type,
+      next.priceThreshold ?? next.minEdge ?? 0,
+      next.minMyProbability,
+      next.edgeBasis,
+      next.edgeSizeUsd,
+      JSON.stringify(next.conditions),
+      next.mode,
+      next.rearmBand,
+      next.cooldownMinutes,
+      next.maxFires,
+      next.expiresAt,
+      next.action ? JSON.stringify(next.action) : null,
+      next.status,
+      now,
+      id
+    );
+    if (next.status !== current.status) {
+      recordRuleHistory({ ruleId: id, event: 'status', fromStatus: current.status, toStatus: next.status, detail: 'manual', at: now });
+    }
+  })();
 
-  const row = db.prepare(`SELECT * FROM rules WHERE id = ?`).get(id) as any;
-  return rowToRule(row);
+  return getRuleById(id)!;
 }
 
 export function setRuleEvaluated(id: string, patch: { status?: RuleStatus; triggeredAt?: number | null; lastEvaluatedAt: number }): void {
@@ -906,15 +2223,108 @@ export function setRuleEvaluated(id: string, patch: { status?: RuleStatus; trigg
   ).run(status, patch.triggeredAt ?? null, patch.lastEvaluatedAt, patch.lastEvaluatedAt, id);
 }
 
+// Records a fire and parks the rule in `triggered`; re-arm rules with fires left are picked up again by the engine.
+// Only an active rule fires; returns null when something else fired (or paused) it first.
+export function markRuleFired(id: string, input: { at: number; detail: string }): Rule | null {
+  const current = getRuleById(id);
+  if (!current) throw new Error('Rule not found');
+  if (current.status !== 'active') return null;
+  const fireCount = current.fireCount + 1;
+  const exhausted = current.maxFires != null && fireCount >= current.maxFires;
+  const detail = exhausted && current.mode === 'rearm' ? `${input.detail} (max fires reached)` : input.detail;
+
+  const changed = db.transaction(() => {
+    const { changes } = db.prepare(
+      `
+      UPDATE rules
+      SET status = 'triggered', fire_count = ?, triggered_at = ?, last_evaluated_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'active'
+    `
+    ).run(fireCount, input.at, input.at, input.at, id);
+    if (changes === 0) return false;
+    recordRuleHistory({ ruleId: id, event: 'fired', fromStatus: current.status, toStatus: 'triggered', detail, at: input.at });
+    return true;
+  })();
+
+  return changed ? getRuleById(id)! : null;
+}
+
+export function rearmRule(id: string, input: { at: number; detail: string }): void {
+  transitionRule(id, { event: 'rearmed', to: 'active', detail: input.detail, at: input.at });
+}
+
+export function expireRule(id: string, at: number): void {
+  transitionRule(id, { event: 'expired', to: 'expired', detail: '', at });
+}
+
+function transitionRule(id: string, input: { event: RuleHistoryEvent; to: RuleStatus; detail: string; at: number }): void {
+  const current = getRuleById(id);
+  if (!current || current.status === input.to) return;
+  db.transaction(() => {
+    db.prepare(`UPDATE rules SET status = ?, last_evaluated_at = ?, updated_at = ? WHERE id = ?`).run(input.to, input.at, input.at, id);
+    recordRuleHistory({ ruleId: id, event: input.event, fromStatus: current.status, toStatus: input.to, detail: input.detail, at: input.at });
+  })();
+}
+
 export function deleteRule(id: string): void {
-  db.prepare(`DELETE FROM rules WHERE id = ?`).run(id);
+  db.transaction(() => {
+    db.prepare(`DELETE FROM rule_history WHERE rule_id = ?`).run(id);
+    db.prepare(`DELETE FROM rules WHERE id = ?`).run(id);
+  })();
 }
 
-export type Alert = {
+export type RuleHistoryEvent = 'created' | 'fired' | 'rearmed' | 'expired' | 'status';
+
+export type RuleHistoryEntry = {
   id: string;
   ruleId: string;
+  event: RuleHistoryEvent;
+  fromStatus: RuleStatus | null;
+  toStatus: RuleStatus;
+  detail: string;
+  createdAt: number;
+};
+
+function recordRuleHistory(input: {
+  ruleId: string;
+  event: RuleHistoryEvent;
+  fromStatus: RuleStatus | null;
+  toStatus: RuleStatus;
+  detail?: string;
+  at: number;
+}): void {
+  db.prepare(
+    `INSERT INTO rule_history (id, rule_id, event, from_status, to_status, detail, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(newId('rhist'), input.ruleId, input.event, input.fromStatus, input.toStatus, input.detail ?? '', input.at);
+}
+
+function rowToRuleHistory(r: any): RuleHistoryEntry {
+  return {
+    id: String(r.id),
+    ruleId: String(r.rule_id),
+    event: String(r.event) as RuleHistoryEvent,
+    fromStatus: r.from_status == null ? null : normalizeRuleStatus(r.from_status),
+    toStatus: normalizeRuleStatus(r.to_status),
+    detail: String(r.detail || ''),
+    createdAt: Number(r.created_at)
+  };
+}
+
+export function listRuleHistory(ruleId: string, opts?: { limit?: number }): RuleHistoryEntry[] {
+  const limitRaw = opts?.limit ?? 200;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 200;
+  const rows = db.prepare(`SELECT * FROM rule_history WHERE rule_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?`).all(ruleId, limit) as any[];
+  return rows.map(rowToRuleHistory);
+}
+
+// Raised by a rule (ruleId) or by the calendar scheduler ahead of an info event (eventId).
+export type Alert = {
+  id: string;
+  ruleId: string | null;
+  eventId: string | null;
   marketId: string;
   message: string;
+  severity: AlertSeverity;
   createdAt: number;
   seen: boolean;
 };
@@ -922,9 +2332,11 @@ export type Alert = {
 function rowToAlert(r: any): Alert {
   return {
     id: String(r.id),
-    ruleId: String(r.rule_id),
+    ruleId: r.rule_id == null ? null : String(r.rule_id),
+    eventId: r.event_id == null ? null : String(r.event_id),
     marketId: String(r.market_id),
     message: String(r.message || ''),
+    severity: normalizeAlertSeverity(r.severity),
     createdAt: Number(r.created_at),
     seen: Boolean(Number(r.seen || 0))
   };
@@ -932,17 +2344,32 @@ function rowToAlert(r: any): Alert {
 
 export type AlertWithMarket = { alert: Alert; market: Market | null; rule: Rule | null };
 
-export function createAlert(input: { ruleId: string; marketId: string; message: string }): Alert {
-  const ruleId = String(input.ruleId || '').trim();
+export function createAlert(input: {
+  ruleId?: string | null;
+  eventId?: string | null;
+  marketId: string;
+  message: string;
+  severity?: AlertSeverity;
+}): Alert {
+  const ruleId = String(input.ruleId || '').trim() || null;
+  const eventId = String(input.eventId || '').trim() || null;
   const marketId = String(input.marketId || '').trim();
   const message = String(input.message || '').trim();
-  if (!ruleId) throw new Error('ruleId required');
+  if (!ruleId && !eventId) throw new Error('ruleId or eventId required');
   if (!marketId) throw new Error('marketId required');
   if (!message) throw new Error('message required');
 
   const id = newId('alert');
   const now = Date.now();
-  db.prepare(`INSERT INTO alerts (id, rule_id, market_id, message, created_at, seen) VALUES (?, ?, ?, ?, ?, 0)`).run(id, ruleId, marketId, message, now);
+  db.prepare(`INSERT INTO alerts (id, rule_id, event_id, market_id, message, severity, created_at, seen) VALUES (?, ?, ?, ?, ?, ?, ?, 0)`).run(
+    id,
+    ruleId,
+    eventId,
+    marketId,
+    message,
+    normalizeAlertSeverity(input.severity),
+    now
+  );
   const row = db.prepare(`SELECT * FROM alerts WHERE id = ?`).get(id) as any;
   return rowToAlert(row);
 }
@@ -972,6 +2399,16 @@ export function listAlertsWithMarkets(opts?: { limit?: number; unseenOnly?: bool
         r.type as r_type,
         r.price_threshold as r_price_threshold,
         r.min_my_probability as r_min_my_probability,
+        r.conditions as r_conditions,
+        r.edge_basis as r_edge_basis,
+        r.edge_size_usd as r_edge_size_usd,
+        r.mode as r_mode,
+        r.rearm_band as r_rearm_band,
+        r.cooldown_minutes as r_cooldown_minutes,
+        r.max_fires as r_max_fires,
+        r.fire_count as r_fire_count,
+        r.expires_at as r_expires_at,
+        r.action as r_action,
         r.status as r_status,
         r.triggered_at as r_triggered_at,
         r.last_evaluated_at as r_last_evaluated_at,
@@ -1013,6 +2450,16 @@ export function listAlertsWithMarkets(opts?: { limit?: number; unseenOnly?: bool
             type: r.r_type,
             price_threshold: r.r_price_threshold,
             min_my_probability: r.r_min_my_probability,
+            conditions: r.r_conditions,
+            edge_basis: r.r_edge_basis,
+            edge_size_usd: r.r_edge_size_usd,
+            mode: r.r_mode,
+            rearm_band: r.r_rearm_band,
+            cooldown_minutes: r.r_cooldown_minutes,
+            max_fires: r.r_max_fires,
+            fire_count: r.r_fire_count,
+            expires_at: r.r_expires_at,
+            action: r.r_action,
             status: r.r_status,
             triggered_at: r.r_triggered_at,
             last_evaluated_at: r.r_last_evaluated_at,
@@ -1029,6 +2476,241 @@ export function markAlertsSeen(ids: string[]): void {
   db.prepare(`UPDATE alerts SET seen = 1 WHERE id IN (${placeholders})`).run(...unique);
 }
 
+export type AlertDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// One alert sent to one sink; `attempts` counts tries including retries.
+export type AlertDelivery = {
+  id: string;
+  alertId: string;
+  sink: string;
+  status: AlertDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+  deliveredAt: number | null;
+};
+
+function rowToAlertDelivery(r: any): AlertDelivery {
+  const status = String(r.status);
+  return {
+    id: String(r.id),
+    alertId: String(r.alert_id),
+    sink: String(r.sink),
+    status: status === 'delivered' || status === 'failed' ? status : 'pending',
+    attempts: Number(r.attempts || 0),
+    lastError: r.last_error == null ? null : String(r.last_error),
+    createdAt: Number(r.created_at),
+    updatedAt: Number(r.updated_at),
+    deliveredAt: r.delivered_at == null ? null : Number(r.delivered_at)
+  };
+}
+
+export function createAlertDelivery(input: { alertId: string; sink: string }): AlertDelivery {
+  const id = newId('dlv');
+  const now = Date.now();
+  db.prepare(
+    `INSERT INTO alert_deliveries (id, alert_id, sink, status, attempts, created_at, updated_at) VALUES (?, ?, ?, 'pending', 0, ?, ?)`
+  ).run(id, input.alertId, input.sink, now, now);
+  return rowToAlertDelivery(db.prepare(`SELECT * FROM alert_deliveries WHERE id = ?`).get(id));
+}
+
+// `final` settles the delivery; otherwise it stays pending with the error of the attempt that will be retried.
+export function recordAlertDeliveryAttempt(id: string, input: { at: number; ok: boolean; error?: string | null; final: boolean }): void {
+  const status: AlertDeliveryStatus = input.ok ? 'delivered' : input.final ? 'failed' : 'pending';
+  db.prepare(
+    `
+    UPDATE alert_deliveries
+    SET attempts = attempts + 1,
+        status = ?,
+        last_error = ?,
+        delivered_at = ?,
+        updated_at = ?
+    WHERE id = ?
+  `
+  ).run(status, input.ok ? null : (input.error ?? null), input.ok ? input.at : null, input.at, id);
+}
+
+export function listAlertDeliveries(opts?: { alertId?: string; status?: AlertDeliveryStatus; limit?: number }): AlertDelivery[] {
+  const limitRaw = opts?.limit ?? 200;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 200;
+  const alertId = opts?.alertId ?? null;
+  const status = opts?.status ?? null;
+  const rows = db
+    .prepare(
+      `
+      SELECT * FROM alert_deliveries
+      WHERE (? IS NULL OR alert_id = ?)
+        AND (? IS NULL OR status = ?)
+      ORDER BY created_at DESC, rowid DESC
+      LIMIT ?
+    `
+    )
+    .all(alertId, alertId, status, status, limit) as any[];
+  return rows.map(rowToAlertDelivery);
+}
+
+// A closed Polymarket market and its winning outcome (an `outcomes` row without a trade).
+// `marketId` is null when only a research case references the market.
+export type MarketResolution = {
+  id: number;
+  marketId: string | null;
+  gammaMarketId: string;
+  winningOutcome: string;
+  winningIndex: number;
+  yesWon: boolean;
+  category: string | null;
+  resolvedAt: string;
+};
+
+function rowToMarketResolution(r: any): MarketResolution {
+  const winningOutcome = String(r.winning_outcome || '');
+  const winningIndex = Number(r.winning_index ?? 0);
+  const label = winningOutcome.trim().toLowerCase();
+  return {
+    id: Number(r.id),
+    marketId: r.market_id == null ? null : String(r.market_id),
+    gammaMarketId: String(r.gamma_market_id),
+    winningOutcome,
+    winningIndex,
+    // Named binary outcomes (e.g. teams): Gamma lists the YES-equivalent first.
+    yesWon: label === 'yes' ? true : label === 'no' ? false : winningIndex === 0,
+    category: r.category == null ? null : String(r.category),
+    resolvedAt: String(r.resolved_at)
+  };
+}
+
+export function recordMarketResolution(input: {
+  marketId?: string | null;
+  gammaMarketId: string;
+  winningOutcome: string;
+  winningIndex: number;
+  category?: string | null;
+  resolvedAt?: string;
+}): MarketResolution {
+  const gammaMarketId = String(input.gammaMarketId || '').trim();
+  if (!gammaMarketId) throw new Error('gammaMarketId required');
+  const marketId = input.marketId ? String(input.marketId).trim() || null : null;
+  const category = input.category ? String(input.category).trim() || null : null;
+
+  db.transaction(() => {
+    const existing = db.prepare(`SELECT id FROM outcomes WHERE gamma_market_id = ? AND trade_id IS NULL`).get(gammaMarketId) as any;
+    if (existing) {
+      // Resolved first through a research case; link the workstation market once it is seen.
+      db.prepare(`UPDATE outcomes SET market_id = COALESCE(market_id, ?), category = COALESCE(category, ?) WHERE id = ?`).run(
+        marketId,
+        category,
+        existing.id
+      );
+      return;
+    }
+    db.prepare(
+      `
+      INSERT INTO outcomes (trade_id, market_id, gamma_market_id, resolved, winning_outcome, winning_index, category, resolved_at)
+      VALUES (NULL, ?, ?, 1, ?, ?, ?, ?)
+    `
+    ).run(marketId, gammaMarketId, String(input.winningOutcome), Math.floor(input.winningIndex), category, input.resolvedAt ?? new Date().toISOString());
+  })();
+
+  return rowToMarketResolution(db.prepare(`SELECT * FROM outcomes WHERE gamma_market_id = ? AND trade_id IS NULL`).get(gammaMarketId));
+}
+
+export function listMarketResolutions(opts?: { limit?: number }): MarketResolution[] {
+  const limitRaw = opts?.limit ?? 500;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(5000, Math.floor(limitRaw))) : 500;
+  const rows = db
+    .prepare(`SELECT * FROM outcomes WHERE trade_id IS NULL AND resolved = 1 ORDER BY resolved_at DESC, id DESC LIMIT ?`)
+    .all(limit) as any[];
+  return rows.map(rowToMarketResolution);
+}
+
+// Polymarket markets with no recorded resolution yet (what the resolution poller checks).
+export function listUnresolvedMarkets(limit = 5000): Market[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT m.* FROM markets m
+      WHERE m.source = 'polymarket'
+        AND NOT EXISTS (SELECT 1 FROM outcomes o WHERE o.market_id = m.id AND o.trade_id IS NULL AND o.resolved = 1)
+      ORDER BY m.updated_at DESC
+      LIMIT ?
+    `
+    )
+    .all(limit) as any[];
+  return rows.map(rowToMarket);
+}
+
+// Gamma market ids referenced by research cases with no recorded resolution yet.
+export function listUnresolvedCaseMarketIds(limit = 5000): string[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT DISTINCT rc.market_id AS market_id FROM research_cases rc
+      WHERE NOT EXISTS (SELECT 1 FROM outcomes o WHERE o.gamma_market_id = rc.market_id AND o.trade_id IS NULL AND o.resolved = 1)
+      LIMIT ?
+    `
+    )
+    .all(limit) as any[];
+  return rows.map((r) => String(r.market_id));
+}
+
+export type ResolvedConviction = { conviction: Conviction; market: Market; resolution: MarketResolution };
+
+export function listResolvedConvictions(): ResolvedConviction[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT
+        c.*,
+        m.id as m_id,
+        m.source as m_source,
+        m.external_id as m_external_id,
+        m.slug as m_slug,
+        m.question as m_question,
+        m.end_date as m_end_date,
+        m.resolution_source as m_resolution_source,
+        m.created_at as m_created_at,
+        m.updated_at as m_updated_at,
+        o.id as o_id,
+        o.market_id as o_market_id,
+        o.gamma_market_id as o_gamma_market_id,
+        o.winning_outcome as o_winning_outcome,
+        o.winning_index as o_winning_index,
+        o.category as o_category,
+        o.resolved_at as o_resolved_at
+      FROM convictions c
+      JOIN markets m ON m.id = c.market_id
+      JOIN outcomes o ON o.market_id = c.market_id AND o.trade_id IS NULL AND o.resolved = 1
+      ORDER BY o.resolved_at DESC
+    `
+    )
+    .all() as any[];
+
+  return rows.map((r) => ({
+    conviction: rowToConviction(r),
+    market: rowToMarket({
+      id: r.m_id,
+      source: r.m_source,
+      external_id: r.m_external_id,
+      slug: r.m_slug,
+      question: r.m_question,
+      end_date: r.m_end_date,
+      resolution_source: r.m_resolution_source,
+      created_at: r.m_created_at,
+      updated_at: r.m_updated_at
+    }),
+    resolution: rowToMarketResolution({
+      id: r.o_id,
+      market_id: r.o_market_id,
+      gamma_market_id: r.o_gamma_market_id,
+      winning_outcome: r.o_winning_outcome,
+      winning_index: r.o_winning_index,
+      category: r.o_category,
+      resolved_at: r.o_resolved_at
+    })
+  }));
+}
+
 // Save a research case
 export function saveCase(researchCase: ResearchCase): number {
   const stmt = db.prepare(`
@@ -1119,20 +2801,312 @@ export function getPendingCases(): (ResearchCase & { dbId: number })[] {
   }));
 }
 
-// Save a decision
-export function saveDecision(decision: CaseDecision & { caseId: number }): void {
-  const stmt = db.prepare(`
-    INSERT INTO case_decisions (case_id, decision, notes, bet_amount, decided_at)
-    VALUES (?, ?, ?, ?, ?)
-  `);
+function rowToResearchCase(row: any): ResearchCase & { dbId: number } {
+  return {
+    dbId: row.id,
+    marketId: row.market_id,
+    market: JSON.parse(row.market_data),
+    thesis: row.thesis,
+    recommendedPosition: row.recommended_position,
+    confidence: row.confidence,
+    keyUncertainties: JSON.parse(row.key_uncertainties),
+    whatWouldChangeAssessment: row.what_would_change,
+    sources: JSON.parse(row.sources),
+    createdAt: row.created_at,
+    agentModel: row.agent_model
+  };
+}
+
+export type ResolvedResearchCase = { researchCase: ResearchCase & { dbId: number }; resolution: MarketResolution };
+
+// Research cases whose market has resolved (matched on the Gamma market id the case was written against).
+export function listResolvedResearchCases(): ResolvedResearchCase[] {
+  const rows = db
+    .prepare(
+      `
+      SELECT
+        rc.*,
+        o.id as o_id,
+        o.market_id as o_market_id,
+        o.gamma_market_id as o_gamma_market_id,
+        o.winning_outcome as o_winning_outcome,
+        o.winning_index as o_winning_index,
+        o.category as o_category,
+        o.resolved_at as o_resolved_at
+      FROM research_cases rc
+      JOIN outcomes o ON o.gamma_market_id = rc.market_id AND o.trade_id IS NULL AND o.resolved = 1
+      ORDER BY rc.created_at DESC
+    `
+    )
+    .all() as any[];
+
+  return rows.map((r) => ({
+    researchCase: rowToResearchCase(r),
+    resolution: rowToMarketResolution({
+      id: r.o_id,
+      market_id: r.o_market_id,
+      gamma_market_id: r.o_gamma_market_id,
+      winning_outcome: r.o_winning_outcome,
+      winning_index: r.o_winning_index,
+      category: r.o_category,
+      resolved_at: r.o_resolved_at
+    })
+  }));
+}
+
+// YES probability implied by a case: its confidence on the recommended outcome, flipped when that outcome is NO.
+// A case without a usable call (e.g. "None") keeps the current conviction, else the price when it was written.
+function caseYesProbability(researchCase: ResearchCase, current: Conviction | null): number {
+  const outcomes = (researchCase.market?.outcomes ?? []).map((o) => String(o).trim().toLowerCase());
+  const pick = String(researchCase.recommendedPosition || '').trim().toLowerCase();
+  const idx = outcomes.includes(pick) ? outcomes.indexOf(pick) : pick === 'yes' ? 0 : pick === 'no' ? 1 : -1;
+  const p = caseConfidenceProbability(researchCase.confidence);
+  let yes: number;
+  if (p != null && (idx === 0 || idx === 1)) yes = idx === 0 ? p : 1 - p;
+  else yes = current?.myProbability ?? Number(researchCase.market?.outcomePrices?.[0] ?? 0.5);
+  // Keep clear of exactly 1, which normalizeProbability reads as 1%.
+  return Math.min(0.999, Math.max(0.001, Number.isFinite(yes) ? yes : 0.5));
+}
+
+export type CaseDecisionResult = { decisionId: number; market: Market | null; conviction: Conviction | null };
+
+// Save a decision. Approving a case also brings it into the workstation: the market is upserted and the
+// conviction takes the case's thesis, uncertainties and what-would-change conditions, linked back to the case.
+// `conditionId` is needed for cases whose stored market data predates it.
+export function saveDecision(
+  decision: Omit<CaseDecision, 'caseId'> & { caseId: number },
+  opts: { conditionId?: string | null; marketMid?: number | null } = {}
+): CaseDecisionResult {
+  const row = db.prepare('SELECT * FROM research_cases WHERE id = ?').get(decision.caseId) as any;
+  if (!row) throw new Error('Research case not found');
+  const researchCase = rowToResearchCase(row);
+  const approved = decision.decision === 'approved';
+  const conditionId = String(opts.conditionId || researchCase.market?.conditionId || '').trim();
+  if (approved && !conditionId) throw new Error('conditionId unknown for this case');
+
+  return db.transaction((): CaseDecisionResult => {
+    const stmt = db.prepare(`
+      INSERT INTO case_decisions (case_id, decision, notes, bet_amount, decided_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    const result = stmt.run(
+      decision.caseId,
+      decision.decision,
+      decision.notes || null,
+      decision.betAmount || null,
+      decision.decidedAt
+    );
+    const decisionId = Number(result.lastInsertRowid);
+    if (!approved) return { decisionId, market: null, conviction: null };
+
+    const market = upsertMarket({
+      source: 'polymarket',
+      externalId: conditionId,
+      slug: researchCase.market?.slug || undefined,
+      question: researchCase.market?.question || undefined,
+      endDate: researchCase.market?.endDate || undefined
+    });
+    const current = getConvictionByMarketId(market.id);
+    const upserted = upsertConvictionByMarketId(
+      {
+        marketId: market.id,
+        myProbability: caseYesProbability(researchCase, current),
+        entryThesis: researchCase.thesis,
+        status: current?.status ?? 'watching',
+        keyUncertainties: researchCase.keyUncertainties,
+        exitConditions: researchCase.whatWouldChangeAssessment ? [researchCase.whatWouldChangeAssessment] : []
+      },
+      {
+        marketMid: opts.marketMid ?? null,
+        reason: `approved research case #${decision.caseId}${decision.notes ? `: ${decision.notes}` : ''}`,
+        caseId: decision.caseId
+      }
+    );
+    db.prepare(`UPDATE convictions SET case_id = ? WHERE id = ?`).run(decision.caseId, upserted.id);
+    return { decisionId, market, conviction: getConvictionById(upserted.id) };
+  })();
+}
+
+// ============================
+// Chat sessions
+// ============================
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS chat_sessions (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL DEFAULT '',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chat_sessions_updated ON chat_sessions(updated_at DESC);
+
+  CREATE TABLE IF NOT EXISTS chat_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    text TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    FOREIGN KEY (session_id) REFERENCES chat_sessions(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chat_messages_session ON chat_messages(session_id, id);
+
+  CREATE TABLE IF NOT EXISTS chat_tool_events (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    command TEXT NOT NULL DEFAULT '',
+    outputs TEXT NOT NULL DEFAULT '[]',
+    target_window TEXT NOT NULL DEFAULT 'intel',
+    duration_ms INTEGER,
+    ts INTEGER NOT NULL,
+    FOREIGN KEY (session_id) REFERENCES chat_sessions(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_chat_tool_events_session ON chat_tool_events(session_id, ts);
+`);
+
+export type ChatRole = 'user' | 'assistant';
+export type ChatMessage = { role: ChatRole; text: string; ts: number };
+
+// A tool run shown in the UI (agent tool call or /exec); `outputs` is the rendered ToolOutput[].
+export type ChatToolEvent = {
+  id: string;
+  type: 'tool';
+  title: string;
+  command: string;
+  outputs: unknown;
+  targetWindow: string;
+  meta?: { durationMs: number };
+  ts: number;
+};
+
+export type ChatSessionSummary = {
+  id: string;
+  title: string; // first user message, shortened
+  messageCount: number;
+  toolEventCount: number;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ChatSession = ChatSessionSummary & { messages: ChatMessage[]; events: ChatToolEvent[] };
+
+function rowToChatSessionSummary(r: any): ChatSessionSummary {
+  return {
+    id: String(r.id),
+    title: String(r.title || ''),
+    messageCount: Number(r.message_count || 0),
+    toolEventCount: Number(r.tool_event_count || 0),
+    createdAt: Number(r.created_at),
+    updatedAt: Number(r.updated_at)
+  };
+}
+
+function rowToChatToolEvent(r: any): ChatToolEvent {
+  const outputs = (() => {
+    try {
+      return JSON.parse(String(r.outputs || '[]'));
+    } catch {
+      return [];
+    }
+  })();
+  return {
+    id: String(r.id),
+    type: 'tool',
+    title: String(r.title || ''),
+    command: String(r.command || ''),
+    outputs,
+    targetWindow: String(r.target_window || 'intel'),
+    ...(r.duration_ms == null ? {} : { meta: { durationMs: Number(r.duration_ms) } }),
+    ts: Number(r.ts)
+  };
+}
+
+const CHAT_SESSION_SUMMARY_SQL = `
+  SELECT
+    s.*,
+    (SELECT COUNT(*) FROM chat_messages m WHERE m.session_id = s.id) as message_count,
+    (SELECT COUNT(*) FROM chat_tool_events e WHERE e.session_id = s.id) as tool_event_count
+  FROM chat_sessions s
+`;
+
+export function listChatSessions(opts?: { limit?: number }): ChatSessionSummary[] {
+  const limitRaw = opts?.limit ?? 200;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 200;
+  const rows = db.prepare(`${CHAT_SESSION_SUMMARY_SQL} ORDER BY s.updated_at DESC LIMIT ?`).all(limit) as any[];
+  return rows.map(rowToChatSessionSummary);
+}
 
-  stmt.run(
-    decision.caseId,
-    decision.decision,
-    decision.notes || null,
-    decision.betAmount || null,
-    decision.decidedAt
+// Messages and tool events in the order they happened.
+export function getChatSession(id: string): ChatSession | null {
+  const row = db.prepare(`${CHAT_SESSION_SUMMARY_SQL} WHERE s.id = ?`).get(id) as any;
+  if (!row) return null;
+  const messages = (db.prepare(`SELECT * FROM chat_messages WHERE session_id = ? ORDER BY id ASC`).all(id) as any[]).map((r) => ({
+    role: (String(r.role) === 'assistant' ? 'assistant' : 'user') as ChatRole,
+    text: String(r.text || ''),
+    ts: Number(r.ts)
+  }));
+  const events = (db.prepare(`SELECT * FROM chat_tool_events WHERE session_id = ? ORDER BY ts ASC, rowid ASC`).all(id) as any[]).map(
+    rowToChatToolEvent
   );
+  return { ...rowToChatSessionSummary(row), messages, events };
+}
+
+export function listChatMessages(sessionId: string, opts?: { limit?: number }): ChatMessage[] {
+  const limitRaw = opts?.limit ?? 200;
+  const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 200;
+  const rows = db.prepare(`SELECT * FROM chat_messages WHERE session_id = ? ORDER BY id DESC LIMIT ?`).all(sessionId, limit) as any[];
+  return rows.reverse().map((r) => ({ role: String(r.role) === 'assistant' ? 'assistant' : 'user', text: String(r.text || ''), ts: Number(r.ts) }));
+}
+
+function touchChatSession(sessionId: string, at: number, titleHint?: string): void {
+  db.prepare(
+    `
+    INSERT INTO chat_sessions (id, title, created_at, updated_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      updated_at = MAX(chat_sessions.updated_at, excluded.updated_at),
+      title = CASE WHEN chat_sessions.title = '' THEN excluded.title ELSE chat_sessions.title END
+  `
+  ).run(sessionId, titleHint ? titleHint.replace(/\s+/g, ' ').trim().slice(0, 80) : '', at, at);
+}
+
+export function appendChatMessage(sessionId: string, message: ChatMessage): void {
+  db.transaction(() => {
+    touchChatSession(sessionId, message.ts, message.role === 'user' ? message.text : undefined);
+    db.prepare(`INSERT INTO chat_messages (session_id, role, text, ts) VALUES (?, ?, ?, ?)`).run(sessionId, message.role, message.text, message.ts);
+  })();
+}
+
+export function appendChatToolEvent(sessionId: string, event: ChatToolEvent): void {
+  db.transaction(() => {
+    touchChatSession(sessionId, event.ts);
+    db.prepare(
+      `
+      INSERT OR REPLACE INTO chat_tool_events (id, session_id, title, command, outputs, target_window, duration_ms, ts)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    ).run(
+      event.id,
+      sessionId,
+      event.title,
+      event.command,
+      JSON.stringify(event.outputs ?? []),
+      event.targetWindow,
+      event.meta?.durationMs ?? null,
+      event.ts
+    );
+  })();
+}
+
+export function deleteChatSession(id: string): void {
+  db.transaction(() => {
+    db.prepare(`DELETE FROM chat_tool_events WHERE session_id = ?`).run(id);
+    db.prepare(`DELETE FROM chat_messages WHERE session_id = ?`).run(id);
+    db.prepare(`DELETE FROM chat_sessions WHERE id = ?`).run(id);
+  })();
 }
 
 export { db };
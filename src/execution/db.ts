@@ -42,6 +42,25 @@ db.exec(`
   CREATE INDEX IF NOT EXISTS idx_fills_order ON fills(order_id);
 `);
 
+// Lightweight migrations (keep existing DBs working)
+try {
+  const cols = db.prepare(`PRAGMA table_info(orders)`).all() as Array<{ name: string }>;
+  const names = new Set(cols.map((c) => c.name));
+  if (!names.has('rule_id')) db.exec(`ALTER TABLE orders ADD COLUMN rule_id TEXT`);
+  if (!names.has('alert_id')) db.exec(`ALTER TABLE orders ADD COLUMN alert_id TEXT`);
+  if (!names.has('token_id')) db.exec(`ALTER TABLE orders ADD COLUMN token_id TEXT`);
+  if (!names.has('market_id')) db.exec(`ALTER TABLE orders ADD COLUMN market_id TEXT`);
+  if (!names.has('outcome')) db.exec(`ALTER TABLE orders ADD COLUMN outcome TEXT`);
+  if (!names.has('confirmed_at')) {
+    db.exec(`ALTER TABLE orders ADD COLUMN confirmed_at INTEGER`);
+    // Orders placed by hand were confirmed by the act of placing them.
+    db.exec(`UPDATE orders SET confirmed_at = created_at`);
+  }
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_orders_rule ON orders(rule_id)`);
+} catch {
+  // ignore
+}
+
 function newId(prefix: string): string {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
 }
@@ -54,9 +73,10 @@ function toType(value: unknown): OrderType {
   return String(value).toUpperCase() === 'LIMIT' ? 'LIMIT' : 'MARKET';
 }
 
+// Long enough for a raw CLOB token id (a ~78 digit integer).
 function normalizeSymbol(raw: string): string {
   const s = raw.trim().toUpperCase();
-  if (!/^[A-Z0-9.\-]{1,15}$/.test(s)) return '';
+  if (!/^[A-Z0-9.:_\-]{1,100}$/.test(s)) return '';
   return s;
 }
 
@@ -72,7 +92,13 @@ function rowToOrder(r: any): ExecOrder {
     limitPrice: r.limit_price == null ? null : Number(r.limit_price),
     expectedPrice: r.expected_price == null ? null : Number(r.expected_price),
     status: String(r.status) as OrderStatus,
-    filledQty: Number(r.filled_qty)
+    filledQty: Number(r.filled_qty),
+    ruleId: r.rule_id == null ? null : String(r.rule_id),
+    alertId: r.alert_id == null ? null : String(r.alert_id),
+    tokenId: r.token_id == null ? null : String(r.token_id),
+    marketId: r.market_id == null ? null : String(r.market_id),
+    outcome: r.outcome == null ? null : String(r.outcome).toUpperCase() === 'NO' ? 'NO' : 'YES',
+    confirmedAt: r.confirmed_at == null ? null : Number(r.confirmed_at)
   };
 }
 
@@ -97,6 +123,14 @@ export function createOrder(input: {
   type: unknown;
   limitPrice?: number | null;
   expectedPrice?: number | null;
+  ruleId?: string | null;
+  alertId?: string | null;
+  tokenId?: string | null;
+  // A markets.id + outcome pair; fills on such orders update the matching position.
+  marketId?: string | null;
+  outcome?: unknown;
+  // false stages the order: it stays PENDING and cannot fill until `confirmOrder`.
+  confirmed?: boolean;
 }): ExecOrder {
   const symbol = normalizeSymbol(input.symbol);
   if (!symbol) throw new Error('Invalid symbol');
@@ -112,15 +146,39 @@ export function createOrder(input: {
   const expectedPrice = input.expectedPrice == null ? null : Number(input.expectedPrice);
   if (expectedPrice != null && (!Number.isFinite(expectedPrice) || expectedPrice <= 0)) throw new Error('Invalid expectedPrice');
 
+  const marketId = input.marketId ? String(input.marketId).trim() || null : null;
+  const outcome = marketId ? (String(input.outcome ?? 'YES').toUpperCase() === 'NO' ? 'NO' : 'YES') : null;
+
   const now = Date.now();
   const id = newId('ord');
 
   const stmt = db.prepare(`
-    INSERT INTO orders (id, created_at, updated_at, symbol, side, qty, type, limit_price, expected_price, status, filled_qty)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO orders (
+      id, created_at, updated_at, symbol, side, qty, type, limit_price, expected_price, status, filled_qty, rule_id, alert_id, token_id,
+      market_id, outcome, confirmed_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-  stmt.run(id, now, now, symbol, side, qty, type, limitPrice, expectedPrice, 'PENDING', 0);
+  stmt.run(
+    id,
+    now,
+    now,
+    symbol,
+    side,
+    qty,
+    type,
+    limitPrice,
+    expectedPrice,
+    'PENDING',
+    0,
+    input.ruleId ?? null,
+    input.alertId ?? null,
+    input.tokenId ? String(input.tokenId).trim() || null : null,
+    marketId,
+    outcome,
+    input.confirmed === false ? null : now
+  );
   return getOrder(id)!;
 }
 
@@ -146,6 +204,17 @@ export function listFills(limit = 100): ExecFill[] {
   return rows.map(rowToFill);
 }
 
+export function confirmOrder(orderId: string): ExecOrder {
+  const existing = getOrder(orderId);
+  if (!existing) throw new Error('Order not found');
+  if (existing.status === 'CANCELED') throw new Error('Order is canceled');
+  if (existing.confirmedAt != null) return existing;
+
+  const now = Date.now();
+  db.prepare(`UPDATE orders SET confirmed_at = ?, updated_at = ? WHERE id = ?`).run(now, now, orderId);
+  return getOrder(orderId)!;
+}
+
 export function cancelOrder(orderId: string): ExecOrder {
   const existing = getOrder(orderId);
   if (!existing) throw new Error('Order not found');
@@ -156,11 +225,16 @@ export function cancelOrder(orderId: string): ExecOrder {
   return getOrder(orderId)!;
 }
 
-export function createFill(input: { orderId: string; qty?: number; price: number }): { order: ExecOrder; fill: ExecFill } {
+// `expectedPrice` is only used when the order has none (e.g. the matcher passing the touch it matched against).
+export function createFill(input: { orderId: string; qty?: number; price: number; expectedPrice?: number | null }): {
+  order: ExecOrder;
+  fill: ExecFill;
+} {
   const order = getOrder(input.orderId);
   if (!order) throw new Error('Order not found');
   if (order.status === 'CANCELED') throw new Error('Order is canceled');
   if (order.status === 'FILLED') throw new Error('Order already filled');
+  if (order.confirmedAt == null) throw new Error('Order awaiting confirmation');
 
   const price = Number(input.price);
   if (!Number.isFinite(price) || price <= 0) throw new Error('Invalid price');
@@ -172,7 +246,7 @@ export function createFill(input: { orderId: string; qty?: number; price: number
   if (!Number.isFinite(qty) || qty <= 0) throw new Error('Invalid fill qty');
   const fillQty = Math.min(remaining, qty);
 
-  const expected = order.expectedPrice;
+  const expected = order.expectedPrice ?? (input.expectedPrice != null && input.expectedPrice > 0 ? input.expectedPrice : null);
   const slippageBps =
     expected != null && Number.isFinite(expected) && expected > 0 ? ((price - expected) / expected) * 10_000 : null;
 
@@ -183,8 +257,15 @@ export function createFill(input: { orderId: string; qty?: number; price: number
     ).run(order.id, now, order.symbol, order.side, fillQty, price, expected, slippageBps);
 
     const nextFilled = order.filledQty + fillQty;
-    const nextStatus: OrderStatus = nextFilled >= order.qty ? 'FILLED' : 'PARTIAL';
-    db.prepare(`UPDATE orders SET filled_qty = ?, status = ?, updated_at = ? WHERE id = ?`).run(nextFilled, nextStatus, now, order.id);
+    // Tolerate float dust from VWAP fills summing to the order size.
+    const nextStatus: OrderStatus = nextFilled >= order.qty - 1e-9 ? 'FILLED' : 'PARTIAL';
+    db.prepare(`UPDATE orders SET filled_qty = ?, status = ?, expected_price = ?, updated_at = ? WHERE id = ?`).run(
+      nextFilled,
+      nextStatus,
+      expected,
+      now,
+      order.id
+    );
   });
 
   tx();
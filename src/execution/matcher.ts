@@ -0,0 +1,91 @@
+import { createFill, listPendingOrders } from './db.js';
+import type { ExecFill, ExecOrder } from './types.js';
+
+export type BookLevel = { price: number; size: number };
+export type MatchBook = { bids: BookLevel[]; asks: BookLevel[] };
+
+export type OrderMatch = {
+  qty: number;
+  price: number; // VWAP over the levels taken
+  touch: number; // best opposite price when matched; the expected price if the order had none
+  levels: number;
+};
+
+// Fills as much of `qty` as the book allows: BUY lifts asks (cheapest first), SELL hits bids (highest first).
+// MARKET orders take every level they need; LIMIT orders only levels at or through their limit, so they
+// match only once the book crosses. Returns null when nothing is marketable.
+export function matchOrder(order: Pick<ExecOrder, 'side' | 'type' | 'limitPrice'>, qty: number, book: MatchBook): OrderMatch | null {
+  const buying = order.side === 'BUY';
+  const levels = (buying ? [...book.asks].sort((a, b) => a.price - b.price) : [...book.bids].sort((a, b) => b.price - a.price)).filter(
+    (l) => Number.isFinite(l.price) && l.price > 0 && Number.isFinite(l.size) && l.size > 0
+  );
+  if (!levels.length || !(qty > 0)) return null;
+
+  const limit = order.type === 'LIMIT' ? order.limitPrice : null;
+  let remaining = qty;
+  let filled = 0;
+  let notional = 0;
+  let used = 0;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    if (limit != null && (buying ? level.price > limit : level.price < limit)) break;
+    const take = Math.min(remaining, level.size);
+    filled += take;
+    notional += take * level.price;
+    remaining -= take;
+    used++;
+  }
+  if (filled <= 0) return null;
+  return { qty: filled, price: notional / filled, touch: levels[0]!.price, levels: used };
+}
+
+// Removes `qty` from the side an order of `side` takes (best levels first), as `matchOrder` consumed them.
+export function consumeBook(book: MatchBook, side: ExecOrder['side'], qty: number): MatchBook {
+  const buying = side === 'BUY';
+  const levels = (buying ? [...book.asks].sort((a, b) => a.price - b.price) : [...book.bids].sort((a, b) => b.price - a.price)).map((l) => ({ ...l }));
+  let remaining = qty;
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    if (!(Number.isFinite(level.price) && level.price > 0 && Number.isFinite(level.size) && level.size > 0)) continue;
+    const take = Math.min(remaining, level.size);
+    level.size -= take;
+    remaining -= take;
+  }
+  const left = levels.filter((l) => l.size > 1e-9);
+  return buying ? { bids: book.bids, asks: left } : { bids: left, asks: book.asks };
+}
+
+export type MatcherFill = { order: ExecOrder; fill: ExecFill; levels: number };
+
+// One pass of the paper matcher over confirmed, book-linked pending orders (one book fetch per token).
+// Within a pass, each fill consumes the levels it took, so orders on the same token don't share liquidity.
+// Across passes the book is a fresh snapshot that knows nothing of earlier paper fills, so an order left
+// PARTIAL can take the same resting size again later; fine for paper trading, optimistic for large orders.
+export async function runPaperMatcherOnce(fetchBook: (tokenId: string) => Promise<MatchBook>): Promise<MatcherFill[]> {
+  const orders = listPendingOrders(500).filter((o) => o.tokenId && o.confirmedAt != null);
+  const byToken = new Map<string, ExecOrder[]>();
+  for (const o of orders) byToken.set(o.tokenId!, [...(byToken.get(o.tokenId!) ?? []), o]);
+
+  const fills: MatcherFill[] = [];
+  for (const [tokenId, tokenOrders] of byToken) {
+    let book: MatchBook;
+    try {
+      book = await fetchBook(tokenId);
+    } catch {
+      continue; // try again next pass
+    }
+    for (const order of tokenOrders) {
+      const match = matchOrder(order, order.qty - order.filledQty, book);
+      if (!match) continue;
+      let result: { order: ExecOrder; fill: ExecFill };
+      try {
+        result = createFill({ orderId: order.id, qty: match.qty, price: match.price, expectedPrice: match.touch });
+      } catch {
+        continue; // canceled or filled since it was listed; the rest of the pass goes on
+      }
+      book = consumeBook(book, order.side, match.qty);
+      fills.push({ ...result, levels: match.levels });
+    }
+  }
+  return fills;
+}
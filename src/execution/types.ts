@@ -14,6 +14,12 @@ export type ExecOrder = {
   expectedPrice: number | null;
   status: OrderStatus;
   filledQty: number;
+  ruleId: string | null; // set when a rule action staged the order
+  alertId: string | null;
+  tokenId: string | null; // CLOB token; set = the paper matcher fills it against the live book
+  marketId: string | null; // markets.id in the workstation DB; set = fills update the position
+  outcome: 'YES' | 'NO' | null;
+  confirmedAt: number | null; // null = staged, waiting for a human to confirm
 };
 
 export type ExecFill = {
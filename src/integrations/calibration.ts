@@ -0,0 +1,97 @@
+import type { CommandSpec, ToolOutput } from '../core/types.js';
+import {
+  calibrationReport,
+  listResolvedForecasts,
+  pollMarketResolutions,
+  type CalibrationGroup,
+  type CalibrationStats,
+  type ForecastKind
+} from '../calibration/index.js';
+import { parseFlags } from './flags.js';
+
+function fmtPct(p: number | null): string {
+  if (p == null || !Number.isFinite(p)) return '—';
+  return `${(p * 100).toFixed(1)}%`;
+}
+
+function fmtScore(n: number | null): string {
+  return n == null || !Number.isFinite(n) ? '—' : n.toFixed(4);
+}
+
+function groupRows(groups: CalibrationGroup[]): string[][] {
+  return groups.map((g) => [g.key, String(g.count), fmtScore(g.brier), fmtScore(g.logLoss)]);
+}
+
+function reliabilityRows(stats: CalibrationStats): string[][] {
+  return stats.buckets
+    .filter((b) => b.count > 0)
+    .map((b) => [`${fmtPct(b.from)}–${fmtPct(b.to)}`, String(b.count), fmtPct(b.meanForecast), fmtPct(b.observedRate)]);
+}
+
+function report(args: string[]): ToolOutput[] {
+  const { flags } = parseFlags(args);
+  const kindRaw = flags.get('kind')?.trim().toLowerCase();
+  const kind: ForecastKind | null = kindRaw === 'conviction' || kindRaw === 'convictions' ? 'conviction' : kindRaw === 'case' || kindRaw === 'cases' ? 'case' : null;
+  if (kindRaw && !kind) return [{ kind: 'error', message: `Unknown --kind: ${kindRaw} (convictions|cases)` }];
+  const bucketsRaw = Number(flags.get('buckets') || '10');
+  const buckets = Number.isFinite(bucketsRaw) ? Math.max(2, Math.min(20, Math.floor(bucketsRaw))) : 10;
+
+  const forecasts = listResolvedForecasts().filter((f) => !kind || f.kind === kind);
+  const result = calibrationReport(forecasts, { buckets });
+  if (!result.overall.count) {
+    return [{ kind: 'text', title: 'Calibration', text: 'No resolved forecasts yet. Run `calibration resolve` to check for closed markets.' }];
+  }
+
+  const columns = ['group', 'n', 'brier', 'log loss'];
+  return [
+    {
+      kind: 'text',
+      title: 'Calibration',
+      text: `${result.overall.count} resolved forecasts · Brier ${fmtScore(result.overall.brier)} · log loss ${fmtScore(result.overall.logLoss)}`
+    },
+    { kind: 'table', title: 'Reliability', columns: ['forecast', 'n', 'mean forecast', 'observed'], rows: reliabilityRows(result.overall) },
+    { kind: 'table', title: 'By kind', columns, rows: groupRows(result.byKind) },
+    { kind: 'table', title: 'By model', columns, rows: groupRows(result.byModel) },
+    { kind: 'table', title: 'By category', columns, rows: groupRows(result.byCategory) }
+  ];
+}
+
+async function resolve(): Promise<ToolOutput[]> {
+  const result = await pollMarketResolutions();
+  const lines = [`checked ${result.checked} markets · ${result.resolved.length} newly resolved · ${result.errors} lookups failed`];
+  for (const r of result.resolved) lines.push(`  ${r.gammaMarketId} → ${r.winningOutcome}${r.category ? ` (${r.category})` : ''}`);
+  return [{ kind: 'text', title: 'Resolutions', text: lines.join('\n') }];
+}
+
+export function calibrationCommand(): CommandSpec {
+  return {
+    name: 'calibration',
+    description: 'Brier score, log loss and reliability of convictions and research cases',
+    usage: 'calibration [report|resolve] ...',
+    handler: async (args) => {
+      const sub = args[0] && !args[0].startsWith('--') ? args[0] : 'report';
+      const rest = args[0] === sub ? args.slice(1) : args;
+
+      if (sub === 'help') {
+        return [
+          {
+            kind: 'text',
+            title: 'Usage',
+            text: [
+              'calibration [report] [--kind convictions|cases] [--buckets N]',
+              'calibration resolve',
+              '',
+              'Scores convictions (P(YES)) and research cases (confidence low/medium/high = 55/70/85% on the recommended outcome)',
+              'against resolved markets. `resolve` checks Polymarket for newly closed markets now.'
+            ].join('\n')
+          }
+        ];
+      }
+
+      if (sub === 'report') return report(rest);
+      if (sub === 'resolve') return resolve();
+
+      return [{ kind: 'error', message: `Unknown calibration subcommand: ${sub}` }];
+    }
+  };
+}
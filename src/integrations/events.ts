@@ -0,0 +1,82 @@
+import { readFile } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import type { CommandSpec, ToolOutput } from '../core/types.js';
+import { importSchedule, type ScheduleFormat } from '../calendar/index.js';
+import { parseFlags } from './flags.js';
+
+const BOOLEAN_FLAGS = new Set(['no-link']);
+
+async function importFile(args: string[]): Promise<ToolOutput[]> {
+  const { positional, flags } = parseFlags(args, BOOLEAN_FLAGS);
+  const file = positional[0];
+  if (!file) return [{ kind: 'error', message: 'Usage: events import <file.ics|file.csv> [--format ics|csv] [--no-link]' }];
+  const formatRaw = flags.get('format')?.trim().toLowerCase();
+  if (formatRaw && formatRaw !== 'ics' && formatRaw !== 'csv') return [{ kind: 'error', message: `Unknown --format: ${formatRaw} (ics|csv)` }];
+
+  const path = resolve(process.cwd(), file);
+  const text = await readFile(path, 'utf8');
+  const result = importSchedule(text, {
+    filename: basename(path),
+    format: formatRaw as ScheduleFormat | undefined,
+    link: !flags.has('no-link')
+  });
+
+  const linked = result.created.filter((c) => c.market).length;
+  const outputs: ToolOutput[] = [
+    {
+      kind: 'text',
+      title: 'Events import',
+      text: `${result.created.length} imported (${linked} linked to markets) · ${result.duplicates.length} already known · ${result.skipped.length} skipped`
+    }
+  ];
+  if (result.created.length) {
+    outputs.push({
+      kind: 'table',
+      title: 'Imported',
+      columns: ['date', 'title', 'market', 'match'],
+      rows: result.created.map((c) => [
+        c.event.date,
+        c.event.title,
+        c.market ? c.market.question || c.market.externalId : null,
+        c.linkScore == null ? (c.market ? 'explicit' : null) : `score ${c.linkScore}`
+      ])
+    });
+  }
+  if (result.skipped.length) {
+    outputs.push({ kind: 'table', title: 'Skipped', columns: ['line', 'reason'], rows: result.skipped.map((s) => [s.line, s.reason]) });
+  }
+  return outputs;
+}
+
+export function eventsCommand(): CommandSpec {
+  return {
+    name: 'events',
+    description: 'Import information-calendar events from iCalendar or CSV schedules',
+    usage: 'events import <file> [--format ics|csv] [--no-link]',
+    handler: async (args) => {
+      const sub = args[0] || 'help';
+
+      if (sub === 'help') {
+        return [
+          {
+            kind: 'text',
+            title: 'Usage',
+            text: [
+              'events import <file> [--format ics|csv] [--no-link]',
+              '',
+              'Reads an .ics calendar (VEVENT SUMMARY/DTSTART/DESCRIPTION/URL; recurring events import their first date)',
+              'or a CSV with a header row: title,date[,confidence,source,notes,category,market].',
+              'Events already stored with the same title on the same day are skipped. Unless --no-link is given, each new',
+              'event is linked to the watched market (open conviction or position) whose question best matches its title;',
+              'a CSV market column (market id or conditionId) links explicitly.'
+            ].join('\n')
+          }
+        ];
+      }
+
+      if (sub === 'import') return importFile(args.slice(1));
+
+      return [{ kind: 'error', message: `Unknown events subcommand: ${sub}` }];
+    }
+  };
+}
@@ -0,0 +1,17 @@
+// `--name value` pairs and positional args for the integration commands; flags named in `booleanFlags` take no value.
+export function parseFlags(args: string[], booleanFlags: ReadonlySet<string> = new Set()): { positional: string[]; flags: Map<string, string> } {
+  const positional: string[] = [];
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg.startsWith('--') && booleanFlags.has(arg.slice(2))) {
+      flags.set(arg.slice(2), 'true');
+    } else if (arg.startsWith('--')) {
+      flags.set(arg.slice(2), args[i + 1] ?? '');
+      i++;
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, flags };
+}
@@ -1,3 +1,5 @@
+export { calibrationCommand } from './calibration.js';
 export { edgarCommand } from './edgar.js';
+export { eventsCommand } from './events.js';
 export { grokCommand } from './grok.js';
-
+export { ruleCommand } from './rule.js';
@@ -0,0 +1,102 @@
+import type { CommandSpec, ToolOutput } from '../core/types.js';
+import { getRuleById } from '../db/index.js';
+import { runRuleBacktest } from '../rules/backtest.js';
+import { describeConditionTree } from '../rules/index.js';
+import { parseFlags } from './flags.js';
+
+function fmtPct(p: number | null): string {
+  if (p == null || !Number.isFinite(p)) return '—';
+  return `${(p * 100).toFixed(1)}%`;
+}
+
+function fmtUsd(n: number | null): string {
+  if (n == null || !Number.isFinite(n)) return '—';
+  return `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`;
+}
+
+function fmtTime(ms: number | null): string {
+  return ms == null ? '—' : new Date(ms).toISOString().replace('T', ' ').slice(0, 16);
+}
+
+function parseTime(value: string | undefined, flag: string): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  if (!Number.isFinite(ms)) throw new Error(`Invalid --${flag}: ${value}`);
+  return ms;
+}
+
+async function backtest(args: string[]): Promise<ToolOutput[]> {
+  const { positional, flags } = parseFlags(args);
+  const id = positional[0];
+  if (!id) return [{ kind: 'error', message: 'Usage: rule backtest <id> [--from DATE] [--to DATE] [--side YES|NO] [--stake USD] [--source NAME]' }];
+
+  const rule = getRuleById(id);
+  if (!rule) return [{ kind: 'error', message: `Rule not found: ${id}` }];
+
+  const sideRaw = flags.get('side')?.trim().toUpperCase();
+  const stakeRaw = flags.get('stake');
+  const result = await runRuleBacktest(rule, {
+    from: parseTime(flags.get('from'), 'from'),
+    to: parseTime(flags.get('to'), 'to'),
+    side: sideRaw === 'NO' ? 'NO' : sideRaw === 'YES' ? 'YES' : undefined,
+    stakeUsd: stakeRaw ? Number(stakeRaw) : undefined,
+    source: flags.get('source') || undefined
+  });
+
+  const settled =
+    result.settledBy === 'resolution'
+      ? `resolved ${result.resolution}`
+      : result.settledBy === 'mark'
+        ? `unresolved, marked at ${fmtPct(result.settlement)}`
+        : 'no settlement price';
+
+  return [
+    {
+      kind: 'text',
+      title: 'Backtest',
+      text: [
+        `${rule.name || rule.id}: ${describeConditionTree(rule.conditions)}`,
+        `source=${result.source ?? '—'} points=${result.points} range=${fmtTime(result.from)} → ${fmtTime(result.to)}`,
+        `fires=${result.fires.length} rearms=${result.rearms}${result.expiredAt != null ? ` expired=${fmtTime(result.expiredAt)}` : ''}`,
+        `side=${result.side} stake=${fmtUsd(result.stakeUsd)} ${settled} total P&L=${fmtUsd(result.totalPnl)}`
+      ].join('\n')
+    },
+    {
+      kind: 'table',
+      title: 'Fires',
+      columns: ['time', 'YES', 'entry', 'P&L', 'why'],
+      rows: result.fires.map((f) => [fmtTime(f.at), fmtPct(f.yesPrice), fmtPct(f.entryPrice), fmtUsd(f.pnl), f.details.join(' · ')])
+    },
+    { kind: 'text', title: 'Notes', text: result.notes.join('\n') }
+  ];
+}
+
+export function ruleCommand(): CommandSpec {
+  return {
+    name: 'rule',
+    description: 'Entry rule tools (backtest against recorded prices)',
+    usage: 'rule backtest <id> ...',
+    handler: async (args) => {
+      const sub = args[0];
+      const rest = args.slice(1);
+
+      if (!sub || sub === 'help') {
+        return [
+          {
+            kind: 'text',
+            title: 'Usage',
+            text: [
+              'rule backtest <id> [--from DATE] [--to DATE] [--side YES|NO] [--stake USD] [--source NAME]',
+              '',
+              'Replays recorded prices through the rule and reports fires and hypothetical P&L at resolution.'
+            ].join('\n')
+          }
+        ];
+      }
+
+      if (sub === 'backtest') return backtest(rest);
+
+      return [{ kind: 'error', message: `Unknown rule subcommand: ${sub}` }];
+    }
+  };
+}
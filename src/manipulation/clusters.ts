@@ -0,0 +1,285 @@
+import { createHash } from 'node:crypto';
+import { db, getRecentAlerts, saveAlert } from './db.js';
+import type { ManipulationAlert } from './types.js';
+
+// Pattern 5 (coordinated timing) as a wallet graph: two wallets get an edge each time they trade the same market,
+// same side and outcome, within `windowMs` of each other. Fills are collapsed into trading events first (a wallet's
+// fills within `windowMs` of its last counted one are the same event), so one order split into many fills counts once.
+// Label propagation over the weighted graph finds communities; a community whose members mostly trade together,
+// and densely so, acts in lockstep.
+
+export interface ClusterOptions {
+  days?: number;
+  windowMs?: number;
+  minEdgeWeight?: number; // co-trade events needed before a pair counts as linked
+  minSize?: number;
+  flagScore?: number;
+  flagMinWallets?: number;
+  maxCrowd?: number; // windows with more distinct wallets than this are a crowd, not a ring
+  marketMakerMinTrades?: number;
+  skipCategories?: string[];
+}
+
+export interface ClusterMarket {
+  marketId: string;
+  question: string | null;
+  coTrades: number;
+}
+
+export interface WalletCluster {
+  id: string;
+  wallets: string[];
+  markets: ClusterMarket[];
+  coTrades: number;   // summed edge weight (co-trade events) inside the cluster
+  density: number;    // linked pairs / possible pairs
+  lockstep: number;   // share of the members' trading events that were co-trades with another member
+  score: number;      // density × lockstep, 0-1
+  flagged: boolean;
+  firstAt: number;
+  lastAt: number;
+}
+
+export interface ClusterReport {
+  clusters: WalletCluster[];
+  stats: { trades: number; wallets: number; edges: number; from: number; windowMs: number };
+}
+
+interface Edge {
+  weight: number;
+  markets: Map<string, number>;
+  firstAt: number;
+  lastAt: number;
+}
+
+interface TapeTrade {
+  wallet: string;
+  timestamp: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LPA_ITERATIONS = 30;
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+function clusterId(wallets: string[]): string {
+  return `cl_${createHash('sha1').update(wallets.join(',')).digest('hex').slice(0, 12)}`;
+}
+
+// Weighted label propagation; nodes are visited in sorted order and ties go to the smallest label,
+// so the same graph always yields the same communities.
+function labelPropagation(adjacency: Map<string, Map<string, number>>): Map<string, string> {
+  const nodes = [...adjacency.keys()].sort();
+  const labels = new Map(nodes.map((n) => [n, n]));
+  for (let iter = 0; iter < MAX_LPA_ITERATIONS; iter++) {
+    let changed = false;
+    for (const node of nodes) {
+      const scores = new Map<string, number>();
+      for (const [neighbor, weight] of adjacency.get(node)!) {
+        const label = labels.get(neighbor)!;
+        scores.set(label, (scores.get(label) ?? 0) + weight);
+      }
+      let best = labels.get(node)!;
+      let bestScore = -1;
+      for (const [label, score] of scores) {
+        if (score > bestScore || (score === bestScore && label < best)) {
+          best = label;
+          bestScore = score;
+        }
+      }
+      if (best !== labels.get(node)) {
+        labels.set(node, best);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+  return labels;
+}
+
+export function findWalletClusters(options: ClusterOptions = {}): ClusterReport {
+  const days = options.days ?? 7;
+  const windowMs = options.windowMs ?? 60_000;
+  const minEdgeWeight = options.minEdgeWeight ?? 3;
+  const minSize = options.minSize ?? 2;
+  const flagScore = options.flagScore ?? 0.5;
+  const flagMinWallets = options.flagMinWallets ?? 3;
+  const maxCrowd = options.maxCrowd ?? 25;
+  const marketMakerMinTrades = options.marketMakerMinTrades ?? 500;
+  const skip = new Set((options.skipCategories ?? ['crypto']).map((c) => c.toLowerCase()));
+  const from = Date.now() - days * DAY_MS;
+
+  // Fill counts per wallet in the window, to leave out market makers
+  const walletTrades = new Map<string, number>();
+  const countRows = db.prepare(`
+    SELECT wallet, COUNT(*) as c FROM trades WHERE timestamp >= ? GROUP BY wallet
+  `).all(from) as Array<{ wallet: string; c: number }>;
+  for (const r of countRows) walletTrades.set(r.wallet, r.c);
+
+  const edges = new Map<string, Edge>();
+  // Trading events per wallet (the lockstep denominator)
+  const walletEvents = new Map<string, number>();
+  let trades = 0;
+
+  // `tape` is one market/side/outcome, oldest first, already collapsed to events
+  const addEdges = (marketId: string, tape: TapeTrade[]) => {
+    let start = 0;
+    for (let i = 0; i < tape.length; i++) {
+      const current = tape[i]!;
+      while (current.timestamp - tape[start]!.timestamp > windowMs) start++;
+      const partners = new Set<string>();
+      for (let j = start; j < i; j++) {
+        if (tape[j]!.wallet !== current.wallet) partners.add(tape[j]!.wallet);
+      }
+      if (!partners.size || partners.size > maxCrowd) continue;
+      for (const partner of partners) {
+        const key = edgeKey(current.wallet, partner);
+        let edge = edges.get(key);
+        if (!edge) {
+          edge = { weight: 0, markets: new Map(), firstAt: current.timestamp, lastAt: current.timestamp };
+          edges.set(key, edge);
+        }
+        edge.weight++;
+        edge.markets.set(marketId, (edge.markets.get(marketId) ?? 0) + 1);
+        edge.lastAt = current.timestamp;
+      }
+    }
+  };
+
+  const rows = db.prepare(`
+    SELECT t.market_id, t.wallet, t.side, t.outcome, t.timestamp, mm.category
+    FROM trades t
+    LEFT JOIN market_meta mm ON t.market_id = mm.id
+    WHERE t.timestamp >= ?
+    ORDER BY t.market_id, t.side, t.outcome, t.timestamp
+  `).iterate(from) as Iterable<any>;
+
+  let groupKey = '';
+  let groupMarket = '';
+  let tape: TapeTrade[] = [];
+  let lastEvent = new Map<string, number>();
+  for (const r of rows) {
+    trades++;
+    if (r.category && skip.has(String(r.category).toLowerCase())) continue;
+    if ((walletTrades.get(r.wallet) ?? 0) >= marketMakerMinTrades) continue;
+    const key = `${r.market_id}|${r.side}|${r.outcome}`;
+    if (key !== groupKey) {
+      if (tape.length > 1) addEdges(groupMarket, tape);
+      groupKey = key;
+      groupMarket = r.market_id;
+      tape = [];
+      lastEvent = new Map();
+    }
+    const last = lastEvent.get(r.wallet);
+    if (last != null && r.timestamp - last <= windowMs) continue;
+    lastEvent.set(r.wallet, r.timestamp);
+    walletEvents.set(r.wallet, (walletEvents.get(r.wallet) ?? 0) + 1);
+    tape.push({ wallet: r.wallet, timestamp: r.timestamp });
+  }
+  if (tape.length > 1) addEdges(groupMarket, tape);
+
+  // Graph of pairs that co-traded often enough
+  const adjacency = new Map<string, Map<string, number>>();
+  let linked = 0;
+  for (const [key, edge] of edges) {
+    if (edge.weight < minEdgeWeight) continue;
+    linked++;
+    const [a, b] = key.split('|') as [string, string];
+    if (!adjacency.has(a)) adjacency.set(a, new Map());
+    if (!adjacency.has(b)) adjacency.set(b, new Map());
+    adjacency.get(a)!.set(b, edge.weight);
+    adjacency.get(b)!.set(a, edge.weight);
+  }
+
+  const labels = labelPropagation(adjacency);
+  const groups = new Map<string, string[]>();
+  for (const [wallet, label] of labels) {
+    const members = groups.get(label) ?? [];
+    members.push(wallet);
+    groups.set(label, members);
+  }
+
+  const questionStmt = db.prepare('SELECT question FROM market_meta WHERE id = ?');
+  const clusters: WalletCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < minSize) continue;
+    const wallets = members.sort();
+
+    let coTrades = 0;
+    let pairs = 0;
+    let firstAt = Infinity;
+    let lastAt = 0;
+    const marketCounts = new Map<string, number>();
+    for (let i = 0; i < wallets.length; i++) {
+      for (let j = i + 1; j < wallets.length; j++) {
+        const edge = edges.get(edgeKey(wallets[i]!, wallets[j]!));
+        if (!edge || edge.weight < minEdgeWeight) continue;
+        pairs++;
+        coTrades += edge.weight;
+        firstAt = Math.min(firstAt, edge.firstAt);
+        lastAt = Math.max(lastAt, edge.lastAt);
+        for (const [marketId, count] of edge.markets) marketCounts.set(marketId, (marketCounts.get(marketId) ?? 0) + count);
+      }
+    }
+
+    const possible = (wallets.length * (wallets.length - 1)) / 2;
+    const memberTrades = wallets.reduce((sum, w) => sum + (walletEvents.get(w) ?? 0), 0);
+    const density = possible ? pairs / possible : 0;
+    // Each co-trade involves two member events; an event can pair with several members, hence the clamp
+    const lockstep = memberTrades ? Math.min(1, (2 * coTrades) / memberTrades) : 0;
+    const score = density * lockstep;
+
+    const markets: ClusterMarket[] = [...marketCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([marketId, count]) => ({
+        marketId,
+        question: ((questionStmt.get(marketId) as { question: string } | undefined)?.question) ?? null,
+        coTrades: count,
+      }));
+
+    clusters.push({
+      id: clusterId(wallets),
+      wallets,
+      markets,
+      coTrades,
+      density: Math.round(density * 1000) / 1000,
+      lockstep: Math.round(lockstep * 1000) / 1000,
+      score: Math.round(score * 1000) / 1000,
+      flagged: score >= flagScore && wallets.length >= flagMinWallets,
+      firstAt: Number.isFinite(firstAt) ? firstAt : 0,
+      lastAt,
+    });
+  }
+
+  clusters.sort((a, b) => b.score - a.score || b.coTrades - a.coTrades);
+  return { clusters, stats: { trades, wallets: adjacency.size, edges: linked, from, windowMs } };
+}
+
+// Writes a COORDINATED_ACTIVITY alert per flagged cluster, skipping clusters already alerted in the last day.
+export function raiseClusterAlerts(clusters: WalletCluster[]): ManipulationAlert[] {
+  const since = Date.now() - DAY_MS;
+  const recent = new Set(
+    getRecentAlerts(500)
+      .filter((a) => a.type === 'COORDINATED_ACTIVITY' && a.createdAt >= since)
+      .map((a) => [...a.wallets].sort().join(','))
+  );
+
+  const alerts: ManipulationAlert[] = [];
+  for (const c of clusters) {
+    if (!c.flagged || recent.has(c.wallets.join(','))) continue;
+    const top = c.markets[0];
+    const alert: ManipulationAlert = {
+      type: 'COORDINATED_ACTIVITY',
+      severity: c.score >= 0.8 || c.wallets.length >= 6 ? 'HIGH' : 'MEDIUM',
+      wallets: c.wallets,
+      markets: c.markets.map((m) => m.marketId),
+      details: `${c.wallets.length} wallets trading in lockstep (score ${c.score.toFixed(2)}, ${c.coTrades} co-trades across ${c.markets.length} markets${top ? `, mostly ${(top.question || top.marketId).slice(0, 50)}` : ''})`,
+      createdAt: Date.now(),
+      reviewed: false,
+    };
+    alert.id = saveAlert(alert);
+    alerts.push(alert);
+  }
+  return alerts;
+}
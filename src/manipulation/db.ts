@@ -1,10 +1,10 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import type { StoredTrade, WalletProfile, MarketMeta, ManipulationAlert } from './types.js';
+import type { StoredTrade, WalletProfile, MarketMeta, MarketResolution, ManipulationAlert, SignatureTally } from './types.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const DB_PATH = path.join(__dirname, '../../data/manipulation.db');
+const DB_PATH = process.env.TT_MANIPULATION_DB || path.join(__dirname, '../../data/manipulation.db');
 
 const db = new Database(DB_PATH);
 
@@ -70,6 +70,16 @@ db.exec(`
     reviewed INTEGER DEFAULT 0
   );
 
+  -- Market resolutions by condition id (for wallet win rates)
+  CREATE TABLE IF NOT EXISTS market_resolutions (
+    market_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,           -- 'resolved' | 'open'
+    winning_outcome TEXT,
+    winning_index INTEGER,
+    checked_at INTEGER NOT NULL,
+    resolved_at INTEGER
+  );
+
   -- Indexes for fast queries
   CREATE INDEX IF NOT EXISTS idx_trades_timestamp ON trades(timestamp);
   CREATE INDEX IF NOT EXISTS idx_trades_wallet ON trades(wallet);
@@ -87,6 +97,30 @@ try {
   // ignore
 }
 
+try {
+  const cols = db.prepare(`PRAGMA table_info(market_meta)`).all() as Array<{ name: string }>;
+  const names = new Set(cols.map((c) => c.name));
+  if (!names.has('slug')) db.exec(`ALTER TABLE market_meta ADD COLUMN slug TEXT`);
+  if (!names.has('outcomes')) db.exec(`ALTER TABLE market_meta ADD COLUMN outcomes TEXT`);
+  if (!names.has('token_ids')) db.exec(`ALTER TABLE market_meta ADD COLUMN token_ids TEXT`);
+  if (!names.has('status')) db.exec(`ALTER TABLE market_meta ADD COLUMN status TEXT`);
+  if (!names.has('winning_outcome')) db.exec(`ALTER TABLE market_meta ADD COLUMN winning_outcome TEXT`);
+} catch {
+  // ignore
+}
+
+try {
+  const cols = db.prepare(`PRAGMA table_info(signature_tallies)`).all() as Array<{ name: string }>;
+  const names = new Set(cols.map((c) => c.name));
+  if (!names.has('label')) db.exec(`ALTER TABLE signature_tallies ADD COLUMN label TEXT`);
+  if (!names.has('total_count')) db.exec(`ALTER TABLE signature_tallies ADD COLUMN total_count INTEGER`);
+  if (!names.has('recent')) db.exec(`ALTER TABLE signature_tallies ADD COLUMN recent TEXT`);
+  if (!names.has('alerted_at')) db.exec(`ALTER TABLE signature_tallies ADD COLUMN alerted_at INTEGER`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_signature_first_seen ON signature_tallies(first_seen)`);
+} catch {
+  // ignore
+}
+
 // ============ Trade Operations ============
 
 export function saveTrade(trade: StoredTrade): void {
@@ -137,6 +171,36 @@ export function saveTrades(trades: StoredTrade[]): number {
   return insertMany(trades);
 }
 
+// Like saveTrades, but returns the trades that were actually new (for real-time detection).
+export function saveNewTrades(trades: StoredTrade[]): StoredTrade[] {
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO trades (id, timestamp, market_id, wallet, side, outcome, size, price, title, slug)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const insertMany = db.transaction((trades: StoredTrade[]) => {
+    const inserted: StoredTrade[] = [];
+    for (const t of trades) {
+      const result = stmt.run(
+        t.id,
+        t.timestamp,
+        t.marketId,
+        t.wallet,
+        t.side,
+        t.outcome,
+        t.size,
+        t.price,
+        t.title && t.title.trim() ? t.title : null,
+        t.slug && t.slug.trim() ? t.slug : null
+      );
+      if (result.changes > 0) inserted.push(t);
+    }
+    return inserted;
+  });
+
+  return insertMany(trades);
+}
+
 export function getTradeCount(): number {
   const row = db.prepare('SELECT COUNT(*) as count FROM trades').get() as { count: number };
   return row.count;
@@ -180,6 +244,42 @@ export function getTradesForMarket(marketId: string, limit = 1000): StoredTrade[
   }));
 }
 
+// Oldest first, for replaying a market's tape. Reads the whole range in pages (keyed on timestamp, id)
+// so a busy market isn't cut off before its latest trades.
+export function getTradesForMarketInRange(marketId: string, opts: { from?: number | null; to?: number | null } = {}): StoredTrade[] {
+  const page = db.prepare(`
+    SELECT * FROM trades
+    WHERE market_id = ? AND (? IS NULL OR timestamp >= ?) AND (? IS NULL OR timestamp <= ?)
+      AND (timestamp > ? OR (timestamp = ? AND id > ?))
+    ORDER BY timestamp ASC, id ASC
+    LIMIT ?
+  `);
+  const pageSize = 10_000;
+  const trades: StoredTrade[] = [];
+  let afterTimestamp = -Infinity;
+  let afterId = '';
+  for (;;) {
+    const rows = page.all(marketId, opts.from ?? null, opts.from ?? null, opts.to ?? null, opts.to ?? null, afterTimestamp, afterTimestamp, afterId, pageSize) as any[];
+    for (const r of rows) {
+      trades.push({
+        id: r.id,
+        timestamp: r.timestamp,
+        marketId: r.market_id,
+        wallet: r.wallet,
+        side: r.side,
+        outcome: r.outcome,
+        size: r.size,
+        price: r.price,
+        title: r.title ?? undefined,
+        slug: r.slug ?? undefined,
+      });
+    }
+    if (rows.length < pageSize) return trades;
+    afterTimestamp = rows[rows.length - 1].timestamp;
+    afterId = rows[rows.length - 1].id;
+  }
+}
+
 export function getRecentTrades(limit = 100): StoredTrade[] {
   const rows = db.prepare(`
     SELECT * FROM trades ORDER BY timestamp DESC LIMIT ?
@@ -199,6 +299,56 @@ export function getRecentTrades(limit = 100): StoredTrade[] {
   }));
 }
 
+// Aggregates used to warm the real-time detector's per-wallet / per-market state.
+// `upTo` limits them to trades at or before that one in (timestamp, id) order, so trades saved
+// in the same batch but not yet processed aren't counted in the warm-up and again on arrival.
+export type TradeCursor = Pick<StoredTrade, 'timestamp' | 'id'>;
+
+const UP_TO_CLAUSE = `(? IS NULL OR timestamp < ? OR (timestamp = ? AND id <= ?))`;
+
+function upToParams(upTo?: TradeCursor): Array<number | string | null> {
+  return upTo ? [upTo.timestamp, upTo.timestamp, upTo.timestamp, upTo.id] : [null, null, null, null];
+}
+
+export function getWalletTradeSummary(wallet: string, upTo?: TradeCursor): {
+  tradeCount: number;
+  markets: string[];
+  buyCount: number;
+  buyVolume: number;
+  buyPriceSum: number;
+  buyVolumeByMarket: Record<string, number>;
+} {
+  const rows = db.prepare(`
+    SELECT market_id,
+      COUNT(*) as trades,
+      SUM(CASE WHEN side = 'BUY' THEN 1 ELSE 0 END) as buys,
+      SUM(CASE WHEN side = 'BUY' THEN size ELSE 0 END) as buy_vol,
+      SUM(CASE WHEN side = 'BUY' THEN price ELSE 0 END) as buy_price_sum
+    FROM trades WHERE wallet = ? AND ${UP_TO_CLAUSE} GROUP BY market_id
+  `).all(wallet, ...upToParams(upTo)) as any[];
+
+  const summary = { tradeCount: 0, markets: [] as string[], buyCount: 0, buyVolume: 0, buyPriceSum: 0, buyVolumeByMarket: {} as Record<string, number> };
+  for (const r of rows) {
+    summary.tradeCount += r.trades;
+    summary.markets.push(r.market_id);
+    summary.buyCount += r.buys;
+    summary.buyVolume += r.buy_vol;
+    summary.buyPriceSum += r.buy_price_sum;
+    summary.buyVolumeByMarket[r.market_id] = r.buy_vol;
+  }
+  return summary;
+}
+
+export function getMarketWalletVolumes(marketId: string, upTo?: TradeCursor): Record<string, number> {
+  const rows = db.prepare(`
+    SELECT wallet, SUM(size) as vol FROM trades WHERE market_id = ? AND ${UP_TO_CLAUSE} GROUP BY wallet
+  `).all(marketId, ...upToParams(upTo)) as Array<{ wallet: string; vol: number }>;
+
+  const out: Record<string, number> = {};
+  for (const r of rows) out[r.wallet] = r.vol;
+  return out;
+}
+
 // ============ Wallet Profile Operations ============
 
 export function updateWalletProfile(profile: WalletProfile): void {
@@ -263,14 +413,54 @@ export function getTopWalletsByVolume(limit = 50): WalletProfile[] {
   }));
 }
 
+// Win rate is scored from resolutions (winrate.ts); wallets without an enriched profile are skipped.
+export function setWalletWinRate(address: string, winRate: number | null, resolvedPositions: number): boolean {
+  const result = db.prepare(`
+    UPDATE wallet_profiles SET win_rate = ?, resolved_positions = ? WHERE address = ?
+  `).run(winRate, resolvedPositions, address);
+  return result.changes > 0;
+}
+
 // ============ Market Meta Operations ============
 
+// Title-only saves (feed / trade titles) keep the Gamma fields, category and fetch time of an earlier Gamma save.
 export function saveMarketMeta(meta: MarketMeta): void {
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO market_meta (id, question, category, end_date, fetched_at)
-    VALUES (?, ?, ?, ?, ?)
+    INSERT INTO market_meta (id, question, category, end_date, fetched_at, slug, outcomes, token_ids, status, winning_outcome)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      question = excluded.question,
+      category = CASE WHEN excluded.outcomes IS NULL AND market_meta.outcomes IS NOT NULL THEN market_meta.category ELSE excluded.category END,
+      end_date = CASE WHEN excluded.end_date != '' THEN excluded.end_date ELSE market_meta.end_date END,
+      fetched_at = CASE WHEN excluded.outcomes IS NULL AND market_meta.outcomes IS NOT NULL THEN market_meta.fetched_at ELSE excluded.fetched_at END,
+      slug = COALESCE(excluded.slug, market_meta.slug),
+      outcomes = COALESCE(excluded.outcomes, market_meta.outcomes),
+      token_ids = COALESCE(excluded.token_ids, market_meta.token_ids),
+      status = COALESCE(excluded.status, market_meta.status),
+      winning_outcome = COALESCE(excluded.winning_outcome, market_meta.winning_outcome)
   `);
-  stmt.run(meta.id, meta.question, meta.category, meta.endDate, meta.fetchedAt);
+  stmt.run(
+    meta.id,
+    meta.question,
+    meta.category,
+    meta.endDate,
+    meta.fetchedAt,
+    meta.slug ?? null,
+    meta.outcomes ? JSON.stringify(meta.outcomes) : null,
+    meta.tokenIds ? JSON.stringify(meta.tokenIds) : null,
+    meta.status ?? null,
+    meta.winningOutcome ?? null
+  );
+}
+
+function parseJsonList(raw: unknown): string[] | undefined {
+  if (typeof raw !== 'string' || !raw) return undefined;
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 export function getMarketMeta(id: string): MarketMeta | null {
@@ -283,9 +473,142 @@ export function getMarketMeta(id: string): MarketMeta | null {
     category: row.category,
     endDate: row.end_date,
     fetchedAt: row.fetched_at,
+    slug: row.slug ?? undefined,
+    outcomes: parseJsonList(row.outcomes),
+    tokenIds: parseJsonList(row.token_ids),
+    status: row.status ?? undefined,
+    winningOutcome: row.winning_outcome ?? null,
+  };
+}
+
+// Traded markets to (re)enrich: no meta yet, or only a title-derived row (no outcomes from Gamma).
+// With `staleBefore`, unresolved markets fetched before that time are included too.
+export function listMarketsNeedingMeta(opts: { staleBefore?: number | null; limit?: number } = {}): string[] {
+  const rows = db.prepare(`
+    SELECT t.market_id, MAX(t.timestamp) as last_trade
+    FROM trades t
+    LEFT JOIN market_meta mm ON mm.id = t.market_id
+    WHERE mm.id IS NULL
+      OR mm.outcomes IS NULL
+      OR (? IS NOT NULL AND coalesce(mm.status, '') != 'resolved' AND mm.fetched_at < ?)
+    GROUP BY t.market_id
+    ORDER BY last_trade DESC
+    LIMIT ?
+  `).all(opts.staleBefore ?? null, opts.staleBefore ?? null, opts.limit ?? 500) as Array<{ market_id: string }>;
+  return rows.map((r) => r.market_id);
+}
+
+// ============ Market Resolution Operations ============
+
+function rowToResolution(r: any): MarketResolution {
+  return {
+    marketId: r.market_id,
+    status: r.status === 'resolved' ? 'resolved' : 'open',
+    winningOutcome: r.winning_outcome ?? null,
+    winningIndex: r.winning_index ?? null,
+    checkedAt: r.checked_at,
+    resolvedAt: r.resolved_at ?? null,
   };
 }
 
+export function saveMarketResolution(resolution: MarketResolution): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO market_resolutions (market_id, status, winning_outcome, winning_index, checked_at, resolved_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `).run(
+    resolution.marketId,
+    resolution.status,
+    resolution.winningOutcome,
+    resolution.winningIndex,
+    resolution.checkedAt,
+    resolution.resolvedAt
+  );
+}
+
+export function getMarketResolution(marketId: string): MarketResolution | null {
+  const row = db.prepare('SELECT * FROM market_resolutions WHERE market_id = ?').get(marketId) as any;
+  return row ? rowToResolution(row) : null;
+}
+
+// Traded markets never checked, or still open and last checked before `recheckBefore`; most-traded first.
+export function listMarketsNeedingResolution(recheckBefore: number, limit = 200): string[] {
+  const rows = db.prepare(`
+    SELECT t.market_id, COUNT(*) as trades
+    FROM trades t
+    LEFT JOIN market_resolutions r ON r.market_id = t.market_id
+    WHERE r.market_id IS NULL OR (r.status != 'resolved' AND r.checked_at < ?)
+    GROUP BY t.market_id
+    ORDER BY trades DESC
+    LIMIT ?
+  `).all(recheckBefore, limit) as Array<{ market_id: string }>;
+  return rows.map((r) => r.market_id);
+}
+
+// ============ Signature Tally Operations ============
+
+function rowToTally(r: any): SignatureTally {
+  return {
+    signatureHash: r.signature_hash,
+    label: r.label ?? undefined,
+    count: r.count,
+    wallets: JSON.parse(r.wallets),
+    markets: JSON.parse(r.markets),
+    // Tallies from before windowing keep their lifetime count as the baseline and start an empty window
+    totalCount: r.total_count ?? r.count,
+    recent: r.recent ? JSON.parse(r.recent) : [],
+    firstSeen: r.first_seen,
+    lastSeen: r.last_seen,
+    alertTriggered: r.alert_triggered === 1,
+    alertedAt: r.alerted_at ?? (r.alert_triggered === 1 ? r.last_seen : null),
+  };
+}
+
+export function getSignatureTally(hash: string): SignatureTally | null {
+  const row = db.prepare('SELECT * FROM signature_tallies WHERE signature_hash = ?').get(hash) as any;
+  return row ? rowToTally(row) : null;
+}
+
+export function saveSignatureTally(tally: SignatureTally): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO signature_tallies (signature_hash, label, count, wallets, markets, first_seen, last_seen, alert_triggered, total_count, recent, alerted_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    tally.signatureHash,
+    tally.label ?? null,
+    tally.count,
+    JSON.stringify(tally.wallets),
+    JSON.stringify(tally.markets),
+    tally.firstSeen,
+    tally.lastSeen,
+    tally.alertTriggered ? 1 : 0,
+    tally.totalCount,
+    JSON.stringify(tally.recent),
+    tally.alertedAt
+  );
+}
+
+// When tallying started (earliest first-seen of any signature); baselines are measured from here.
+export function getSignatureTallyStart(): number | null {
+  const row = db.prepare('SELECT MIN(first_seen) as start FROM signature_tallies').get() as { start: number | null };
+  return row.start ?? null;
+}
+
+export function getTopSignatureTallies(limit = 50): SignatureTally[] {
+  const rows = db.prepare(`
+    SELECT * FROM signature_tallies ORDER BY count DESC, last_seen DESC LIMIT ?
+  `).all(limit) as any[];
+  return rows.map(rowToTally);
+}
+
+// Alert times survive a rebuild so a pattern isn't raised again within its window.
+export function clearSignatureTallies(): Map<string, number> {
+  const alerted = db.prepare(`
+    SELECT signature_hash, COALESCE(alerted_at, last_seen) as alerted_at FROM signature_tallies WHERE alerted_at IS NOT NULL OR alert_triggered = 1
+  `).all() as Array<{ signature_hash: string; alerted_at: number }>;
+  db.exec('DELETE FROM signature_tallies');
+  return new Map(alerted.map((r) => [r.signature_hash, r.alerted_at]));
+}
+
 // ============ Alert Operations ============
 
 export function saveAlert(alert: ManipulationAlert): number {
@@ -1,6 +1,8 @@
 import { db } from './db.js';
-import { saveAlert } from './db.js';
-import { enrichWallet, enrichMarket } from './enrich.js';
+import { saveAlert, getTopSignatureTallies } from './db.js';
+import { enrichStoredMarkets } from './enrich.js';
+import { findWalletClusters, raiseClusterAlerts } from './clusters.js';
+import { scoreWallets } from './winrate.js';
 import type { ManipulationAlert } from './types.js';
 
 // ============ Detection Queries ============
@@ -124,14 +126,17 @@ async function runDetection() {
 
   // Check if we have enriched data
   const enrichedWallets = (db.prepare('SELECT COUNT(*) as c FROM wallet_profiles').get() as any).c;
-  const enrichedMarkets = (db.prepare('SELECT COUNT(*) as c FROM market_meta').get() as any).c;
 
   if (enrichedWallets === 0) {
     console.log('No wallet profiles yet. Run: npm run stream:enrich');
     return;
   }
 
-  console.log(`Working with ${enrichedWallets} enriched wallets, ${enrichedMarkets} enriched markets`);
+  // Fill market metadata the joins below need (only markets with none yet)
+  const filled = await enrichStoredMarkets();
+  const enrichedMarkets = (db.prepare('SELECT COUNT(*) as c FROM market_meta').get() as any).c;
+
+  console.log(`Working with ${enrichedWallets} enriched wallets, ${enrichedMarkets} enriched markets (${filled.enriched} just fetched)`);
   console.log();
 
   // 1. Fresh + Concentrated Wallets
@@ -193,6 +198,51 @@ async function runDetection() {
   }
   console.log();
 
+  // 5. Repeated signatures (tallied by the collector / stream:signatures)
+  console.log('━'.repeat(70));
+  console.log('REPEATED SIGNATURES (same trade shape across wallets and markets)');
+  console.log('━'.repeat(70));
+  const repeated = getTopSignatureTallies(200).filter((t) => t.alertTriggered).slice(0, 15);
+  if (repeated.length === 0) {
+    console.log('  None found');
+  } else {
+    for (const t of repeated) {
+      console.log(`  ${t.count} trades | ${t.wallets.length} wallets | ${t.markets.length} mkts | ${t.label ?? t.signatureHash}`);
+    }
+  }
+  console.log();
+
+  // 6. Coordinated clusters (wallets co-trading the same side within a minute)
+  console.log('━'.repeat(70));
+  console.log('COORDINATED CLUSTERS (co-trading graph, last 7 days)');
+  console.log('━'.repeat(70));
+  const { clusters } = findWalletClusters();
+  const raised = raiseClusterAlerts(clusters);
+  if (clusters.length === 0) {
+    console.log('  None found');
+  } else {
+    for (const c of clusters.slice(0, 15)) {
+      const q = c.markets[0]?.question?.slice(0, 35) || c.markets[0]?.marketId.slice(0, 15) || '?';
+      console.log(`  ${c.flagged ? '!' : ' '} ${c.wallets.length} wallets | score ${c.score.toFixed(2)} | ${c.coTrades} co-trades | ${c.markets.length} mkts | ${q}...`);
+    }
+    if (raised.length) console.log(`  (${raised.length} new COORDINATED_ACTIVITY alerts)`);
+  }
+  console.log();
+
+  // 7. Improbable success (from resolutions fetched by stream:winrate)
+  console.log('━'.repeat(70));
+  console.log('IMPROBABLE SUCCESS (win rate vs. entry-price odds)');
+  console.log('━'.repeat(70));
+  const improbable = scoreWallets().filter((s) => s.flagged);
+  if (improbable.length === 0) {
+    console.log('  None found');
+  } else {
+    for (const s of improbable.slice(0, 15)) {
+      console.log(`  ${s.wallet.slice(0, 12)}... | ${s.wins}/${s.resolvedPositions} won | expected ${s.expectedWins.toFixed(1)} | p ${s.pValue.toExponential(1)} | $${s.realizedPnl.toFixed(0)}`);
+    }
+  }
+  console.log();
+
   console.log('='.repeat(70));
   console.log('END REPORT');
   console.log('='.repeat(70));
@@ -1,4 +1,4 @@
-import { db } from './db.js';
+import { db, getMarketMeta, listMarketsNeedingMeta, saveMarketMeta, saveMarketResolution } from './db.js';
 import type { WalletProfile, MarketMeta } from './types.js';
 
 const DATA_API_BASE = 'https://data-api.polymarket.com';
@@ -80,67 +80,137 @@ export async function enrichWallet(address: string): Promise<WalletProfile | nul
 
 // ============ Market Enrichment ============
 
-// Fetch market info from Data API trades (they include title)
-export async function enrichMarket(conditionId: string): Promise<MarketMeta | null> {
-  try {
-    // Get a trade for this market to extract title/slug
-    const url = `${DATA_API_BASE}/trades?limit=1`;
-    const response = await fetch(url);
+// Default refresh age for unresolved markets in --stale mode; resolved markets are never refetched
+export const MARKET_META_TTL_MS = 6 * 60 * 60 * 1000;
+// Condition ids per Gamma request (repeated `condition_ids` params)
+const GAMMA_BATCH_SIZE = 20;
+
+export interface MarketEnrichResult {
+  requested: number;
+  enriched: number;
+  resolved: number;
+  missing: string[];
+  errors: number;
+}
 
-    if (!response.ok) {
-      return null;
-    }
+export function categoryFromSlug(slug: string): string {
+  const s = slug.toLowerCase();
+  if (s.startsWith('eth-') || s.startsWith('btc-')) return 'crypto';
+  if (s.startsWith('nhl-') || s.startsWith('nba-') || s.startsWith('nfl-')) return 'sports';
+  if (s.includes('trump') || s.includes('biden') || s.includes('election')) return 'politics';
+  if (s.includes('musk') || s.includes('elon')) return 'tech-personalities';
+  return 'uncategorized';
+}
 
-    // Can't easily get market info from condition ID
-    // The Data API trades include title, so we'll extract from there
-    return null;
-  } catch (err: any) {
-    return null;
+function parseList(raw: unknown): string[] {
+  if (Array.isArray(raw)) return raw.map(String);
+  if (typeof raw !== 'string' || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
   }
 }
 
-// Enrich markets from trade data we already have
-export async function enrichMarketsFromTrades(): Promise<number> {
-  // Get distinct market titles from recent trades via API
-  const url = `${DATA_API_BASE}/trades?limit=500`;
-  const response = await fetch(url);
+function gammaToMeta(data: any): MarketMeta {
+  const slug = typeof data.slug === 'string' ? data.slug : '';
+  const outcomes = parseList(data.outcomes);
+  const prices = parseList(data.outcomePrices).map(Number);
+  const winner = data.closed ? prices.findIndex((p) => p >= 0.99) : -1;
+  const category =
+    (typeof data.category === 'string' && data.category.trim()) ||
+    (typeof data.events?.[0]?.category === 'string' && data.events[0].category.trim()) ||
+    categoryFromSlug(slug);
+
+  return {
+    id: String(data.conditionId),
+    question: typeof data.question === 'string' && data.question ? data.question : 'Unknown',
+    category: category.toLowerCase(),
+    endDate: typeof data.endDate === 'string' ? data.endDate : '',
+    fetchedAt: Date.now(),
+    slug,
+    outcomes,
+    tokenIds: parseList(data.clobTokenIds),
+    status: winner >= 0 ? 'resolved' : data.closed ? 'closed' : 'open',
+    winningOutcome: winner >= 0 ? outcomes[winner] ?? String(winner) : null,
+  };
+}
 
-  if (!response.ok) {
-    console.error('[ENRICH] Failed to fetch trades for market enrichment');
-    return 0;
-  }
+async function fetchGammaBatch(conditionIds: string[], closed: boolean): Promise<any[]> {
+  const url = new URL(`${GAMMA_API_BASE}/markets`);
+  url.searchParams.set('limit', String(conditionIds.length));
+  if (closed) url.searchParams.set('closed', 'true');
+  for (const id of conditionIds) url.searchParams.append('condition_ids', id);
 
-  const trades = await response.json();
-  const marketMap = new Map<string, { title: string; slug: string }>();
+  const response = await fetch(url.toString(), { headers: { Accept: 'application/json' } });
+  if (!response.ok) throw new Error(`Gamma HTTP ${response.status}`);
+  const data = await response.json();
+  return Array.isArray(data) ? data : [];
+}
+
+// Looks condition ids up in Gamma in batches and stores question, category, end date, outcomes, token ids and
+// resolution status. Ids Gamma doesn't return among open markets are retried as closed ones.
+export async function enrichMarkets(conditionIds: string[]): Promise<MarketEnrichResult> {
+  const ids = Array.from(new Set(conditionIds.map((id) => id.trim()).filter(Boolean)));
+  const result: MarketEnrichResult = { requested: ids.length, enriched: 0, resolved: 0, missing: [], errors: 0 };
+
+  for (let i = 0; i < ids.length; i += GAMMA_BATCH_SIZE) {
+    const batch = ids.slice(i, i + GAMMA_BATCH_SIZE);
+    const found = new Map<string, any>();
+    try {
+      for (const closed of [false, true]) {
+        const pending = batch.filter((id) => !found.has(id.toLowerCase()));
+        if (!pending.length) break;
+        for (const m of await fetchGammaBatch(pending, closed)) {
+          if (typeof m?.conditionId === 'string') found.set(m.conditionId.toLowerCase(), m);
+        }
+        await sleep(DELAY_MS);
+      }
+    } catch (err: any) {
+      console.error(`[ENRICH] Gamma batch error:`, err.message);
+      result.errors++;
+      continue;
+    }
 
-  for (const t of trades) {
-    if (t.conditionId && t.title) {
-      marketMap.set(t.conditionId, {
-        title: t.title,
-        slug: t.slug || '',
+    for (const id of batch) {
+      const data = found.get(id.toLowerCase());
+      if (!data) {
+        result.missing.push(id);
+        continue;
+      }
+      const meta = gammaToMeta({ ...data, conditionId: id });
+      saveMarketMeta(meta);
+      saveMarketResolution({
+        marketId: id,
+        status: meta.status === 'resolved' ? 'resolved' : 'open',
+        winningOutcome: meta.winningOutcome ?? null,
+        winningIndex: meta.winningOutcome && meta.outcomes ? meta.outcomes.indexOf(meta.winningOutcome) : null,
+        checkedAt: meta.fetchedAt,
+        resolvedAt: meta.status === 'resolved' ? meta.fetchedAt : null,
       });
+      result.enriched++;
+      if (meta.status === 'resolved') result.resolved++;
     }
   }
 
-  const stmt = db.prepare(`
-    INSERT OR REPLACE INTO market_meta (id, question, category, end_date, fetched_at)
-    VALUES (?, ?, ?, ?, ?)
-  `);
-
-  let count = 0;
-  for (const [conditionId, info] of marketMap) {
-    // Extract category from slug (e.g., "eth-updown" -> "crypto", "nhl-" -> "sports")
-    let category = 'uncategorized';
-    if (info.slug.startsWith('eth-') || info.slug.startsWith('btc-')) category = 'crypto';
-    else if (info.slug.startsWith('nhl-') || info.slug.startsWith('nba-') || info.slug.startsWith('nfl-')) category = 'sports';
-    else if (info.slug.includes('trump') || info.slug.includes('biden') || info.slug.includes('election')) category = 'politics';
-    else if (info.slug.includes('musk') || info.slug.includes('elon')) category = 'tech-personalities';
-
-    stmt.run(conditionId, info.title, category, '', Date.now());
-    count++;
+  return result;
+}
+
+export async function enrichMarket(conditionId: string): Promise<MarketMeta | null> {
+  try {
+    await enrichMarkets([conditionId]);
+    return getMarketMeta(conditionId.trim());
+  } catch {
+    return null;
   }
+}
 
-  return count;
+// Markets seen in stored trades: those with no Gamma metadata, plus (with `stale`) unresolved ones older than the TTL.
+export async function enrichStoredMarkets(opts: { stale?: boolean; ttlMs?: number; limit?: number } = {}): Promise<MarketEnrichResult> {
+  const staleBefore = opts.stale ? Date.now() - (opts.ttlMs ?? MARKET_META_TTL_MS) : null;
+  const ids = listMarketsNeedingMeta({ staleBefore, limit: opts.limit ?? 500 });
+  return enrichMarkets(ids);
 }
 
 // ============ Batch Enrichment ============
@@ -171,24 +241,41 @@ export async function enrichNewWallets(limit = 50): Promise<number> {
   return enriched;
 }
 
-export async function enrichNewMarkets(limit = 50): Promise<number> {
-  console.log(`[ENRICH] Fetching market titles from recent trades...`);
-  const count = await enrichMarketsFromTrades();
-  console.log(`[ENRICH] Enriched ${count} markets from trade data`);
-  return count;
+export async function enrichNewMarkets(limit = 50, opts: { stale?: boolean; ttlMs?: number } = {}): Promise<number> {
+  console.log(`[ENRICH] Looking up ${opts.stale ? 'missing and stale' : 'missing'} market metadata in Gamma...`);
+  const result = await enrichStoredMarkets({ ...opts, limit });
+  console.log(`[ENRICH] Enriched ${result.enriched}/${result.requested} markets (${result.resolved} resolved, ${result.missing.length} not found, ${result.errors} failed batches)`);
+  return result.enriched;
 }
 
 // ============ Main ============
 
+// Usage: enrich.ts [wallets|markets|all] [--stale] [--limit N] [--ttl-hours H]
 async function main() {
+  const args = process.argv.slice(2);
+  const target = args[0] && !args[0].startsWith('--') ? args[0] : 'all';
+  const flag = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+  const limit = Number(flag('limit') ?? '100');
+  const ttlHours = Number(flag('ttl-hours'));
+  const stale = args.includes('--stale');
+
   console.log('='.repeat(60));
   console.log('ENRICHMENT: Fetching wallet ages and market metadata');
   console.log('='.repeat(60));
   console.log();
 
-  const walletCount = await enrichNewWallets(100);
-  console.log();
-  const marketCount = await enrichNewMarkets(100);
+  let walletCount = 0;
+  let marketCount = 0;
+  if (target === 'all' || target === 'wallets') {
+    walletCount = await enrichNewWallets(limit);
+    console.log();
+  }
+  if (target === 'all' || target === 'markets') {
+    marketCount = await enrichNewMarkets(limit, { stale, ttlMs: Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours * 60 * 60 * 1000 : undefined });
+  }
 
   console.log();
   console.log(`Done. Enriched ${walletCount} wallets, ${marketCount} markets.`);
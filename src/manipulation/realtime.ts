@@ -0,0 +1,341 @@
+import { getMarketMeta, getMarketWalletVolumes, getRecentAlerts, getWalletProfile, getWalletTradeSummary, saveAlert } from './db.js';
+import { enrichWallet } from './enrich.js';
+import { DEFAULT_SIGNATURE_THRESHOLDS, recordTradeSignature, type SignatureThresholds } from './signatures.js';
+import type { ManipulationAlert, StoredTrade, WalletProfile } from './types.js';
+
+// Incremental version of the batch report in detect.ts (patterns 1-4 of DETECTION_PATTERNS.md),
+// plus signature tallies for REPEATED_PATTERN (see signatures.ts).
+// State is warmed from the trades table the first time a wallet / market is touched, then updated per trade,
+// so a new trade is checked against the same aggregates the batch queries would see.
+
+export interface DetectorThresholds {
+  freshWalletDays: number;
+  freshMaxMarkets: number;
+  freshMinVolume: number;
+  freshMaxAvgPrice: number;
+  specialistMinVolume: number;
+  lowOddsMaxPrice: number;
+  lowOddsMinSize: number;
+  concentratedMarketMinVolume: number;
+  concentratedMarketMaxWallets: number;
+  // Anti-pattern: market makers / bots are not interesting
+  marketMakerMinTrades: number;
+  marketMakerMinMarkets: number;
+}
+
+export const DEFAULT_THRESHOLDS: DetectorThresholds = {
+  freshWalletDays: 30,
+  freshMaxMarkets: 5,
+  freshMinVolume: 1000,
+  freshMaxAvgPrice: 0.2,
+  specialistMinVolume: 500,
+  lowOddsMaxPrice: 0.1,
+  lowOddsMinSize: 100,
+  concentratedMarketMinVolume: 1000,
+  concentratedMarketMaxWallets: 3,
+  marketMakerMinTrades: 500,
+  marketMakerMinMarkets: 100,
+};
+
+export interface RealtimeDetectorOptions {
+  thresholds?: Partial<DetectorThresholds>;
+  cooldownMs?: number; // same type + wallet + market is alerted at most once per cooldown
+  stateTtlMs?: number; // idle wallets / markets are dropped and re-warmed from the DB on next touch
+  maxTracked?: number;
+  skipCategories?: string[];
+  signatureThresholds?: Partial<SignatureThresholds> | false; // false = don't tally signatures
+  enrichUnknownWallets?: boolean; // fetch a profile (wallet age) for unprofiled wallets making interesting buys
+  onAlert?: (alert: ManipulationAlert) => void;
+}
+
+interface WalletState {
+  profile: WalletProfile | null;
+  markets: Set<string>;
+  tradeCount: number;
+  buyCount: number;
+  buyVolume: number;
+  buyPriceSum: number;
+  buyVolumeByMarket: Map<string, number>;
+  lastTrade: StoredTrade | null;
+  touchedAt: number;
+}
+
+interface MarketState {
+  category: string | null;
+  question: string | null;
+  walletVolumes: Map<string, number>;
+  totalVolume: number;
+  touchedAt: number;
+}
+
+type Severity = ManipulationAlert['severity'];
+
+const SEVERITIES: Severity[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ENRICH_DELAY_MS = 100;
+const MAX_ENRICH_QUEUE = 200;
+
+function bump(severity: Severity): Severity {
+  return SEVERITIES[Math.min(SEVERITIES.length - 1, SEVERITIES.indexOf(severity) + 1)]!;
+}
+
+function shortAddr(addr: string): string {
+  return `${addr.slice(0, 10)}...`;
+}
+
+// Cooldown key: wallet-level alerts ignore the market, market-level alerts ignore the wallets.
+function alertKey(type: ManipulationAlert['type'], wallets: string[], markets: string[]): string {
+  const wallet = type === 'CONCENTRATED_MARKET' ? '' : wallets[0] ?? '';
+  const market = type === 'SUSPICIOUS_NEW_WALLET' ? '' : markets[0] ?? '';
+  return `${type}|${wallet}|${market}`;
+}
+
+export class RealtimeDetector {
+  private thresholds: DetectorThresholds;
+  private cooldownMs: number;
+  private stateTtlMs: number;
+  private maxTracked: number;
+  private skipCategories: Set<string>;
+  private signatureThresholds: SignatureThresholds | null;
+  private wallets = new Map<string, WalletState>();
+  private markets = new Map<string, MarketState>();
+  private lastAlertAt = new Map<string, number>();
+  private enrichQueue: string[] = [];
+  private enrichPending = new Set<string>();
+  private enriching = false;
+  private processed = 0;
+
+  constructor(private options: RealtimeDetectorOptions = {}) {
+    this.thresholds = { ...DEFAULT_THRESHOLDS, ...(options.thresholds ?? {}) };
+    this.cooldownMs = options.cooldownMs ?? 6 * 60 * 60 * 1000;
+    this.stateTtlMs = options.stateTtlMs ?? 6 * 60 * 60 * 1000;
+    this.maxTracked = options.maxTracked ?? 20_000;
+    this.skipCategories = new Set((options.skipCategories ?? ['crypto']).map((c) => c.toLowerCase()));
+    this.signatureThresholds = options.signatureThresholds === false ? null : { ...DEFAULT_SIGNATURE_THRESHOLDS, ...(options.signatureThresholds ?? {}) };
+
+    // Don't re-raise what a previous run already alerted on
+    const since = Date.now() - this.cooldownMs;
+    for (const a of getRecentAlerts(500)) {
+      if (a.createdAt < since) continue;
+      const key = alertKey(a.type, a.wallets, a.markets);
+      this.lastAlertAt.set(key, Math.max(this.lastAlertAt.get(key) ?? 0, a.createdAt));
+    }
+  }
+
+  // Call with trades that were just stored (they are already in the trades table), oldest first:
+  // state is warmed from trades up to the current one, and later trades of the batch are added as they come.
+  process(trade: StoredTrade): ManipulationAlert[] {
+    const now = Date.now();
+    const wallet = this.touchWallet(trade, now);
+    const market = this.touchMarket(trade, now);
+
+    if (++this.processed % 500 === 0) this.prune(now);
+
+    if (market.category && this.skipCategories.has(market.category.toLowerCase())) return [];
+
+    const alerts: ManipulationAlert[] = [];
+    alerts.push(...this.checkWalletPatterns(trade, wallet, market));
+
+    const concentrated = this.checkConcentratedMarket(trade, market);
+    if (concentrated) alerts.push(concentrated);
+
+    if (this.signatureThresholds) {
+      const recorded = recordTradeSignature(trade, market.category, this.signatureThresholds);
+      if (recorded?.alert) alerts.push(this.emit(recorded.alert));
+    }
+
+    if (!wallet.profile && trade.side === 'BUY' && trade.size >= this.thresholds.lowOddsMinSize) {
+      this.queueEnrichment(trade.wallet);
+    }
+
+    return alerts;
+  }
+
+  stats(): { wallets: number; markets: number; enrichQueue: number } {
+    return { wallets: this.wallets.size, markets: this.markets.size, enrichQueue: this.enrichQueue.length };
+  }
+
+  // ============ State ============
+
+  private touchWallet(trade: StoredTrade, now: number): WalletState {
+    let state = this.wallets.get(trade.wallet);
+    if (state) {
+      this.wallets.delete(trade.wallet);
+      state.markets.add(trade.marketId);
+      state.tradeCount++;
+      if (trade.side === 'BUY') {
+        state.buyCount++;
+        state.buyVolume += trade.size;
+        state.buyPriceSum += trade.price;
+        state.buyVolumeByMarket.set(trade.marketId, (state.buyVolumeByMarket.get(trade.marketId) ?? 0) + trade.size);
+      }
+    } else {
+      // Warm from the DB; the summary already includes this trade
+      const summary = getWalletTradeSummary(trade.wallet, trade);
+      state = {
+        profile: getWalletProfile(trade.wallet),
+        markets: new Set(summary.markets),
+        tradeCount: summary.tradeCount,
+        buyCount: summary.buyCount,
+        buyVolume: summary.buyVolume,
+        buyPriceSum: summary.buyPriceSum,
+        buyVolumeByMarket: new Map(Object.entries(summary.buyVolumeByMarket)),
+        lastTrade: null,
+        touchedAt: now,
+      };
+    }
+    state.lastTrade = trade;
+    state.touchedAt = now;
+    this.wallets.set(trade.wallet, state);
+    return state;
+  }
+
+  private touchMarket(trade: StoredTrade, now: number): MarketState {
+    let state = this.markets.get(trade.marketId);
+    if (state) {
+      this.markets.delete(trade.marketId);
+      state.walletVolumes.set(trade.wallet, (state.walletVolumes.get(trade.wallet) ?? 0) + trade.size);
+      state.totalVolume += trade.size;
+    } else {
+      const volumes = getMarketWalletVolumes(trade.marketId, trade);
+      const meta = getMarketMeta(trade.marketId);
+      state = {
+        category: meta?.category ?? null,
+        question: meta?.question ?? null,
+        walletVolumes: new Map(Object.entries(volumes)),
+        totalVolume: Object.values(volumes).reduce((sum, v) => sum + v, 0),
+        touchedAt: now,
+      };
+    }
+    if (!state.question && trade.title) state.question = trade.title;
+    state.touchedAt = now;
+    this.markets.set(trade.marketId, state);
+    return state;
+  }
+
+  // Maps iterate in insertion order and touches re-insert, so the oldest entries come first.
+  private prune(now: number): void {
+    for (const map of [this.wallets, this.markets] as Array<Map<string, { touchedAt: number }>>) {
+      for (const [key, state] of map) {
+        if (map.size <= this.maxTracked && now - state.touchedAt < this.stateTtlMs) break;
+        map.delete(key);
+      }
+    }
+    for (const [key, at] of this.lastAlertAt) {
+      if (now - at >= this.cooldownMs) this.lastAlertAt.delete(key);
+    }
+  }
+
+  // ============ Patterns ============
+
+  private checkWalletPatterns(trade: StoredTrade, wallet: WalletState, market: MarketState): ManipulationAlert[] {
+    const t = this.thresholds;
+    const profile = wallet.profile;
+    const uniqueMarkets = Math.max(profile?.uniqueMarkets ?? 0, wallet.markets.size);
+    const tradeCount = Math.max(profile?.tradeCount ?? 0, wallet.tradeCount);
+    if (tradeCount >= t.marketMakerMinTrades || uniqueMarkets >= t.marketMakerMinMarkets) return [];
+    if (trade.side !== 'BUY') return [];
+
+    const alerts: ManipulationAlert[] = [];
+    const label = (market.question || trade.marketId).slice(0, 60);
+    const ageDays = profile ? (Date.now() - profile.firstSeen) / DAY_MS : null;
+    const fresh = ageDays !== null && ageDays < t.freshWalletDays;
+
+    // Pattern 1: fresh concentrated wallet buying low
+    const totalVolume = Math.max(profile?.totalVolume ?? 0, wallet.buyVolume);
+    const avgPrice = wallet.buyCount ? wallet.buyPriceSum / wallet.buyCount : 1;
+    if (fresh && uniqueMarkets <= t.freshMaxMarkets && totalVolume > t.freshMinVolume && avgPrice < t.freshMaxAvgPrice) {
+      const severity: Severity = totalVolume >= 50_000 ? 'CRITICAL' : totalVolume >= 10_000 ? 'HIGH' : 'MEDIUM';
+      const alert = this.raise('SUSPICIOUS_NEW_WALLET', severity, [trade.wallet], [...wallet.markets],
+        `Fresh concentrated wallet ${shortAddr(trade.wallet)}: ${ageDays!.toFixed(1)} days old, ${uniqueMarkets} markets, $${totalVolume.toFixed(0)} volume, avg buy ${(avgPrice * 100).toFixed(1)}% (latest: $${trade.size.toFixed(0)} ${trade.outcome} @ ${(trade.price * 100).toFixed(1)}% on ${label})`);
+      if (alert) alerts.push(alert);
+    }
+
+    // Pattern 2: single-market specialist (needs a profile; our own trades only show part of the history)
+    const marketBuyVolume = wallet.buyVolumeByMarket.get(trade.marketId) ?? 0;
+    if (profile && uniqueMarkets === 1 && marketBuyVolume > t.specialistMinVolume) {
+      let severity: Severity = marketBuyVolume >= 10_000 ? 'HIGH' : marketBuyVolume >= 2_000 ? 'MEDIUM' : 'LOW';
+      if (fresh) severity = bump(severity);
+      const alert = this.raise('SINGLE_MARKET_SPECIALIST', severity, [trade.wallet], [trade.marketId],
+        `Single-market specialist ${shortAddr(trade.wallet)}: $${marketBuyVolume.toFixed(0)} bought on ${label}${ageDays !== null ? ` (${ageDays.toFixed(1)} days old)` : ''}`);
+      if (alert) alerts.push(alert);
+    }
+
+    // Pattern 3: low-odds buyer with meaningful size
+    if (trade.price < t.lowOddsMaxPrice && trade.size > t.lowOddsMinSize) {
+      const veryLow = trade.price < 0.05;
+      const large = trade.size >= 1000;
+      let severity: Severity = veryLow && large ? 'HIGH' : veryLow || large ? 'MEDIUM' : 'LOW';
+      if (fresh) severity = bump(severity);
+      const alert = this.raise('LOW_ODDS_BUYER', severity, [trade.wallet], [trade.marketId],
+        `Low-odds buy by ${shortAddr(trade.wallet)}: $${trade.size.toFixed(0)} ${trade.outcome} @ ${(trade.price * 100).toFixed(1)}% on ${label}${ageDays !== null ? ` (${ageDays.toFixed(1)} days old, ${uniqueMarkets} markets)` : ''}`);
+      if (alert) alerts.push(alert);
+    }
+
+    return alerts;
+  }
+
+  // Pattern 4: few wallets dominating a market's volume
+  private checkConcentratedMarket(trade: StoredTrade, market: MarketState): ManipulationAlert | null {
+    const t = this.thresholds;
+    const walletCount = market.walletVolumes.size;
+    if (market.totalVolume <= t.concentratedMarketMinVolume || walletCount > t.concentratedMarketMaxWallets) return null;
+
+    const wallets = [...market.walletVolumes.entries()].sort((a, b) => b[1] - a[1]).map(([w]) => w);
+    const severity: Severity = market.totalVolume >= 10_000 ? 'HIGH' : 'MEDIUM';
+    const label = (market.question || trade.marketId).slice(0, 60);
+    return this.raise('CONCENTRATED_MARKET', severity, wallets, [trade.marketId],
+      `Concentrated market: ${walletCount} wallet${walletCount === 1 ? '' : 's'} behind all $${market.totalVolume.toFixed(0)} traded on ${label}`);
+  }
+
+  private raise(type: ManipulationAlert['type'], severity: Severity, wallets: string[], markets: string[], details: string): ManipulationAlert | null {
+    const now = Date.now();
+    const key = alertKey(type, wallets, markets);
+    const last = this.lastAlertAt.get(key);
+    if (last !== undefined && now - last < this.cooldownMs) return null;
+    this.lastAlertAt.set(key, now);
+
+    return this.emit({ type, severity, wallets, markets, details, createdAt: now, reviewed: false });
+  }
+
+  private emit(alert: ManipulationAlert): ManipulationAlert {
+    alert.id = saveAlert(alert);
+    this.options.onAlert?.(alert);
+    return alert;
+  }
+
+  // ============ Enrichment ============
+
+  private queueEnrichment(wallet: string): void {
+    if (this.options.enrichUnknownWallets === false) return;
+    if (this.enrichPending.has(wallet) || this.enrichQueue.length >= MAX_ENRICH_QUEUE) return;
+    this.enrichPending.add(wallet);
+    this.enrichQueue.push(wallet);
+    void this.drainEnrichment();
+  }
+
+  // One wallet at a time; once a profile arrives the wallet's latest trade is checked again with its age.
+  private async drainEnrichment(): Promise<void> {
+    if (this.enriching) return;
+    this.enriching = true;
+    try {
+      while (this.enrichQueue.length) {
+        const address = this.enrichQueue.shift()!;
+        const profile = await enrichWallet(address).catch(() => null);
+        this.enrichPending.delete(address);
+        const wallet = this.wallets.get(address);
+        if (profile && wallet) {
+          wallet.profile = profile;
+          const trade = wallet.lastTrade;
+          const market = trade ? this.markets.get(trade.marketId) : undefined;
+          if (trade && market && !(market.category && this.skipCategories.has(market.category.toLowerCase()))) {
+            this.checkWalletPatterns(trade, wallet, market);
+          }
+        }
+        await new Promise((resolve) => setTimeout(resolve, ENRICH_DELAY_MS));
+      }
+    } finally {
+      this.enriching = false;
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import { createHash } from 'node:crypto';
+import { db, getSignatureTally, getSignatureTallyStart, saveSignatureTally, clearSignatureTallies, getTopSignatureTallies, saveAlert } from './db.js';
+import type { ManipulationAlert, SignatureTally, StoredTrade } from './types.js';
+
+// Trade signatures: each trade is bucketed (side, outcome, price band, size band, UTC time of day, market category)
+// and hashed. The same hash recurring across several wallets and markets is the REPEATED_PATTERN signal,
+// e.g. a ring placing $1-10K low-odds YES buys in the same evening window on different political markets.
+// Counts cover a trailing window, and a bucket only alerts when its window is well above its own usual rate:
+// busy retail buckets clear the count thresholds every window and are not a pattern.
+
+export interface SignatureThresholds {
+  minCount: number;
+  minWallets: number;
+  minMarkets: number;
+  minTradeSize: number;     // smaller trades are not tallied (dust and retail noise)
+  windowMs: number;         // counts, wallets and markets cover this trailing window; an alert re-arms after one
+  baselineMultiple: number; // window count must be this many times the bucket's average per window (0 = no baseline)
+  warmupMs: number;         // tallying history needed before any baseline (and so any alert) counts
+}
+
+export const DEFAULT_SIGNATURE_THRESHOLDS: SignatureThresholds = {
+  minCount: 5,
+  minWallets: 3,
+  minMarkets: 2,
+  minTradeSize: 100,
+  // A day, so a bucket (which includes the time of day) is compared with its usual day rather than with hours it can't occur in
+  windowMs: 24 * 60 * 60 * 1000,
+  baselineMultiple: 3,
+  warmupMs: 48 * 60 * 60 * 1000,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function envNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw == null || raw.trim() === '') return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`${name} must be a non-negative number`);
+  return n;
+}
+
+// TT_SIGNATURE_* overrides for the collector and stream:signatures (hours for the time settings).
+export function signatureThresholdsFromEnv(): SignatureThresholds {
+  const hours = (name: string) => {
+    const n = envNumber(name);
+    return n == null ? undefined : n * HOUR_MS;
+  };
+  const overrides: Partial<SignatureThresholds> = {
+    minCount: envNumber('TT_SIGNATURE_MIN_COUNT'),
+    minWallets: envNumber('TT_SIGNATURE_MIN_WALLETS'),
+    minMarkets: envNumber('TT_SIGNATURE_MIN_MARKETS'),
+    minTradeSize: envNumber('TT_SIGNATURE_MIN_TRADE_SIZE'),
+    windowMs: hours('TT_SIGNATURE_WINDOW_HOURS'),
+    baselineMultiple: envNumber('TT_SIGNATURE_BASELINE_MULTIPLE'),
+    warmupMs: hours('TT_SIGNATURE_WARMUP_HOURS'),
+  };
+  const thresholds = { ...DEFAULT_SIGNATURE_THRESHOLDS };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value != null) (thresholds as Record<string, number>)[key] = value;
+  }
+  if (!(thresholds.windowMs > 0)) throw new Error('TT_SIGNATURE_WINDOW_HOURS must be > 0');
+  return thresholds;
+}
+
+export interface TradeSignature {
+  hash: string;
+  label: string;
+  side: string;
+  outcome: string;
+  priceBand: string;
+  sizeBand: string;
+  timeBand: string;
+  category: string;
+}
+
+const PRICE_EDGES = [0, 0.05, 0.1, 0.2, 0.4, 0.6, 0.8, 0.9, 0.95];
+const SIZE_BANDS: Array<{ max: number; label: string }> = [
+  { max: 10, label: '$0-10' },
+  { max: 100, label: '$10-100' },
+  { max: 1_000, label: '$100-1K' },
+  { max: 10_000, label: '$1K-10K' },
+  { max: Infinity, label: '$10K+' },
+];
+const TIME_BLOCK_HOURS = 4;
+// Tallies keep at most this many of the window's trades
+const MAX_TRACKED = 500;
+
+export function priceBand(price: number): string {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < PRICE_EDGES.length; i++) {
+    if (price >= PRICE_EDGES[i]!) {
+      lo = PRICE_EDGES[i]!;
+      hi = PRICE_EDGES[i + 1] ?? 1;
+    }
+  }
+  return `${Math.round(lo * 100)}-${Math.round(hi * 100)}%`;
+}
+
+export function sizeBand(size: number): string {
+  return SIZE_BANDS.find((b) => size < b.max)?.label ?? SIZE_BANDS[SIZE_BANDS.length - 1]!.label;
+}
+
+export function timeBand(timestamp: number): string {
+  const start = Math.floor(new Date(timestamp).getUTCHours() / TIME_BLOCK_HOURS) * TIME_BLOCK_HOURS;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(start)}-${pad(start + TIME_BLOCK_HOURS)}h UTC`;
+}
+
+export function tradeSignature(trade: StoredTrade, category: string | null | undefined): TradeSignature {
+  const side = trade.side.toUpperCase();
+  const outcome = (trade.outcome || 'YES').toUpperCase();
+  const parts = {
+    side,
+    outcome,
+    priceBand: priceBand(trade.price),
+    sizeBand: sizeBand(trade.size),
+    timeBand: timeBand(trade.timestamp),
+    category: (category || 'uncategorized').toLowerCase(),
+  };
+  const key = [parts.side, parts.outcome, parts.priceBand, parts.sizeBand, parts.timeBand, parts.category].join('|');
+  return {
+    hash: createHash('sha256').update(key).digest('hex').slice(0, 16),
+    label: `${side} ${outcome} · ${parts.priceBand} · ${parts.sizeBand} · ${parts.timeBand} · ${parts.category}`,
+    ...parts,
+  };
+}
+
+function emptyTally(signature: TradeSignature, timestamp: number): SignatureTally {
+  return {
+    signatureHash: signature.hash,
+    label: signature.label,
+    count: 0,
+    wallets: [],
+    markets: [],
+    totalCount: 0,
+    recent: [],
+    firstSeen: timestamp,
+    lastSeen: timestamp,
+    alertTriggered: false,
+    alertedAt: null,
+  };
+}
+
+// Slides the window to `trade` and adds it; trades are expected oldest first.
+function addTrade(tally: SignatureTally, trade: StoredTrade, windowMs: number): void {
+  const from = trade.timestamp - windowMs;
+  tally.recent = tally.recent.filter(([at]) => at > from);
+  tally.recent.push([trade.timestamp, trade.wallet, trade.marketId]);
+  if (tally.recent.length > MAX_TRACKED) tally.recent.splice(0, tally.recent.length - MAX_TRACKED);
+  tally.count = tally.recent.length;
+  tally.wallets = [...new Set(tally.recent.map(([, wallet]) => wallet))];
+  tally.markets = [...new Set(tally.recent.map(([, , market]) => market))];
+  tally.totalCount++;
+  tally.firstSeen = Math.min(tally.firstSeen, trade.timestamp);
+  tally.lastSeen = Math.max(tally.lastSeen, trade.timestamp);
+  // An alert covers one window; after that the bucket may alert again
+  tally.alertTriggered = tally.alertedAt != null && trade.timestamp - tally.alertedAt < windowMs;
+}
+
+// Average trades per window before the current one, or null while tallying is younger than the warm-up.
+function baselinePerWindow(tally: SignatureTally, thresholds: SignatureThresholds, since: number | null): number | null {
+  const windowStart = tally.lastSeen - thresholds.windowMs;
+  if (since == null || windowStart - since < thresholds.warmupMs) return null;
+  const windows = Math.max(1, (windowStart - since) / thresholds.windowMs);
+  return (tally.totalCount - tally.count) / windows;
+}
+
+function crosses(tally: SignatureTally, thresholds: SignatureThresholds, since: number | null): boolean {
+  if (tally.count < thresholds.minCount || tally.wallets.length < thresholds.minWallets || tally.markets.length < thresholds.minMarkets) return false;
+  if (thresholds.baselineMultiple <= 0) return true;
+  const baseline = baselinePerWindow(tally, thresholds, since);
+  return baseline != null && tally.count >= thresholds.baselineMultiple * baseline;
+}
+
+function repeatedPatternAlert(
+  tally: SignatureTally,
+  signature: Pick<TradeSignature, 'label' | 'priceBand'>,
+  thresholds: SignatureThresholds,
+  since: number | null
+): ManipulationAlert {
+  const lowOdds = signature.priceBand.startsWith('0-') || signature.priceBand.startsWith('5-');
+  const baseline = baselinePerWindow(tally, thresholds, since);
+  const hours = Math.round((thresholds.windowMs / HOUR_MS) * 10) / 10;
+  return {
+    type: 'REPEATED_PATTERN',
+    severity: lowOdds || tally.wallets.length >= 10 ? 'HIGH' : 'MEDIUM',
+    signatureHash: tally.signatureHash,
+    wallets: tally.wallets.slice(0, 50),
+    markets: tally.markets.slice(0, 50),
+    details: `Repeated trade signature ${signature.label}: ${tally.count} trades by ${tally.wallets.length} wallets in ${tally.markets.length} markets within ${hours}h${baseline != null ? ` (usually ${baseline.toFixed(1)})` : ''}`,
+    createdAt: Date.now(),
+    reviewed: false,
+  };
+}
+
+function markAlerted(tally: SignatureTally): void {
+  tally.alertTriggered = true;
+  tally.alertedAt = tally.lastSeen;
+}
+
+// Tallies one new trade. Returns the (unsaved) alert when the signature's window crosses the thresholds;
+// the tally is then marked alerted, so it is raised at most once per window.
+export function recordTradeSignature(
+  trade: StoredTrade,
+  category: string | null | undefined,
+  thresholds: SignatureThresholds = DEFAULT_SIGNATURE_THRESHOLDS
+): { signature: TradeSignature; tally: SignatureTally; alert: ManipulationAlert | null } | null {
+  if (trade.size < thresholds.minTradeSize) return null;
+
+  const signature = tradeSignature(trade, category);
+  const since = getSignatureTallyStart() ?? trade.timestamp;
+  const tally: SignatureTally = getSignatureTally(signature.hash) ?? emptyTally(signature, trade.timestamp);
+  addTrade(tally, trade, thresholds.windowMs);
+
+  let alert: ManipulationAlert | null = null;
+  if (!tally.alertTriggered && crosses(tally, thresholds, since)) {
+    alert = repeatedPatternAlert(tally, signature, thresholds, since);
+    markAlerted(tally);
+  }
+  saveSignatureTally(tally);
+  return { signature, tally, alert };
+}
+
+// Recounts every stored trade from scratch (for tallies predating the collector hook, or after changing bands).
+// Windows slide over the whole history, but only each signature's latest window can alert.
+export function rebuildSignatureTallies(
+  thresholds: SignatureThresholds = DEFAULT_SIGNATURE_THRESHOLDS,
+  opts: { skipCategories?: string[] } = {}
+): { trades: number; signatures: number; alerts: ManipulationAlert[] } {
+  const skip = new Set((opts.skipCategories ?? ['crypto']).map((c) => c.toLowerCase()));
+  const rows = db.prepare(`
+    SELECT t.*, mm.category
+    FROM trades t
+    LEFT JOIN market_meta mm ON t.market_id = mm.id
+    WHERE t.size >= ?
+    ORDER BY t.timestamp ASC, t.id ASC
+  `).iterate(thresholds.minTradeSize) as Iterable<any>;
+
+  const tallies = new Map<string, { tally: SignatureTally; signature: TradeSignature }>();
+  let trades = 0;
+  let since: number | null = null;
+  for (const r of rows) {
+    if (r.category && skip.has(String(r.category).toLowerCase())) continue;
+    const trade: StoredTrade = {
+      id: r.id,
+      timestamp: r.timestamp,
+      marketId: r.market_id,
+      wallet: r.wallet,
+      side: r.side,
+      outcome: r.outcome,
+      size: r.size,
+      price: r.price,
+    };
+    since ??= trade.timestamp;
+    const signature = tradeSignature(trade, r.category);
+    let entry = tallies.get(signature.hash);
+    if (!entry) {
+      entry = { signature, tally: emptyTally(signature, trade.timestamp) };
+      tallies.set(signature.hash, entry);
+    }
+    addTrade(entry.tally, trade, thresholds.windowMs);
+    trades++;
+  }
+
+  const alerts: ManipulationAlert[] = [];
+  const rebuild = db.transaction(() => {
+    const alerted = clearSignatureTallies();
+    for (const { tally, signature } of tallies.values()) {
+      tally.alertedAt = alerted.get(tally.signatureHash) ?? null;
+      tally.alertTriggered = tally.alertedAt != null && tally.lastSeen - tally.alertedAt < thresholds.windowMs;
+      if (!tally.alertTriggered && crosses(tally, thresholds, since)) {
+        const alert = repeatedPatternAlert(tally, signature, thresholds, since);
+        alert.id = saveAlert(alert);
+        alerts.push(alert);
+        markAlerted(tally);
+      }
+      saveSignatureTally(tally);
+    }
+  });
+  rebuild();
+
+  return { trades, signatures: tallies.size, alerts };
+}
+
+// ============ Main ============
+
+// Flags override TT_SIGNATURE_*: --min-count N --min-wallets N --min-markets N --min-size N
+// --window-hours H --baseline X --warmup-hours H
+function thresholdsFromArgs(args: string[]): SignatureThresholds {
+  const thresholds = signatureThresholdsFromEnv();
+  const flags: Array<[string, keyof SignatureThresholds, number]> = [
+    ['min-count', 'minCount', 1],
+    ['min-wallets', 'minWallets', 1],
+    ['min-markets', 'minMarkets', 1],
+    ['min-size', 'minTradeSize', 1],
+    ['window-hours', 'windowMs', HOUR_MS],
+    ['baseline', 'baselineMultiple', 1],
+    ['warmup-hours', 'warmupMs', HOUR_MS],
+  ];
+  for (const [flag, key, scale] of flags) {
+    const i = args.indexOf(`--${flag}`);
+    if (i < 0) continue;
+    const n = Number(args[i + 1]);
+    if (!Number.isFinite(n) || n < 0) throw new Error(`--${flag} must be a non-negative number`);
+    thresholds[key] = n * scale;
+  }
+  if (!(thresholds.windowMs > 0)) throw new Error('--window-hours must be > 0');
+  return thresholds;
+}
+
+function main() {
+  console.log('='.repeat(60));
+  console.log('SIGNATURE TALLIES: rebuilding from stored trades');
+  console.log('='.repeat(60));
+
+  const thresholds = thresholdsFromArgs(process.argv.slice(2));
+  console.log(`${thresholds.minCount} trades / ${thresholds.minWallets} wallets / ${thresholds.minMarkets} markets within ${thresholds.windowMs / HOUR_MS}h, ${thresholds.baselineMultiple}x baseline`);
+  const result = rebuildSignatureTallies(thresholds);
+  console.log(`Tallied ${result.trades} trades into ${result.signatures} signatures, ${result.alerts.length} new alerts`);
+  for (const a of result.alerts) console.log(`  [ALERT] ${a.severity} ${a.details}`);
+  console.log();
+
+  console.log('TOP SIGNATURES');
+  console.log('-'.repeat(60));
+  for (const t of getTopSignatureTallies(15)) {
+    console.log(`  ${String(t.count).padStart(5)} | ${String(t.wallets.length).padStart(3)} wallets | ${String(t.markets.length).padStart(3)} mkts | ${t.alertTriggered ? '!' : ' '} ${t.label ?? t.signatureHash}`);
+  }
+}
+
+const isMainModule = process.argv[1]?.endsWith('signatures.ts') || process.argv[1]?.endsWith('signatures.js');
+if (isMainModule) {
+  main();
+}
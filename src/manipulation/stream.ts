@@ -1,47 +1,10 @@
-import { saveTrades, getStats, saveMarketMeta, getMarketMeta, getTradeCount } from './db.js';
-import type { StoredTrade, MarketMeta } from './types.js';
+import { saveNewTrades, getStats, getMarketMeta, getTradeCount } from './db.js';
+import { enrichMarkets } from './enrich.js';
+import { RealtimeDetector } from './realtime.js';
+import { signatureThresholdsFromEnv } from './signatures.js';
+import type { StoredTrade } from './types.js';
 
 const DATA_API_BASE = 'https://data-api.polymarket.com';
-const GAMMA_API_BASE = 'https://gamma-api.polymarket.com';
-
-// Market metadata cache to avoid repeated fetches
-const marketCache = new Map<string, MarketMeta>();
-
-async function fetchMarketMeta(marketId: string): Promise<MarketMeta | null> {
-  // Check memory cache
-  if (marketCache.has(marketId)) {
-    return marketCache.get(marketId)!;
-  }
-
-  // Check DB cache
-  const cached = getMarketMeta(marketId);
-  if (cached && Date.now() - cached.fetchedAt < 24 * 60 * 60 * 1000) {
-    marketCache.set(marketId, cached);
-    return cached;
-  }
-
-  // Fetch from API
-  try {
-    const response = await fetch(`${GAMMA_API_BASE}/markets/${marketId}`);
-    if (!response.ok) return null;
-
-    const data = await response.json();
-    const meta: MarketMeta = {
-      id: marketId,
-      question: data.question || 'Unknown',
-      category: data.category || 'uncategorized',
-      endDate: data.endDate || '',
-      fetchedAt: Date.now(),
-    };
-
-    saveMarketMeta(meta);
-    marketCache.set(marketId, meta);
-    return meta;
-  } catch {
-    return null;
-  }
-}
-
 // Trade from Data API /trades endpoint
 interface DataAPITrade {
   proxyWallet: string;
@@ -128,16 +91,30 @@ export class TradeCollector {
       return;
     }
 
-    // Save trades (duplicates are ignored via INSERT OR IGNORE)
-    const newCount = saveTrades(trades);
+    // Save trades (duplicates are ignored via INSERT OR IGNORE); only new ones go to the callback
+    const newTrades = saveNewTrades(trades);
+    const newCount = newTrades.length;
 
     if (newCount > 0) {
       this.totalTrades += newCount;
       const elapsed = (Date.now() - this.startTime) / 1000 / 60;
       console.log(`[COLLECTOR] +${newCount} new trades (${this.totalTrades} total, ${elapsed.toFixed(1)} min running)`);
 
+      // Metadata for first-seen markets before detection, so categories and questions are there
+      const unknownMarkets = Array.from(new Set(newTrades.map((t) => t.marketId))).filter((id) => !getMarketMeta(id));
+      if (unknownMarkets.length) {
+        try {
+          await enrichMarkets(unknownMarkets);
+        } catch (err: any) {
+          console.error('[COLLECTOR] Market enrichment failed:', err.message);
+        }
+      }
+
+      // The Data API lists newest first; the detector expects trades in (timestamp, id) order
+      newTrades.sort((a, b) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
       // Check for whales in new trades
-      for (const t of trades) {
+      for (const t of newTrades) {
         if (t.size >= 5000) {
           console.log(`  [WHALE] $${t.size.toFixed(0)} ${t.side} ${t.outcome} by ${t.wallet.slice(0, 10)}...`);
         }
@@ -188,8 +165,19 @@ export async function startStreaming(): Promise<void> {
   const initialStats = getStats();
   console.log(`[DB] Starting with ${initialStats.trades} trades, ${initialStats.wallets} wallets, ${initialStats.markets} markets`);
 
+  const detector = new RealtimeDetector({
+    signatureThresholds: signatureThresholdsFromEnv(),
+    onAlert: (alert) => {
+      console.log(`  [ALERT] ${alert.severity} ${alert.type}: ${alert.details}`);
+    },
+  });
+
   const collector = new TradeCollector((trade) => {
-    // Could add real-time pattern detection here later
+    try {
+      detector.process(trade);
+    } catch (err: any) {
+      console.error('[DETECT] Error:', err.message);
+    }
   });
 
   // Handle graceful shutdown
@@ -37,7 +37,7 @@ export interface WalletProfile {
   uniqueMarkets: number;
   totalVolume: number;
   avgTradeSize: number;
-  // Computed later once we have resolution data
+  // Scored from resolved markets (winrate.ts)
   winRate?: number;
   resolvedPositions?: number;
 }
@@ -49,23 +49,50 @@ export interface MarketMeta {
   category: string;
   endDate: string;
   fetchedAt: number;
+  // Filled by the Gamma enricher; title-only rows leave them unset
+  slug?: string;
+  outcomes?: string[];
+  tokenIds?: string[];
+  status?: 'open' | 'closed' | 'resolved';
+  winningOutcome?: string | null;
+}
+
+// Resolution of a traded market (keyed by condition id)
+export interface MarketResolution {
+  marketId: string;
+  status: 'resolved' | 'open';
+  winningOutcome: string | null;
+  winningIndex: number | null;
+  checkedAt: number;
+  resolvedAt: number | null;
 }
 
 // Signature tally for pattern detection (Phase 2)
 export interface SignatureTally {
   signatureHash: string;
-  count: number;
-  wallets: string[];
-  markets: string[];
+  label?: string;           // human-readable buckets behind the hash
+  count: number;            // trades in the trailing window
+  wallets: string[];        // distinct wallets in the window
+  markets: string[];        // distinct markets in the window
+  totalCount: number;       // every trade ever tallied (baseline)
+  recent: Array<[timestamp: number, wallet: string, market: string]>; // the window's trades, oldest first
   firstSeen: number;
   lastSeen: number;
-  alertTriggered: boolean;
+  alertTriggered: boolean;  // alerted within the last window
+  alertedAt: number | null; // trade time of the last alert
 }
 
 // Alert when pattern detected
 export interface ManipulationAlert {
   id?: number;
-  type: 'REPEATED_PATTERN' | 'COORDINATED_ACTIVITY' | 'SUSPICIOUS_NEW_WALLET' | 'IMPROBABLE_SUCCESS';
+  type:
+    | 'REPEATED_PATTERN'
+    | 'COORDINATED_ACTIVITY'
+    | 'SUSPICIOUS_NEW_WALLET'
+    | 'IMPROBABLE_SUCCESS'
+    | 'SINGLE_MARKET_SPECIALIST'
+    | 'LOW_ODDS_BUYER'
+    | 'CONCENTRATED_MARKET';
   severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   signatureHash?: string;
   wallets: string[];
@@ -0,0 +1,228 @@
+import { db, getRecentAlerts, listMarketsNeedingResolution, saveAlert, saveMarketResolution, setWalletWinRate } from './db.js';
+import { enrichMarkets } from './enrich.js';
+import type { ManipulationAlert } from './types.js';
+
+// Pattern 6 (win-rate anomaly): rebuild each wallet's net position per resolved market from stored trades,
+// settle it against the winning outcome, then ask how likely the record is if every entry price had been
+// the true probability. Data API trade sizes are outcome shares, so a share bought at p costs p and pays 1 or 0.
+
+export interface ScoredPosition {
+  marketId: string;
+  outcome: string;      // the outcome held into resolution (largest net share count)
+  shares: number;
+  avgEntry: number;     // average buy price of that outcome = implied probability at entry
+  won: boolean;
+  pnl: number;          // settlement + sell proceeds - buy cost, over all outcomes traded in the market
+}
+
+export interface WalletScore {
+  wallet: string;
+  resolvedPositions: number;
+  wins: number;
+  winRate: number;
+  realizedPnl: number;
+  invested: number;
+  expectedWins: number; // sum of entry prices
+  pValue: number;       // P(at least `wins` wins | entry prices were fair odds)
+  zScore: number;
+  flagged: boolean;
+  positions: ScoredPosition[];
+}
+
+export interface ScoreOptions {
+  wallet?: string;
+  minResolved?: number;
+  alpha?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Entry prices are clamped so a 99.9c buy doesn't make a win certain (or a 0.1c buy make one impossible)
+const MIN_PROB = 0.01;
+const MAX_PROB = 0.99;
+
+function sameOutcome(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+// Upper tail of a Poisson-binomial: P(X >= k) for independent Bernoulli(p_i).
+export function probabilityAtLeast(probabilities: number[], k: number): number {
+  let dist = [1];
+  for (const p of probabilities) {
+    const next = new Array<number>(dist.length + 1).fill(0);
+    for (let i = 0; i < dist.length; i++) {
+      next[i]! += dist[i]! * (1 - p);
+      next[i + 1]! += dist[i]! * p;
+    }
+    dist = next;
+  }
+  let tail = 0;
+  for (let i = Math.max(0, k); i < dist.length; i++) tail += dist[i]!;
+  return Math.min(1, tail);
+}
+
+// ============ Resolutions ============
+
+// Asks Gamma (in batches, via the market enricher) about traded markets with no resolution on file,
+// or open ones not checked for `recheckMs`. Markets Gamma doesn't know are marked checked so they wait a cycle.
+export async function refreshMarketResolutions(opts: { limit?: number; recheckMs?: number } = {}): Promise<{ checked: number; resolved: number; errors: number }> {
+  const ids = listMarketsNeedingResolution(Date.now() - (opts.recheckMs ?? 6 * 60 * 60 * 1000), opts.limit ?? 200);
+  const result = await enrichMarkets(ids);
+  for (const marketId of result.missing) {
+    saveMarketResolution({ marketId, status: 'open', winningOutcome: null, winningIndex: null, checkedAt: Date.now(), resolvedAt: null });
+  }
+  return { checked: result.requested, resolved: result.resolved, errors: result.errors };
+}
+
+// ============ Scoring ============
+
+export function scoreWallets(options: ScoreOptions = {}): WalletScore[] {
+  const minResolved = options.minResolved ?? 5;
+  const alpha = options.alpha ?? 0.001;
+
+  const rows = db.prepare(`
+    SELECT t.wallet, t.market_id, t.outcome, t.side,
+      SUM(t.size) as shares,
+      SUM(t.size * t.price) as notional,
+      r.winning_outcome
+    FROM trades t
+    JOIN market_resolutions r ON r.market_id = t.market_id AND r.status = 'resolved'
+    WHERE (? IS NULL OR t.wallet = ?)
+    GROUP BY t.wallet, t.market_id, t.outcome, t.side
+    ORDER BY t.wallet, t.market_id
+  `).all(options.wallet ?? null, options.wallet ?? null) as Array<{
+    wallet: string;
+    market_id: string;
+    outcome: string;
+    side: string;
+    shares: number;
+    notional: number;
+    winning_outcome: string | null;
+  }>;
+
+  // wallet -> market -> outcome -> flows
+  type Flows = { bought: number; cost: number; sold: number; proceeds: number };
+  const books = new Map<string, Map<string, { winner: string; outcomes: Map<string, Flows> }>>();
+  for (const r of rows) {
+    if (!r.winning_outcome) continue;
+    let markets = books.get(r.wallet);
+    if (!markets) books.set(r.wallet, (markets = new Map()));
+    let market = markets.get(r.market_id);
+    if (!market) markets.set(r.market_id, (market = { winner: r.winning_outcome, outcomes: new Map() }));
+    let flows = market.outcomes.get(r.outcome);
+    if (!flows) market.outcomes.set(r.outcome, (flows = { bought: 0, cost: 0, sold: 0, proceeds: 0 }));
+    if (r.side === 'BUY') {
+      flows.bought += r.shares;
+      flows.cost += r.notional;
+    } else {
+      flows.sold += r.shares;
+      flows.proceeds += r.notional;
+    }
+  }
+
+  const scores: WalletScore[] = [];
+  for (const [wallet, markets] of books) {
+    const positions: ScoredPosition[] = [];
+    let realizedPnl = 0;
+    let invested = 0;
+
+    for (const [marketId, market] of markets) {
+      let pnl = 0;
+      let held: { outcome: string; shares: number; avgEntry: number } | null = null;
+      for (const [outcome, f] of market.outcomes) {
+        const net = Math.max(0, f.bought - f.sold);
+        const won = sameOutcome(outcome, market.winner);
+        pnl += (won ? net : 0) + f.proceeds - f.cost;
+        invested += f.cost;
+        if (net > 0 && f.bought > 0 && (!held || net > held.shares)) held = { outcome, shares: net, avgEntry: f.cost / f.bought };
+      }
+      realizedPnl += pnl;
+      // Only positions carried into resolution count toward the record
+      if (held) positions.push({ marketId, ...held, won: sameOutcome(held.outcome, market.winner), pnl });
+    }
+
+    if (!positions.length) continue;
+    const wins = positions.filter((p) => p.won).length;
+    const probabilities = positions.map((p) => Math.min(MAX_PROB, Math.max(MIN_PROB, p.avgEntry)));
+    const expectedWins = probabilities.reduce((sum, p) => sum + p, 0);
+    const variance = probabilities.reduce((sum, p) => sum + p * (1 - p), 0);
+    const pValue = probabilityAtLeast(probabilities, wins);
+
+    scores.push({
+      wallet,
+      resolvedPositions: positions.length,
+      wins,
+      winRate: wins / positions.length,
+      realizedPnl,
+      invested,
+      expectedWins,
+      pValue,
+      zScore: variance > 0 ? (wins - expectedWins) / Math.sqrt(variance) : 0,
+      flagged: positions.length >= minResolved && pValue < alpha,
+      positions,
+    });
+  }
+
+  scores.sort((a, b) => a.pValue - b.pValue || b.realizedPnl - a.realizedPnl);
+  return scores;
+}
+
+export function updateWalletWinRates(scores: WalletScore[]): number {
+  let updated = 0;
+  for (const s of scores) {
+    if (setWalletWinRate(s.wallet, s.winRate, s.resolvedPositions)) updated++;
+  }
+  return updated;
+}
+
+// One IMPROBABLE_SUCCESS alert per flagged wallet per week.
+export function raiseImprobableSuccessAlerts(scores: WalletScore[]): ManipulationAlert[] {
+  const since = Date.now() - 7 * DAY_MS;
+  const recent = new Set(
+    getRecentAlerts(500)
+      .filter((a) => a.type === 'IMPROBABLE_SUCCESS' && a.createdAt >= since)
+      .map((a) => a.wallets[0])
+  );
+
+  const alerts: ManipulationAlert[] = [];
+  for (const s of scores) {
+    if (!s.flagged || recent.has(s.wallet)) continue;
+    const alert: ManipulationAlert = {
+      type: 'IMPROBABLE_SUCCESS',
+      severity: s.pValue < 1e-6 ? 'CRITICAL' : s.pValue < 1e-4 ? 'HIGH' : 'MEDIUM',
+      wallets: [s.wallet],
+      markets: s.positions.map((p) => p.marketId),
+      details: `${s.wins}/${s.resolvedPositions} resolved positions won (expected ${s.expectedWins.toFixed(1)} at entry prices, p = ${s.pValue.toExponential(1)}), realized P&L $${s.realizedPnl.toFixed(0)}`,
+      createdAt: Date.now(),
+      reviewed: false,
+    };
+    alert.id = saveAlert(alert);
+    alerts.push(alert);
+  }
+  return alerts;
+}
+
+// ============ Main ============
+
+async function main() {
+  console.log('='.repeat(60));
+  console.log('WALLET WIN RATES: resolutions → positions → improbability');
+  console.log('='.repeat(60));
+
+  const refreshed = await refreshMarketResolutions();
+  console.log(`[RESOLVE] Checked ${refreshed.checked} markets, ${refreshed.resolved} resolved, ${refreshed.errors} errors`);
+
+  const scores = scoreWallets();
+  const updated = updateWalletWinRates(scores);
+  const alerts = raiseImprobableSuccessAlerts(scores);
+  console.log(`[SCORE] ${scores.length} wallets with resolved positions, ${updated} profiles updated, ${alerts.length} new alerts`);
+  console.log();
+
+  for (const s of scores.slice(0, 20)) {
+    console.log(`  ${s.flagged ? '!' : ' '} ${s.wallet.slice(0, 12)}... | ${s.wins}/${s.resolvedPositions} (${(s.winRate * 100).toFixed(0)}%) | exp ${s.expectedWins.toFixed(1)} | p ${s.pValue.toExponential(1)} | P&L $${s.realizedPnl.toFixed(0)}`);
+  }
+}
+
+const isMainModule = process.argv[1]?.endsWith('winrate.ts') || process.argv[1]?.endsWith('winrate.js');
+if (isMainModule) {
+  main().catch(console.error);
+}
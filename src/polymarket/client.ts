@@ -4,6 +4,7 @@ const GAMMA_API_BASE = 'https://gamma-api.polymarket.com';
 
 interface GammaMarketResponse {
   id: string;
+  conditionId?: string;
   slug: string;
   question: string;
   description: string;
@@ -38,6 +39,8 @@ function parseMarket(raw: GammaMarketResponse): PolymarketMarket {
 
   return {
     id: raw.id,
+    conditionId: raw.conditionId || undefined,
+    slug: raw.slug || undefined,
     question: raw.question,
     description: raw.description || '',
     outcomes,
@@ -118,6 +121,28 @@ export async function fetchMarketBySlug(slug: string): Promise<PolymarketMarket>
   return parseMarket(raw);
 }
 
+// Workstation markets are keyed by conditionId; Gamma's `condition_ids` filter is the reliable way to look them up.
+export async function fetchMarketByConditionId(conditionId: string): Promise<PolymarketMarket | null> {
+  const params = new URLSearchParams();
+  params.append('limit', '1');
+  params.append('condition_ids', conditionId);
+
+  const response = await fetch(`${GAMMA_API_BASE}/markets?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Polymarket API error: ${response.status} ${response.statusText}`);
+  }
+
+  const rawMarkets = (await response.json()) as GammaMarketResponse[];
+  return rawMarkets.length ? parseMarket(rawMarkets[0]!) : null;
+}
+
+// Index of the winning outcome once a market has closed and settled (one outcome priced at ~1), else null.
+export function resolvedOutcomeIndex(market: PolymarketMarket): number | null {
+  if (!market.closed) return null;
+  const idx = market.outcomePrices.findIndex((p) => p >= 0.99);
+  return idx >= 0 ? idx : null;
+}
+
 // Quick summary for listing markets
 export function marketSummary(market: PolymarketMarket): string {
   const prices = market.outcomes.map((o, i) =>
@@ -0,0 +1,164 @@
+// Portfolio marks and breakdowns. Pure: the caller supplies live marks, categories and conviction probabilities.
+
+export type PortfolioOutcome = 'YES' | 'NO';
+
+export type PortfolioInput = {
+  positionId: string;
+  marketId: string;
+  question: string;
+  outcome: PortfolioOutcome;
+  shares: number;
+  avgPrice: number;
+  realizedPnl: number;
+  yesMid: number | null; // live YES mid; null when the market could not be marked
+  yesProbability: number | null; // conviction P(YES), when there is one
+  category: string | null;
+  endDate: string | null;
+};
+
+export type ResolutionBucket = 'overdue' | 'week' | 'month' | 'quarter' | 'later' | 'unknown';
+
+export const RESOLUTION_BUCKETS: ResolutionBucket[] = ['overdue', 'week', 'month', 'quarter', 'later', 'unknown'];
+
+export type PortfolioPosition = {
+  positionId: string;
+  marketId: string;
+  question: string;
+  outcome: PortfolioOutcome;
+  shares: number;
+  avgPrice: number;
+  mark: number | null; // price of the held outcome
+  cost: number;
+  exposure: number; // value at mark, cost basis when unmarked
+  unrealizedPnl: number | null;
+  realizedPnl: number;
+  probability: number | null; // conviction probability of the held outcome
+  expectedValue: number | null; // shares × probability: what the position pays on average if the conviction is right
+  expectedPnl: number | null; // expectedValue - cost
+  category: string;
+  endDate: string | null;
+  resolution: ResolutionBucket;
+};
+
+export type ExposureSlice = { key: string; exposure: number; share: number; positions: number };
+
+export type MarketConcentration = { marketId: string; question: string; exposure: number; share: number };
+
+export type PortfolioReport = {
+  asOf: number;
+  totals: {
+    positions: number;
+    unmarked: number;
+    cost: number;
+    exposure: number;
+    unrealizedPnl: number;
+    realizedPnl: number;
+    expectedValue: number; // over positions with a conviction
+    expectedPnl: number;
+    withConviction: number;
+  };
+  byCategory: ExposureSlice[];
+  byResolution: ExposureSlice[];
+  byMarket: MarketConcentration[];
+  largestMarket: MarketConcentration | null;
+  positions: PortfolioPosition[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function resolutionBucket(endDate: string | null, now: number): ResolutionBucket {
+  const end = endDate ? Date.parse(endDate) : Number.NaN;
+  if (!Number.isFinite(end)) return 'unknown';
+  const days = (end - now) / DAY_MS;
+  if (days < 0) return 'overdue';
+  if (days <= 7) return 'week';
+  if (days <= 30) return 'month';
+  if (days <= 90) return 'quarter';
+  return 'later';
+}
+
+function slices(items: Array<{ key: string; exposure: number }>, total: number, order?: string[]): ExposureSlice[] {
+  const byKey = new Map<string, ExposureSlice>();
+  for (const item of items) {
+    const slice = byKey.get(item.key) ?? { key: item.key, exposure: 0, share: 0, positions: 0 };
+    slice.exposure += item.exposure;
+    slice.positions++;
+    byKey.set(item.key, slice);
+  }
+  const out = [...byKey.values()].map((s) => ({ ...s, share: total > 0 ? s.exposure / total : 0 }));
+  if (order) return out.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key));
+  return out.sort((a, b) => b.exposure - a.exposure || a.key.localeCompare(b.key));
+}
+
+export function buildPortfolioReport(inputs: PortfolioInput[], now = Date.now()): PortfolioReport {
+  const positions: PortfolioPosition[] = inputs.map((p) => {
+    const mark = p.yesMid == null ? null : p.outcome === 'YES' ? p.yesMid : 1 - p.yesMid;
+    const probability = p.yesProbability == null ? null : p.outcome === 'YES' ? p.yesProbability : 1 - p.yesProbability;
+    const cost = p.shares * p.avgPrice;
+    const expectedValue = probability == null ? null : p.shares * probability;
+    return {
+      positionId: p.positionId,
+      marketId: p.marketId,
+      question: p.question,
+      outcome: p.outcome,
+      shares: p.shares,
+      avgPrice: p.avgPrice,
+      mark,
+      cost,
+      exposure: mark == null ? cost : p.shares * mark,
+      unrealizedPnl: mark == null ? null : p.shares * mark - cost,
+      realizedPnl: p.realizedPnl,
+      probability,
+      expectedValue,
+      expectedPnl: expectedValue == null ? null : expectedValue - cost,
+      category: p.category || 'uncategorized',
+      endDate: p.endDate,
+      resolution: resolutionBucket(p.endDate, now)
+    };
+  });
+
+  const totals: PortfolioReport['totals'] = {
+    positions: positions.length,
+    unmarked: 0,
+    cost: 0,
+    exposure: 0,
+    unrealizedPnl: 0,
+    realizedPnl: 0,
+    expectedValue: 0,
+    expectedPnl: 0,
+    withConviction: 0
+  };
+  for (const p of positions) {
+    totals.cost += p.cost;
+    totals.exposure += p.exposure;
+    totals.realizedPnl += p.realizedPnl;
+    if (p.unrealizedPnl == null) totals.unmarked++;
+    else totals.unrealizedPnl += p.unrealizedPnl;
+    if (p.expectedValue != null) {
+      totals.withConviction++;
+      totals.expectedValue += p.expectedValue;
+      totals.expectedPnl += p.expectedPnl!;
+    }
+  }
+
+  // YES and NO holdings on one market both count toward its concentration.
+  const byMarketMap = new Map<string, MarketConcentration>();
+  for (const p of positions) {
+    const entry = byMarketMap.get(p.marketId) ?? { marketId: p.marketId, question: p.question, exposure: 0, share: 0 };
+    entry.exposure += p.exposure;
+    byMarketMap.set(p.marketId, entry);
+  }
+  const byMarket = [...byMarketMap.values()]
+    .map((m) => ({ ...m, share: totals.exposure > 0 ? m.exposure / totals.exposure : 0 }))
+    .sort((a, b) => b.exposure - a.exposure);
+
+  return {
+    asOf: now,
+    totals,
+    byCategory: slices(positions.map((p) => ({ key: p.category, exposure: p.exposure })), totals.exposure),
+    byResolution: slices(positions.map((p) => ({ key: p.resolution, exposure: p.exposure })), totals.exposure, RESOLUTION_BUCKETS),
+    byMarket,
+    largestMarket: byMarket[0] ?? null,
+    positions
+  };
+}
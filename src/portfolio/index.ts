@@ -0,0 +1,24 @@
+export {
+  buildPortfolioReport,
+  resolutionBucket,
+  RESOLUTION_BUCKETS,
+  type ExposureSlice,
+  type MarketConcentration,
+  type PortfolioInput,
+  type PortfolioOutcome,
+  type PortfolioPosition,
+  type PortfolioReport,
+  type ResolutionBucket
+} from './analytics.js';
+export {
+  inverseNormalCdf,
+  runMonteCarlo,
+  runScenarios,
+  runStressTest,
+  type MonteCarloOptions,
+  type MonteCarloResult,
+  type ScenarioMarketResult,
+  type ScenarioResult,
+  type StressGroup,
+  type StressReport
+} from './stress.js';
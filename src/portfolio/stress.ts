@@ -0,0 +1,218 @@
+import type { PortfolioInput, PortfolioOutcome } from './analytics.js';
+
+// Stress tests settle positions at 1/0 and report P&L against their current mark (unmarked positions: cost basis).
+
+export type StressGroup = {
+  id: string;
+  name: string;
+  marketIds: string[];
+  scenarios: Array<{ name: string; outcomes: Record<string, PortfolioOutcome> }>;
+};
+
+export type ScenarioMarketResult = { marketId: string; question: string; resolvesTo: PortfolioOutcome; pnl: number };
+
+export type ScenarioResult = {
+  groupId: string;
+  groupName: string;
+  scenario: string;
+  pnl: number; // against the current marks
+  pnlVsCost: number; // scenario markets settled, everything else at its mark
+  markets: ScenarioMarketResult[];
+};
+
+export type MonteCarloOptions = {
+  iterations?: number;
+  correlation?: number; // within a group, 0..0.99
+  groupCorrelation?: Record<string, number>; // per-group override
+  seed?: number;
+};
+
+export type MonteCarloResult = {
+  iterations: number;
+  correlation: number;
+  seed: number;
+  mean: number;
+  stdev: number;
+  p5: number;
+  p50: number;
+  p95: number;
+  valueAtRisk95: number; // loss not exceeded in 95% of runs (0 when even the 5th percentile is a gain)
+  probabilityOfLoss: number;
+  worst: number;
+  best: number;
+  unmodeled: string[]; // markets with neither a conviction nor a mark, held at cost
+};
+
+export type StressReport = {
+  asOf: number;
+  markValue: number;
+  cost: number;
+  scenarios: ScenarioResult[];
+  monteCarlo: MonteCarloResult | null;
+};
+
+function markValue(p: PortfolioInput): number {
+  if (p.yesMid == null) return p.shares * p.avgPrice;
+  return p.shares * (p.outcome === 'YES' ? p.yesMid : 1 - p.yesMid);
+}
+
+function settledValue(p: PortfolioInput, yesWins: boolean): number {
+  return (p.outcome === 'YES') === yesWins ? p.shares : 0;
+}
+
+export function runScenarios(positions: PortfolioInput[], groups: StressGroup[]): ScenarioResult[] {
+  const cost = positions.reduce((sum, p) => sum + p.shares * p.avgPrice, 0);
+  const marked = positions.reduce((sum, p) => sum + markValue(p), 0);
+  const results: ScenarioResult[] = [];
+  for (const group of groups) {
+    for (const scenario of group.scenarios) {
+      const markets = new Map<string, ScenarioMarketResult>();
+      let pnl = 0;
+      for (const p of positions) {
+        const side = scenario.outcomes[p.marketId];
+        if (!side) continue;
+        const delta = settledValue(p, side === 'YES') - markValue(p);
+        pnl += delta;
+        const entry = markets.get(p.marketId) ?? { marketId: p.marketId, question: p.question, resolvesTo: side, pnl: 0 };
+        entry.pnl += delta;
+        markets.set(p.marketId, entry);
+      }
+      results.push({
+        groupId: group.id,
+        groupName: group.name,
+        scenario: scenario.name,
+        pnl,
+        pnlVsCost: marked + pnl - cost,
+        markets: [...markets.values()].sort((a, b) => a.pnl - b.pnl)
+      });
+    }
+  }
+  return results.sort((a, b) => a.pnl - b.pnl);
+}
+
+// mulberry32: small, seedable, good enough for sampling.
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function standardNormal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation, |error| < 1.2e-9).
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0) return Number.NEGATIVE_INFINITY;
+  if (p >= 1) return Number.POSITIVE_INFINITY;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) / ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) / ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q) / (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
+
+function clampCorrelation(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, Math.min(0.99, n)) : 0;
+}
+
+// Samples every market from its conviction P(YES) (else the live mid) through a one-factor Gaussian copula:
+// markets in the same group share a factor with weight sqrt(correlation); other markets are independent.
+// A market in several groups follows the first one listed.
+export function runMonteCarlo(positions: PortfolioInput[], groups: StressGroup[], opts: MonteCarloOptions = {}): MonteCarloResult {
+  const iterations = Math.max(100, Math.min(100_000, Math.floor(opts.iterations ?? 10_000)));
+  const correlation = clampCorrelation(opts.correlation ?? 0);
+  const seed = Number.isFinite(opts.seed) ? Math.floor(opts.seed!) : Math.floor(Math.random() * 2 ** 31);
+  const random = seededRandom(seed);
+
+  const groupOf = new Map<string, string>();
+  for (const g of groups) for (const marketId of g.marketIds) if (!groupOf.has(marketId)) groupOf.set(marketId, g.id);
+
+  type Leg = { threshold: number; groupId: string | null; rho: number; positions: PortfolioInput[]; markValue: number };
+  const legs = new Map<string, Leg>();
+  const unmodeled = new Set<string>();
+  for (const p of positions) {
+    const pYes = p.yesProbability ?? p.yesMid;
+    if (pYes == null) {
+      unmodeled.add(p.marketId);
+      continue;
+    }
+    const groupId = groupOf.get(p.marketId) ?? null;
+    const rho = groupId == null ? 0 : clampCorrelation(opts.groupCorrelation?.[groupId] ?? correlation);
+    const leg = legs.get(p.marketId) ?? { threshold: inverseNormalCdf(pYes), groupId, rho, positions: [], markValue: 0 };
+    leg.positions.push(p);
+    leg.markValue += markValue(p);
+    legs.set(p.marketId, leg);
+  }
+
+  const outcomes: number[] = new Array(iterations);
+  const factors = new Map<string, number>();
+  for (let i = 0; i < iterations; i++) {
+    factors.clear();
+    let pnl = 0;
+    for (const leg of legs.values()) {
+      let x = standardNormal(random);
+      if (leg.groupId != null && leg.rho > 0) {
+        if (!factors.has(leg.groupId)) factors.set(leg.groupId, standardNormal(random));
+        x = Math.sqrt(leg.rho) * factors.get(leg.groupId)! + Math.sqrt(1 - leg.rho) * x;
+      }
+      const yesWins = x < leg.threshold;
+      for (const p of leg.positions) pnl += settledValue(p, yesWins);
+      pnl -= leg.markValue;
+    }
+    outcomes[i] = pnl;
+  }
+
+  const sorted = [...outcomes].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.floor(q * (sorted.length - 1))]!;
+  const mean = outcomes.reduce((sum, x) => sum + x, 0) / iterations;
+  const variance = outcomes.reduce((sum, x) => sum + (x - mean) ** 2, 0) / iterations;
+  return {
+    iterations,
+    correlation,
+    seed,
+    mean,
+    stdev: Math.sqrt(variance),
+    p5: at(0.05),
+    p50: at(0.5),
+    p95: at(0.95),
+    valueAtRisk95: Math.max(0, -at(0.05)),
+    probabilityOfLoss: outcomes.filter((x) => x < 0).length / iterations,
+    worst: sorted[0]!,
+    best: sorted[sorted.length - 1]!,
+    unmodeled: [...unmodeled]
+  };
+}
+
+export function runStressTest(
+  positions: PortfolioInput[],
+  groups: StressGroup[],
+  opts: MonteCarloOptions & { monteCarlo?: boolean } = {},
+  now = Date.now()
+): StressReport {
+  return {
+    asOf: now,
+    markValue: positions.reduce((sum, p) => sum + markValue(p), 0),
+    cost: positions.reduce((sum, p) => sum + p.shares * p.avgPrice, 0),
+    scenarios: runScenarios(positions, groups),
+    monteCarlo: opts.monteCarlo === false || !positions.length ? null : runMonteCarlo(positions, groups, opts)
+  };
+}
@@ -0,0 +1,156 @@
+import type { RuleOutcome } from './types.js';
+
+// What a rule does besides raising an alert. `null` on a rule means alerts only.
+export type RuleSizing =
+  | { policy: 'fixed'; usd: number }
+  | { policy: 'bankroll_fraction'; fraction: number }
+  | { policy: 'kelly'; fraction: number }; // multiplier on full Kelly, e.g. 0.25 = quarter Kelly; omitted = full Kelly
+
+export type RuleOrderAction = {
+  kind: 'order';
+  side: RuleOutcome; // outcome to buy
+  orderType: 'MARKET' | 'LIMIT';
+  limitPrice: number | null; // LIMIT only; null = the touch when the rule fires
+  sizing: RuleSizing;
+  maxUsd: number | null;
+  bankrollUsd: number | null; // overrides TT_BANKROLL_USD
+  // confirm: the staged order waits for a human click; auto: it is released immediately.
+  mode: 'confirm' | 'auto';
+};
+
+export type RuleAction = RuleOrderAction;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'string' ? Number(value.trim()) : typeof value === 'number' ? value : Number.NaN;
+}
+
+function optionalPositive(raw: Record<string, unknown>, key: string): number | null {
+  if (raw[key] == null || raw[key] === '') return null;
+  const n = toNumber(raw[key]);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`action.${key} must be > 0`);
+  return n;
+}
+
+// Fractions follow the workstation's probability convention: 0..1, or 1..100 as a percent (1 => 1%, 100 => 100%).
+function fractionParam(raw: Record<string, unknown>, key: string): number {
+  const n = toNumber(raw[key]);
+  if (!Number.isFinite(n) || n <= 0) throw new Error(`action.sizing.${key} must be > 0`);
+  if (n >= 1 && n <= 100) return n / 100;
+  if (n > 1) throw new Error(`action.sizing.${key} must be 0..1 (or 1..100)`);
+  return n;
+}
+
+// Stored actions were normalized on the way in, so their fractions are already 0..1 and must not be re-read as percents.
+function storedFractionParam(raw: Record<string, unknown>, key: string): number {
+  const n = toNumber(raw[key]);
+  if (!Number.isFinite(n) || n <= 0 || n > 1) throw new Error(`action.sizing.${key} must be 0..1`);
+  return n;
+}
+
+type FractionReader = (raw: Record<string, unknown>, key: string) => number;
+
+function normalizeSizing(raw: unknown, fraction: FractionReader): RuleSizing {
+  if (!isObject(raw)) throw new Error('action.sizing required');
+  const policy = String(raw.policy || '').trim().toLowerCase();
+  if (policy === 'fixed') {
+    const usd = optionalPositive(raw, 'usd');
+    if (usd == null) throw new Error('action.sizing.usd required for fixed sizing');
+    return { policy: 'fixed', usd };
+  }
+  if (policy === 'bankroll_fraction' || policy === 'fraction') return { policy: 'bankroll_fraction', fraction: fraction(raw, 'fraction') };
+  if (policy === 'kelly') return { policy: 'kelly', fraction: raw.fraction == null ? 1 : fraction(raw, 'fraction') };
+  throw new Error(`Unknown sizing policy: ${policy || '(missing policy)'}`);
+}
+
+export function normalizeRuleAction(raw: unknown): RuleAction | null {
+  return buildRuleAction(raw, fractionParam);
+}
+
+function buildRuleAction(raw: unknown, fraction: FractionReader): RuleAction | null {
+  if (raw == null || raw === '') return null;
+  const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (!isObject(value)) throw new Error('action must be an object');
+
+  const kind = String(value.kind ?? 'order').trim().toLowerCase();
+  if (kind === 'alert' || kind === 'none') return null;
+  if (kind !== 'order') throw new Error(`Unknown action kind: ${kind}`);
+
+  const orderType = String(value.orderType ?? 'MARKET').trim().toUpperCase() === 'LIMIT' ? 'LIMIT' : 'MARKET';
+  let limitPrice: number | null = null;
+  if (orderType === 'LIMIT' && value.limitPrice != null && value.limitPrice !== '') {
+    limitPrice = toNumber(value.limitPrice);
+    if (limitPrice >= 1 && limitPrice <= 100) limitPrice /= 100;
+    if (!Number.isFinite(limitPrice) || limitPrice <= 0 || limitPrice >= 1) throw new Error('action.limitPrice must be 0..1 (or 1..100)');
+  }
+
+  return {
+    kind: 'order',
+    side: String(value.side ?? 'YES').trim().toUpperCase() === 'NO' ? 'NO' : 'YES',
+    orderType,
+    limitPrice,
+    sizing: normalizeSizing(value.sizing, fraction),
+    maxUsd: optionalPositive(value, 'maxUsd'),
+    bankrollUsd: optionalPositive(value, 'bankrollUsd'),
+    mode: String(value.mode ?? 'confirm').trim().toLowerCase() === 'auto' ? 'auto' : 'confirm'
+  };
+}
+
+export function parseStoredRuleAction(raw: unknown): RuleAction | null {
+  try {
+    return buildRuleAction(raw, storedFractionParam);
+  } catch {
+    return null;
+  }
+}
+
+export function describeRuleAction(action: RuleAction | null): string {
+  if (!action) return 'alert only';
+  const sizing =
+    action.sizing.policy === 'fixed'
+      ? `$${action.sizing.usd}`
+      : action.sizing.policy === 'bankroll_fraction'
+        ? `${(action.sizing.fraction * 100).toFixed(1)}% bankroll`
+        : `${action.sizing.fraction === 1 ? '' : `${action.sizing.fraction}× `}Kelly`;
+  const price = action.orderType === 'LIMIT' ? ` LIMIT @ ${action.limitPrice == null ? 'touch' : `${(action.limitPrice * 100).toFixed(1)}¢`}` : '';
+  const cap = action.maxUsd != null ? ` ≤ $${action.maxUsd}` : '';
+  return `buy ${action.side} ${sizing}${cap}${price} (${action.mode})`;
+}
+
+export type RuleOrderSize = { stakeUsd: number; qty: number; price: number } | { skip: string };
+
+// Dollars to put on `action.side` at `price` (that side's per-share cost). Kelly for a binary contract
+// bought at p with believed probability q is f* = (q - p) / (1 - p) of bankroll.
+export function sizeRuleOrder(input: {
+  action: RuleOrderAction;
+  price: number | null;
+  myProbability: number | null; // YES
+  bankrollUsd: number | null;
+}): RuleOrderSize {
+  const { action, price } = input;
+  if (price == null || !Number.isFinite(price) || price <= 0 || price >= 1) return { skip: 'no usable price' };
+  const bankroll = action.bankrollUsd ?? input.bankrollUsd;
+
+  let stakeUsd: number;
+  if (action.sizing.policy === 'fixed') {
+    stakeUsd = action.sizing.usd;
+  } else if (bankroll == null) {
+    return { skip: 'no bankroll (set action.bankrollUsd or TT_BANKROLL_USD)' };
+  } else if (action.sizing.policy === 'bankroll_fraction') {
+    stakeUsd = bankroll * action.sizing.fraction;
+  } else {
+    if (input.myProbability == null) return { skip: 'Kelly sizing needs a conviction' };
+    const q = action.side === 'YES' ? input.myProbability : 1 - input.myProbability;
+    const kelly = (q - price) / (1 - price);
+    if (!(kelly > 0)) return { skip: `no Kelly edge (my ${(q * 100).toFixed(1)}% vs ${(price * 100).toFixed(1)}¢)` };
+    stakeUsd = bankroll * kelly * action.sizing.fraction;
+  }
+
+  if (action.maxUsd != null) stakeUsd = Math.min(stakeUsd, action.maxUsd);
+  if (!(stakeUsd >= 1)) return { skip: `stake $${stakeUsd.toFixed(2)} below $1` };
+  const qty = Math.floor((stakeUsd / price) * 100) / 100;
+  return { stakeUsd, qty, price };
+}
@@ -0,0 +1,247 @@
+import { getConvictionByMarketId, getMarketById, listInfoEventsWithMarkets, listPriceSnapshots, type Market, type Rule } from '../db/index.js';
+import { pickRepricingCurve, repricingCurvesAsOf, type RepricingCurve } from '../calendar/index.js';
+import { getTradesForMarketInRange } from '../manipulation/db.js';
+import { fetchMarketByConditionId, resolvedOutcomeIndex } from '../polymarket/index.js';
+import { canRearm, stepRule, type RuleLifecycleState } from './lifecycle.js';
+import type { RuleEvalContext, RuleOutcome } from './types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One observation of a market, YES-denominated like the live engine's prices.
+export type PricePoint = {
+  at: number;
+  mid: number | null;
+  bestBid: number | null;
+  bestAsk: number | null;
+  lastTrade: number | null;
+  volume24h: number | null;
+  liquidity: number | null;
+};
+
+export interface PriceHistorySource {
+  name: string;
+  // When the caller doesn't name a source, the highest-priority one with data wins.
+  priority: number;
+  load: (input: { market: Market; from: number | null; to: number | null; outcomes: string[] }) => PricePoint[];
+}
+
+const sources = new Map<string, PriceHistorySource>();
+
+export function registerPriceHistorySource(source: PriceHistorySource): void {
+  const name = source.name.trim();
+  if (!name) throw new Error('price history source name required');
+  sources.set(name, source);
+}
+
+export function listPriceHistorySources(): PriceHistorySource[] {
+  return [...sources.values()].sort((a, b) => b.priority - a.priority);
+}
+
+function outcomeSide(name: string, outcomes: string[]): RuleOutcome | null {
+  const o = name.trim().toLowerCase();
+  if (o === 'yes') return 'YES';
+  if (o === 'no') return 'NO';
+  // Named binary outcomes (e.g. teams): Gamma lists the YES-equivalent first.
+  const idx = outcomes.findIndex((x) => x.trim().toLowerCase() === o);
+  return idx === 0 ? 'YES' : idx === 1 ? 'NO' : null;
+}
+
+// The manipulation collector's tape. It has no book, so the last trade stands in for the mid.
+const tradeTape: PriceHistorySource = {
+  name: 'trades',
+  priority: 0,
+  load: ({ market, from, to, outcomes }) => {
+    if (market.source !== 'polymarket') return [];
+    // Start a day early so the rolling 24h volume is warm at `from`.
+    const trades = getTradesForMarketInRange(market.externalId, { from: from == null ? null : from - DAY_MS, to });
+    const points: PricePoint[] = [];
+    let windowStart = 0;
+    let windowUsd = 0;
+    for (const t of trades) {
+      windowUsd += t.size * t.price;
+      while (trades[windowStart]!.timestamp <= t.timestamp - DAY_MS) {
+        windowUsd -= trades[windowStart]!.size * trades[windowStart]!.price;
+        windowStart++;
+      }
+      if (from != null && t.timestamp < from) continue;
+      const side = outcomeSide(t.outcome, outcomes);
+      if (!side || !Number.isFinite(t.price)) continue;
+      const yes = side === 'YES' ? t.price : 1 - t.price;
+      points.push({ at: t.timestamp, mid: yes, bestBid: null, bestAsk: null, lastTrade: yes, volume24h: windowUsd, liquidity: null });
+    }
+    return points;
+  }
+};
+
+// The workstation's own sampler (see `price_snapshots`); preferred because it records the touch.
+const snapshots: PriceHistorySource = {
+  name: 'snapshots',
+  priority: 10,
+  load: ({ market, from, to }) =>
+    listPriceSnapshots(market.id, { from, to, limit: 50_000 }).map((s) => ({
+      at: s.at,
+      mid: s.mid,
+      bestBid: s.bestBid,
+      bestAsk: s.bestAsk,
+      lastTrade: s.lastTrade,
+      volume24h: null,
+      liquidity: s.liquidity
+    }))
+};
+
+registerPriceHistorySource(tradeTape);
+registerPriceHistorySource(snapshots);
+
+export type RuleBacktestFire = {
+  at: number;
+  yesPrice: number | null;
+  entryPrice: number | null; // price paid for `side`
+  details: string[];
+  pnl: number | null;
+};
+
+export type RuleBacktestResult = {
+  ruleId: string;
+  marketId: string;
+  source: string | null;
+  points: number;
+  from: number | null;
+  to: number | null;
+  side: RuleOutcome;
+  stakeUsd: number;
+  fires: RuleBacktestFire[];
+  rearms: number;
+  expiredAt: number | null;
+  resolution: RuleOutcome | null;
+  settlement: number | null; // per-share value of `side` used for P&L
+  settledBy: 'resolution' | 'mark' | null;
+  totalPnl: number;
+  notes: string[];
+};
+
+// Repricing curves as they stood at the start of each point's UTC day (events whose post window had elapsed by then),
+// built lazily: only repricing conditions ask for them.
+function curvesAsOf(): (at: number) => Map<string, RepricingCurve> {
+  const byDay = new Map<number, Map<string, RepricingCurve>>();
+  return (at) => {
+    const day = Math.floor(at / DAY_MS) * DAY_MS;
+    let curves = byDay.get(day);
+    if (!curves) {
+      curves = repricingCurvesAsOf(day);
+      byDay.set(day, curves);
+    }
+    return curves;
+  };
+}
+
+function pointContext(market: Market, point: PricePoint, curves: (at: number) => Map<string, RepricingCurve>): RuleEvalContext {
+  return {
+    now: point.at,
+    market,
+    getPrices: async () =>
+      point.mid == null && point.lastTrade == null
+        ? null
+        : { mid: point.mid, bestBid: point.bestBid, bestAsk: point.bestAsk, lastTrade: point.lastTrade, asOf: point.at },
+    getBook: async () => null,
+    getStats: async () => ({ volume24h: point.volume24h, liquidity: point.liquidity }),
+    getConviction: () => getConvictionByMarketId(market.id),
+    getInfoEvents: () => listInfoEventsWithMarkets({ marketId: market.id }).map((r) => r.event),
+    getRepricingCurve: (category) => pickRepricingCurve(curves(point.at), category)
+  };
+}
+
+function sidePrice(point: PricePoint, side: RuleOutcome, basis: 'entry' | 'mark'): number | null {
+  const yes = point.mid ?? point.lastTrade;
+  if (side === 'YES') return basis === 'entry' ? point.bestAsk ?? yes : yes;
+  if (basis === 'entry' && point.bestBid != null) return 1 - point.bestBid;
+  return yes == null ? null : 1 - yes;
+}
+
+// Replays history through the same state machine as the live engine (`stepRule`), starting armed.
+// Each fire buys `stakeUsd` of `side`, settled at resolution or else marked at the last observed price.
+export async function runRuleBacktest(
+  rule: Rule,
+  opts: { from?: number | null; to?: number | null; source?: string; side?: RuleOutcome; stakeUsd?: number } = {}
+): Promise<RuleBacktestResult> {
+  const market = getMarketById(rule.marketId);
+  if (!market) throw new Error('Market not found');
+  const from = opts.from ?? null;
+  const to = opts.to ?? null;
+  const side: RuleOutcome = opts.side ?? (rule.type === 'edge_above_no' ? 'NO' : 'YES');
+  const stakeUsd = opts.stakeUsd ?? 100;
+  if (!Number.isFinite(stakeUsd) || stakeUsd <= 0) throw new Error('stakeUsd must be > 0');
+
+  const gamma = market.source === 'polymarket' ? await fetchMarketByConditionId(market.externalId).catch(() => null) : null;
+  const outcomes = gamma?.outcomes ?? [];
+
+  let source: PriceHistorySource | null = null;
+  let points: PricePoint[] = [];
+  if (opts.source) {
+    source = sources.get(opts.source) ?? null;
+    if (!source) throw new Error(`Unknown price history source: ${opts.source}`);
+    points = source.load({ market, from, to, outcomes });
+  } else {
+    for (const candidate of listPriceHistorySources()) {
+      points = candidate.load({ market, from, to, outcomes });
+      source = candidate;
+      if (points.length) break;
+    }
+  }
+
+  const winner = gamma ? resolvedOutcomeIndex(gamma) : null;
+  const resolution = winner == null ? null : outcomeSide(outcomes[winner] ?? '', outcomes) ?? (winner === 0 ? 'YES' : 'NO');
+  const last = points.length ? points[points.length - 1]! : null;
+  const settlement = resolution ? (resolution === side ? 1 : 0) : last ? sidePrice(last, side, 'mark') : null;
+
+  const state: RuleLifecycleState = { ...rule, status: 'active', fireCount: 0, triggeredAt: null };
+  const fires: RuleBacktestFire[] = [];
+  const curves = curvesAsOf();
+  let rearms = 0;
+  let expiredAt: number | null = null;
+
+  for (const point of points) {
+    const step = await stepRule(state, pointContext(market, point, curves));
+    if (step.action === 'expire') {
+      expiredAt = point.at;
+      break;
+    }
+    if (step.action === 'rearm') {
+      state.status = 'active';
+      rearms++;
+      continue;
+    }
+    if (step.action !== 'fire') continue;
+
+    const entryPrice = sidePrice(point, side, 'entry');
+    const pnl = entryPrice != null && entryPrice > 0 && settlement != null ? (stakeUsd / entryPrice) * settlement - stakeUsd : null;
+    fires.push({ at: point.at, yesPrice: point.mid ?? point.lastTrade, entryPrice, details: step.details, pnl });
+    state.status = 'triggered';
+    state.fireCount++;
+    state.triggeredAt = point.at;
+    if (!canRearm(state)) break;
+  }
+
+  const notes = ['Conviction and info events are evaluated as they are now, not as they were at each point.'];
+  if (source?.name === 'trades') notes.push('Trade tape has no order book: spread, depth and ask-basis edge conditions cannot pass.');
+  if (source?.name === 'snapshots') notes.push('Snapshots record the touch but not depth: depth conditions cannot pass and sized edges use the best ask.');
+  if (!points.length) notes.push('No price history for this market in range.');
+
+  return {
+    ruleId: rule.id,
+    marketId: market.id,
+    source: source?.name ?? null,
+    points: points.length,
+    from: points.length ? points[0]!.at : null,
+    to: last ? last.at : null,
+    side,
+    stakeUsd,
+    fires,
+    rearms,
+    expiredAt,
+    resolution,
+    settlement,
+    settledBy: resolution ? 'resolution' : settlement != null ? 'mark' : null,
+    totalPnl: fires.reduce((sum, f) => sum + (f.pnl ?? 0), 0),
+    notes
+  };
+}
@@ -0,0 +1,296 @@
+// The pure curve module, not calendar/index.js: db imports the rule registry, and the calendar loaders import db.
+import { fractionRepricedAt } from '../calendar/repricing.js';
+import type { ConditionParams, ConditionSpec, RuleBookLevel, RuleOutcome } from './types.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function toNumber(value: unknown): number {
+  return typeof value === 'string' ? Number(value.trim()) : typeof value === 'number' ? value : Number.NaN;
+}
+
+// Same convention as the rest of the workstation: 0..1 as a fraction, 1..100 as a percent. Stored values are already fractions.
+function pctParam(raw: ConditionParams, key: string, opts?: { stored?: boolean }): number {
+  const n = toNumber(raw[key]);
+  if (!Number.isFinite(n)) throw new Error(`${key} must be a number`);
+  if (opts?.stored) {
+    if (n < 0 || n > 1) throw new Error(`${key} must be 0..1`);
+    return n;
+  }
+  if (n >= 1 && n <= 100) return n / 100;
+  if (n < 0 || n > 1) throw new Error(`${key} must be 0..1 (or 1..100)`);
+  return n;
+}
+
+function positiveParam(raw: ConditionParams, key: string, opts?: { allowZero?: boolean }): number {
+  const n = toNumber(raw[key]);
+  if (!Number.isFinite(n)) throw new Error(`${key} must be a number`);
+  if (opts?.allowZero ? n < 0 : n <= 0) throw new Error(`${key} must be ${opts?.allowZero ? '>= 0' : '> 0'}`);
+  return n;
+}
+
+function outcomeParam(raw: ConditionParams, key: string): RuleOutcome {
+  return String(raw[key] ?? '').trim().toUpperCase() === 'NO' ? 'NO' : 'YES';
+}
+
+function fmtPct(p: number | null): string {
+  if (p == null || !Number.isFinite(p)) return '—';
+  return `${(p * 100).toFixed(1)}%`;
+}
+
+function fmtCents(p: number): string {
+  return `${(p * 100).toFixed(1)}¢`;
+}
+
+function fmtUsd(n: number): string {
+  if (n >= 1_000_000) return `$${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1_000) return `$${(n / 1_000).toFixed(1)}K`;
+  return `$${n.toFixed(0)}`;
+}
+
+function fmtHours(h: number): string {
+  if (h >= 48) return `${(h / 24).toFixed(1)}d`;
+  return `${h.toFixed(1)}h`;
+}
+
+// Info-event dates are free text; accept ISO timestamps and bare YYYY-MM-DD (treated as UTC midnight).
+export function parseEventDate(date: string): number | null {
+  const s = String(date || '').trim();
+  if (!s) return null;
+  const ms = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(s) ? `${s}T00:00:00Z` : s);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function depthWithin(levels: RuleBookLevel[], cents: number): { shares: number; notional: number } {
+  if (!levels.length) return { shares: 0, notional: 0 };
+  const best = levels[0]!.price;
+  let shares = 0;
+  let notional = 0;
+  for (const l of levels) {
+    if (Math.abs(l.price - best) > cents / 100 + 1e-9) break;
+    shares += l.size;
+    notional += l.size * l.price;
+  }
+  return { shares, notional };
+}
+
+const priceBelow: ConditionSpec = {
+  type: 'price_below',
+  description: 'YES mid at or below a threshold',
+  normalizeParams: (raw, opts) => ({ threshold: pctParam(raw, 'threshold', opts) }),
+  describe: (p) => `mid ≤ ${fmtPct(p.threshold as number)}`,
+  evaluate: async (p, ctx) => {
+    const mid = (await ctx.getPrices())?.mid ?? null;
+    if (mid == null || !Number.isFinite(mid)) return { pass: false, detail: 'no mid' };
+    return { pass: mid <= (p.threshold as number), detail: `YES mid ${fmtPct(mid)} ≤ ${fmtPct(p.threshold as number)}` };
+  },
+  widen: (p, band) => ({ ...p, threshold: (p.threshold as number) + band })
+};
+
+const priceAbove: ConditionSpec = {
+  type: 'price_above',
+  description: 'YES mid at or above a threshold',
+  normalizeParams: (raw, opts) => ({ threshold: pctParam(raw, 'threshold', opts) }),
+  describe: (p) => `mid ≥ ${fmtPct(p.threshold as number)}`,
+  evaluate: async (p, ctx) => {
+    const mid = (await ctx.getPrices())?.mid ?? null;
+    if (mid == null || !Number.isFinite(mid)) return { pass: false, detail: 'no mid' };
+    return { pass: mid >= (p.threshold as number), detail: `YES mid ${fmtPct(mid)} ≥ ${fmtPct(p.threshold as number)}` };
+  },
+  widen: (p, band) => ({ ...p, threshold: (p.threshold as number) - band })
+};
+
+const myProbabilityAbove: ConditionSpec = {
+  type: 'my_probability_above',
+  description: 'Conviction probability at or above a minimum',
+  normalizeParams: (raw, opts) => ({ min: pctParam(raw, 'min', opts) }),
+  describe: (p) => `my ≥ ${fmtPct(p.min as number)}`,
+  evaluate: async (p, ctx) => {
+    const conviction = ctx.getConviction();
+    if (!conviction) return { pass: false, detail: 'no conviction' };
+    return {
+      pass: conviction.myProbability >= (p.min as number),
+      detail: `my ${fmtPct(conviction.myProbability)} ≥ ${fmtPct(p.min as number)}`
+    };
+  },
+  widen: (p, band) => ({ ...p, min: (p.min as number) - band })
+};
+
+const spreadBelow: ConditionSpec = {
+  type: 'spread_below',
+  description: 'Best ask minus best bid at or below N cents',
+  normalizeParams: (raw) => ({ maxCents: positiveParam(raw, 'maxCents') }),
+  describe: (p) => `spread ≤ ${p.maxCents}¢`,
+  evaluate: async (p, ctx) => {
+    const prices = await ctx.getPrices();
+    if (prices?.bestBid == null || prices.bestAsk == null) return { pass: false, detail: 'no bid/ask' };
+    const spread = prices.bestAsk - prices.bestBid;
+    return { pass: spread * 100 <= (p.maxCents as number) + 1e-9, detail: `spread ${fmtCents(spread)} ≤ ${p.maxCents}¢` };
+  },
+  widen: (p, band) => ({ ...p, maxCents: (p.maxCents as number) + band * 100 })
+};
+
+const depthWithinCents: ConditionSpec = {
+  type: 'depth_within',
+  description: 'Book depth within N cents of the touch at or above a minimum (shares or USD)',
+  normalizeParams: (raw) => {
+    const side = String(raw.side ?? 'asks').trim().toLowerCase() === 'bids' ? 'bids' : 'asks';
+    const minShares = raw.minShares == null ? null : positiveParam(raw, 'minShares');
+    const minUsd = raw.minUsd == null ? null : positiveParam(raw, 'minUsd');
+    if (minShares == null && minUsd == null) throw new Error('depth_within needs minShares or minUsd');
+    return { outcome: outcomeParam(raw, 'outcome'), side, cents: positiveParam(raw, 'cents'), minShares, minUsd };
+  },
+  describe: (p) =>
+    `${p.outcome} ${p.side} depth within ${p.cents}¢ ≥ ${p.minUsd != null ? fmtUsd(p.minUsd as number) : `${p.minShares} sh`}`,
+  evaluate: async (p, ctx) => {
+    const book = await ctx.getBook(p.outcome as RuleOutcome);
+    if (!book) return { pass: false, detail: 'no book' };
+    const levels = p.side === 'bids' ? book.bids : book.asks;
+    const { shares, notional } = depthWithin(levels, p.cents as number);
+    const pass = (p.minShares == null || shares >= (p.minShares as number)) && (p.minUsd == null || notional >= (p.minUsd as number));
+    return { pass, detail: `${p.outcome} ${p.side} within ${p.cents}¢: ${shares.toFixed(0)} sh / ${fmtUsd(notional)}` };
+  }
+};
+
+const volume24hAbove: ConditionSpec = {
+  type: 'volume_24h_above',
+  description: '24h volume (USD) at or above a minimum',
+  normalizeParams: (raw) => ({ min: positiveParam(raw, 'min', { allowZero: true }) }),
+  describe: (p) => `vol24h ≥ ${fmtUsd(p.min as number)}`,
+  evaluate: async (p, ctx) => {
+    const volume = (await ctx.getStats())?.volume24h ?? null;
+    if (volume == null || !Number.isFinite(volume)) return { pass: false, detail: 'no volume' };
+    return { pass: volume >= (p.min as number), detail: `vol24h ${fmtUsd(volume)} ≥ ${fmtUsd(p.min as number)}` };
+  }
+};
+
+const resolvesWithin: ConditionSpec = {
+  type: 'resolves_within',
+  description: 'Market end date within N hours',
+  normalizeParams: (raw) => ({ hours: positiveParam(raw, 'hours') }),
+  describe: (p) => `resolves ≤ ${fmtHours(p.hours as number)}`,
+  evaluate: async (p, ctx) => {
+    const end = ctx.market.endDate ? parseEventDate(ctx.market.endDate) : null;
+    if (end == null) return { pass: false, detail: 'no end date' };
+    const hoursLeft = (end - ctx.now) / HOUR_MS;
+    return { pass: hoursLeft <= (p.hours as number), detail: `resolves in ${fmtHours(hoursLeft)} ≤ ${fmtHours(p.hours as number)}` };
+  }
+};
+
+// Average fill price for buying `usd` worth off the asks, or null when the book is too thin.
+export function vwapForNotional(asks: RuleBookLevel[], usd: number): number | null {
+  let spent = 0;
+  let shares = 0;
+  for (const l of asks) {
+    if (!(l.price > 0) || !(l.size > 0)) continue;
+    const take = Math.min(l.size * l.price, usd - spent);
+    spent += take;
+    shares += take / l.price;
+    if (spent >= usd - 1e-9) break;
+  }
+  if (spent < usd - 1e-9 || shares <= 0) return null;
+  return spent / shares;
+}
+
+const edgeAbove: ConditionSpec = {
+  type: 'edge_above',
+  description: 'Conviction probability minus the market price (mid, or best ask after slippage) at or above N points, for YES or NO',
+  normalizeParams: (raw, opts) => {
+    const basis = String(raw.basis ?? 'mid').trim().toLowerCase() === 'ask' ? 'ask' : 'mid';
+    const sizeUsd = raw.sizeUsd == null || raw.sizeUsd === '' ? null : positiveParam(raw, 'sizeUsd');
+    return { min: pctParam(raw, 'min', opts), side: outcomeParam(raw, 'side'), basis, sizeUsd };
+  },
+  describe: (p) => {
+    const basis = p.basis === 'ask' ? ` vs ask${p.sizeUsd != null ? ` ${fmtUsd(p.sizeUsd as number)}` : ''}` : '';
+    return `${p.side} edge${basis} ≥ ${fmtPct(p.min as number)}`;
+  },
+  evaluate: async (p, ctx) => {
+    const conviction = ctx.getConviction();
+    if (!conviction) return { pass: false, detail: 'no conviction' };
+    const side = p.side as RuleOutcome;
+    const mine = side === 'YES' ? conviction.myProbability : 1 - conviction.myProbability;
+
+    let price: number | null = null;
+    let label = 'mid';
+    if (p.basis === 'ask') {
+      const book = await ctx.getBook(side);
+      if (book && book.asks.length) {
+        price = p.sizeUsd != null ? vwapForNotional(book.asks, p.sizeUsd as number) : book.asks[0]!.price;
+        if (price == null) return { pass: false, detail: `${side} book too thin for ${fmtUsd(p.sizeUsd as number)}` };
+        label = p.sizeUsd != null ? `ask ${fmtUsd(p.sizeUsd as number)} vwap` : 'ask';
+      } else {
+        // No CLOB book: fall back to Gamma's touch (the NO ask mirrors the YES bid).
+        const prices = await ctx.getPrices();
+        price = side === 'YES' ? prices?.bestAsk ?? null : prices?.bestBid == null ? null : 1 - prices.bestBid;
+        label = 'ask';
+      }
+    } else {
+      const mid = (await ctx.getPrices())?.mid ?? null;
+      price = mid == null ? null : side === 'YES' ? mid : 1 - mid;
+    }
+
+    if (price == null || !Number.isFinite(price)) return { pass: false, detail: `no ${label}` };
+    const edge = mine - price;
+    return {
+      pass: edge >= (p.min as number) - 1e-9,
+      detail: `${side} edge ${fmtPct(edge)} (my ${fmtPct(mine)} vs ${label} ${fmtPct(price)}) ≥ ${fmtPct(p.min as number)}`
+    };
+  },
+  widen: (p, band) => ({ ...p, min: (p.min as number) - band })
+};
+
+const infoEventWithin: ConditionSpec = {
+  type: 'info_event_within',
+  description: 'A calendar event for this market falls within the next N hours',
+  normalizeParams: (raw) => ({ hours: positiveParam(raw, 'hours') }),
+  describe: (p) => `info event ≤ ${fmtHours(p.hours as number)}`,
+  evaluate: async (p, ctx) => {
+    const horizon = ctx.now + (p.hours as number) * HOUR_MS;
+    let next: { title: string; at: number } | null = null;
+    for (const ev of ctx.getInfoEvents()) {
+      const at = parseEventDate(ev.date);
+      if (at == null || at < ctx.now || at > horizon) continue;
+      if (!next || at < next.at) next = { title: ev.title, at };
+    }
+    if (!next) return { pass: false, detail: `no info event within ${fmtHours(p.hours as number)}` };
+    return { pass: true, detail: `"${next.title}" in ${fmtHours((next.at - ctx.now) / HOUR_MS)}` };
+  }
+};
+
+const repricingRemainingAbove: ConditionSpec = {
+  type: 'repricing_remaining_above',
+  description: 'A calendar event for this market passed within the last N hours and its category typically still has ≥ min of the move to go',
+  normalizeParams: (raw, opts) => ({ min: pctParam(raw, 'min', opts), hours: raw.hours == null ? 72 : positiveParam(raw, 'hours') }),
+  describe: (p) => `repricing left ≥ ${fmtPct(p.min as number)} (event ≤ ${fmtHours(p.hours as number)} ago)`,
+  evaluate: async (p, ctx) => {
+    const since = ctx.now - (p.hours as number) * HOUR_MS;
+    let last: { title: string; category: string | null; at: number } | null = null;
+    for (const ev of ctx.getInfoEvents()) {
+      const at = parseEventDate(ev.date);
+      if (at == null || at > ctx.now || at < since) continue;
+      if (!last || at > last.at) last = { title: ev.title, category: ev.category, at };
+    }
+    if (!last) return { pass: false, detail: `no info event in the last ${fmtHours(p.hours as number)}` };
+    const curve = ctx.getRepricingCurve(last.category);
+    const elapsed = (ctx.now - last.at) / HOUR_MS;
+    const priced = curve ? fractionRepricedAt(curve, elapsed) : null;
+    if (priced == null) return { pass: false, detail: `no repricing history for ${last.category ?? 'uncategorized'} events` };
+    const remaining = 1 - priced;
+    return {
+      pass: remaining >= (p.min as number) - 1e-9,
+      detail: `"${last.title}" ${fmtHours(elapsed)} ago: typically ${fmtPct(remaining)} of the move left (${curve!.events} ${curve!.category} events)`
+    };
+  }
+};
+
+export const builtinConditions: ConditionSpec[] = [
+  priceBelow,
+  priceAbove,
+  myProbabilityAbove,
+  spreadBelow,
+  depthWithinCents,
+  volume24hAbove,
+  resolvesWithin,
+  edgeAbove,
+  infoEventWithin,
+  repricingRemainingAbove
+];
@@ -0,0 +1,35 @@
+export type {
+  ConditionParams,
+  ConditionResult,
+  ConditionSpec,
+  ConditionTreeResult,
+  RuleBook,
+  RuleBookLevel,
+  RuleConditionNode,
+  RuleEvalContext,
+  RuleMarketPrices,
+  RuleMarketStats,
+  RuleOutcome
+} from './types.js';
+export { getCondition, listConditions, registerCondition } from './registry.js';
+export {
+  describeConditionTree,
+  edgeConditionTree,
+  evaluateConditionTree,
+  legacyConditionTree,
+  normalizeConditionTree,
+  parseStoredConditionTree,
+  widenConditionTree
+} from './tree.js';
+export { parseEventDate, vwapForNotional } from './conditions.js';
+export { canRearm, isRuleExpired, stepRule, type RuleLifecycleState, type RuleStep } from './lifecycle.js';
+export {
+  describeRuleAction,
+  normalizeRuleAction,
+  parseStoredRuleAction,
+  sizeRuleOrder,
+  type RuleAction,
+  type RuleOrderAction,
+  type RuleOrderSize,
+  type RuleSizing
+} from './actions.js';
@@ -0,0 +1,47 @@
+import type { Rule } from '../db/index.js';
+import { describeConditionTree, evaluateConditionTree, widenConditionTree } from './tree.js';
+import type { RuleEvalContext } from './types.js';
+
+export type RuleLifecycleState = Pick<
+  Rule,
+  'conditions' | 'status' | 'mode' | 'rearmBand' | 'cooldownMinutes' | 'maxFires' | 'fireCount' | 'expiresAt' | 'triggeredAt'
+>;
+
+export type RuleStep =
+  | { action: 'none' }
+  | { action: 'expire' }
+  | { action: 'rearm'; detail: string }
+  | { action: 'fire'; details: string[] };
+
+export function isRuleExpired(rule: Pick<Rule, 'expiresAt'>, now: number): boolean {
+  return rule.expiresAt != null && now >= rule.expiresAt;
+}
+
+export function canRearm(rule: Pick<Rule, 'mode' | 'maxFires' | 'fireCount'>): boolean {
+  return rule.mode === 'rearm' && (rule.maxFires == null || rule.fireCount < rule.maxFires);
+}
+
+// One tick of a rule's state machine. The live engine and the backtester both drive rules through this,
+// so a backtest fires exactly when the engine would have.
+export async function stepRule(rule: RuleLifecycleState, ctx: RuleEvalContext): Promise<RuleStep> {
+  if (isRuleExpired(rule, ctx.now)) return { action: 'expire' };
+
+  if (rule.status === 'triggered') {
+    if (!canRearm(rule)) return { action: 'none' };
+    // Waiting to re-arm: only once the market has moved back past the hysteresis band.
+    // Missing prices are not evidence of that, so skip the check rather than re-arm on a fetch error.
+    // The live engine reports a Gamma miss as `mid: null` and the backtester a gap as no prices at all.
+    const prices = await ctx.getPrices();
+    if (prices?.mid == null || !Number.isFinite(prices.mid)) return { action: 'none' };
+    const still = await evaluateConditionTree(widenConditionTree(rule.conditions, rule.rearmBand), ctx);
+    return still.pass ? { action: 'none' } : { action: 'rearm', detail: `cleared: NOT ${describeConditionTree(rule.conditions)}` };
+  }
+
+  if (rule.status !== 'active') return { action: 'none' };
+  const result = await evaluateConditionTree(rule.conditions, ctx);
+  if (!result.pass) return { action: 'none' };
+  if (rule.cooldownMinutes != null && rule.triggeredAt != null && ctx.now - rule.triggeredAt < rule.cooldownMinutes * 60_000) {
+    return { action: 'none' };
+  }
+  return { action: 'fire', details: result.details };
+}
@@ -0,0 +1,23 @@
+import type { ConditionSpec } from './types.js';
+
+import { builtinConditions } from './conditions.js';
+
+const conditions = new Map<string, ConditionSpec>();
+
+export function registerCondition(spec: ConditionSpec): void {
+  const type = spec.type.trim();
+  if (!type) throw new Error('condition type required');
+  conditions.set(type, spec);
+}
+
+export function getCondition(type: string): ConditionSpec | null {
+  const wanted = String(type || '').trim();
+  if (!wanted) return null;
+  return conditions.get(wanted) ?? null;
+}
+
+export function listConditions(): ConditionSpec[] {
+  return [...conditions.values()].sort((a, b) => a.type.localeCompare(b.type));
+}
+
+for (const spec of builtinConditions) registerCondition(spec);
@@ -0,0 +1,138 @@
+import { getCondition } from './registry.js';
+import type { ConditionTreeResult, RuleConditionNode, RuleEvalContext } from './types.js';
+
+const MAX_DEPTH = 8;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Accepts the canonical stored shape as well as a terser authoring shape:
+//   { "and": [ ... ] }, { "or": [ ... ] }, { "not": { ... } }, { "type": "spread_below", "maxCents": 2 }
+export function normalizeConditionTree(raw: unknown): RuleConditionNode {
+  return buildConditionTree(raw, {}, 0);
+}
+
+function buildConditionTree(raw: unknown, opts: { stored?: boolean }, depth: number): RuleConditionNode {
+  if (depth > MAX_DEPTH) throw new Error(`conditions nested deeper than ${MAX_DEPTH}`);
+  const value = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  if (!isObject(value)) throw new Error('condition must be an object');
+
+  const op = typeof value.op === 'string' ? value.op.trim().toLowerCase() : '';
+
+  const list = op === 'and' || op === 'or' ? value.children : Array.isArray(value.and) ? value.and : Array.isArray(value.or) ? value.or : null;
+  if (list != null) {
+    const kind: 'and' | 'or' = op === 'or' || (!op && Array.isArray(value.or)) ? 'or' : 'and';
+    if (!Array.isArray(list) || !list.length) throw new Error(`${kind} needs at least one child condition`);
+    return { op: kind, children: list.map((c) => buildConditionTree(c, opts, depth + 1)) };
+  }
+
+  if (op === 'not' || (!op && value.not !== undefined)) {
+    return { op: 'not', child: buildConditionTree(op === 'not' ? value.child : value.not, opts, depth + 1) };
+  }
+
+  if (op && op !== 'condition') throw new Error(`Unknown condition op: ${op}`);
+
+  const type = String(value.type || '').trim();
+  const spec = getCondition(type);
+  if (!spec) throw new Error(`Unknown condition type: ${type || '(missing type)'}`);
+  const { op: _op, type: _type, params, ...inline } = value;
+  const rawParams = isObject(params) ? params : inline;
+  return { op: 'condition', type: spec.type, params: spec.normalizeParams(rawParams, opts) };
+}
+
+// Stored trees are canonical (normalized when saved), so their probabilities are not re-scaled.
+export function parseStoredConditionTree(raw: unknown): RuleConditionNode | null {
+  if (raw == null || raw === '') return null;
+  try {
+    return buildConditionTree(raw, { stored: true }, 0);
+  } catch {
+    return null;
+  }
+}
+
+export function describeConditionTree(node: RuleConditionNode): string {
+  if (node.op === 'condition') {
+    const spec = getCondition(node.type);
+    return spec ? spec.describe(node.params) : node.type;
+  }
+  if (node.op === 'not') return `NOT ${describeConditionTree(node.child)}`;
+  const parts = node.children.map((c) => (c.op === 'and' || c.op === 'or' ? `(${describeConditionTree(c)})` : describeConditionTree(c)));
+  return parts.join(node.op === 'and' ? ' AND ' : ' OR ');
+}
+
+// Hysteresis: a fired rule re-arms once even the widened tree fails, i.e. the market has moved `band` past the trigger.
+// NOT flips the direction, so `NOT price_above 60%` widened by 2 points becomes `NOT price_above 62%`.
+export function widenConditionTree(node: RuleConditionNode, band: number): RuleConditionNode {
+  if (!band) return node;
+  if (node.op === 'condition') {
+    const spec = getCondition(node.type);
+    return spec?.widen ? { ...node, params: spec.widen(node.params, band) } : node;
+  }
+  if (node.op === 'not') return { op: 'not', child: widenConditionTree(node.child, -band) };
+  return { op: node.op, children: node.children.map((c) => widenConditionTree(c, band)) };
+}
+
+// Short-circuits like the boolean operators do; `details` only carries the reasons that made the tree pass.
+export async function evaluateConditionTree(node: RuleConditionNode, ctx: RuleEvalContext): Promise<ConditionTreeResult> {
+  if (node.op === 'condition') {
+    const spec = getCondition(node.type);
+    if (!spec) return { pass: false, details: [] };
+    const result = await spec.evaluate(node.params, ctx);
+    return { pass: result.pass, details: result.pass ? [result.detail] : [] };
+  }
+
+  if (node.op === 'not') {
+    const inner = await evaluateConditionTree(node.child, ctx);
+    return { pass: !inner.pass, details: inner.pass ? [] : [`NOT ${describeConditionTree(node.child)}`] };
+  }
+
+  if (node.op === 'and') {
+    const details: string[] = [];
+    for (const child of node.children) {
+      const r = await evaluateConditionTree(child, ctx);
+      if (!r.pass) return { pass: false, details: [] };
+      details.push(...r.details);
+    }
+    return { pass: true, details };
+  }
+
+  for (const child of node.children) {
+    const r = await evaluateConditionTree(child, ctx);
+    if (r.pass) return r;
+  }
+  return { pass: false, details: [] };
+}
+
+// Pre-composite rules were a single price threshold plus an optional minimum conviction.
+export function legacyConditionTree(input: {
+  type: 'price_below' | 'price_above';
+  priceThreshold: number;
+  minMyProbability: number | null;
+}): RuleConditionNode {
+  const price: RuleConditionNode = { op: 'condition', type: input.type, params: { threshold: input.priceThreshold } };
+  if (input.minMyProbability == null) return price;
+  return {
+    op: 'and',
+    children: [price, { op: 'condition', type: 'my_probability_above', params: { min: input.minMyProbability } }]
+  };
+}
+
+export function edgeConditionTree(input: {
+  side: 'YES' | 'NO';
+  minEdge: number;
+  basis: 'mid' | 'ask';
+  sizeUsd: number | null;
+  minMyProbability: number | null;
+}): RuleConditionNode {
+  const edge: RuleConditionNode = {
+    op: 'condition',
+    type: 'edge_above',
+    params: { min: input.minEdge, side: input.side, basis: input.basis, sizeUsd: input.sizeUsd }
+  };
+  if (input.minMyProbability == null) return edge;
+  return {
+    op: 'and',
+    children: [edge, { op: 'condition', type: 'my_probability_above', params: { min: input.minMyProbability } }]
+  };
+}
@@ -0,0 +1,60 @@
+import type { RepricingCurve } from '../calendar/index.js';
+import type { Conviction, InfoEvent, Market } from '../db/index.js';
+
+export type ConditionParams = Record<string, unknown>;
+
+// Stored (canonical) shape of `rules.conditions`.
+export type RuleConditionNode =
+  | { op: 'and'; children: RuleConditionNode[] }
+  | { op: 'or'; children: RuleConditionNode[] }
+  | { op: 'not'; child: RuleConditionNode }
+  | { op: 'condition'; type: string; params: ConditionParams };
+
+export type RuleOutcome = 'YES' | 'NO';
+
+export type RuleMarketPrices = {
+  mid: number | null; // YES
+  bestBid: number | null; // YES
+  bestAsk: number | null; // YES
+  lastTrade: number | null;
+  asOf: number;
+};
+
+export type RuleBookLevel = { price: number; size: number };
+export type RuleBook = { bids: RuleBookLevel[]; asks: RuleBookLevel[] };
+
+export type RuleMarketStats = {
+  volume24h: number | null;
+  liquidity: number | null;
+};
+
+// Everything a condition may look at. Getters are lazy so a rule only pays for the data it needs
+// (e.g. a plain price rule never fetches the CLOB book).
+export interface RuleEvalContext {
+  now: number;
+  market: Market;
+  getPrices: () => Promise<RuleMarketPrices | null>;
+  getBook: (outcome: RuleOutcome) => Promise<RuleBook | null>;
+  getStats: () => Promise<RuleMarketStats | null>;
+  getConviction: () => Conviction | null;
+  getInfoEvents: () => InfoEvent[];
+  // Typical post-event repricing for an event category (event study over stored price history).
+  getRepricingCurve: (category: string | null) => RepricingCurve | null;
+}
+
+export type ConditionResult = { pass: boolean; detail: string };
+
+export interface ConditionSpec {
+  type: string;
+  description: string;
+  // Validate/normalize user input; throw on invalid params. `stored` params were normalized when saved:
+  // validate them as they are (probabilities are already 0..1) instead of re-reading 1..100 as percents.
+  normalizeParams: (raw: ConditionParams, opts?: { stored?: boolean }) => ConditionParams;
+  describe: (params: ConditionParams) => string;
+  evaluate: (params: ConditionParams, ctx: RuleEvalContext) => Promise<ConditionResult>;
+  // Loosen the params by `band` probability points (a negative band tightens). Used for re-arm hysteresis;
+  // conditions without it re-arm as soon as they stop passing.
+  widen?: (params: ConditionParams, band: number) => ConditionParams;
+}
+
+export type ConditionTreeResult = { pass: boolean; details: string[] };
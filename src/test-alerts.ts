@@ -0,0 +1,139 @@
+/**
+ * Test alert sinks offline
+ *
+ * Runs every sink type against local stand-ins: a stub HTTP server for webhooks
+ * (failing the first requests to exercise retry/backoff), a temp dir for mbox/maildir,
+ * and `true` in place of notify-send. Does not touch the workstation DBs.
+ *
+ * Usage:
+ *   npx tsx src/test-alerts.ts
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deliverWithRetry, type DeliveryAttempt } from './alerts/deliver.js';
+import { createAlertSink, loadAlertSinks, sinkAccepts } from './alerts/sinks.js';
+import type { AlertNotice, AlertSinkConfig } from './alerts/types.js';
+
+const policy = { baseDelayMs: 10, maxDelayMs: 50 };
+
+const notice: AlertNotice = {
+  id: 'alert_test',
+  severity: 'warning',
+  message: 'Will it rain? YES ask 41.0% ≤ 42.0%\nFrom here the body continues',
+  createdAt: Date.UTC(2026, 9, 19, 12, 0, 0),
+  ruleId: 'rule_test',
+  marketId: 'mkt_test',
+  marketQuestion: 'Will it rain?'
+};
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail = ''): void {
+  if (!ok) failures++;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}${detail ? ` (${detail})` : ''}`);
+}
+
+async function main() {
+  console.log('\n🔔 Testing alert sinks (offline)\n');
+
+  // Stub webhook: /flaky fails twice before accepting, /down always fails.
+  const received: Array<{ path: string; body: any }> = [];
+  let flakyCalls = 0;
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      received.push({ path: req.url || '', body: raw ? JSON.parse(raw) : null });
+      const fail = req.url === '/down' || (req.url === '/flaky' && ++flakyCalls <= 2);
+      res.statusCode = fail ? 503 : 204;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const dir = await mkdtemp(join(tmpdir(), 'tt-alerts-'));
+
+  try {
+    const attempts: DeliveryAttempt[] = [];
+    const flaky = createAlertSink({ type: 'webhook', name: 'flaky', url: `${base}/flaky`, format: 'slack', maxAttempts: 4 });
+    const result = await deliverWithRetry(flaky, notice, { policy, onAttempt: (a) => attempts.push(a) });
+    check('webhook retries until delivered', result.ok && result.attempt === 3, `attempts=${attempts.map((a) => (a.ok ? 'ok' : a.error)).join(',')}`);
+    check('slack payload has text', typeof received.at(-1)?.body?.text === 'string');
+
+    const down = createAlertSink({ type: 'webhook', name: 'down', url: `${base}/down`, format: 'discord', maxAttempts: 2 });
+    const failed = await deliverWithRetry(down, notice, { policy });
+    check('webhook gives up after maxAttempts', !failed.ok && failed.final && failed.attempt === 2, String(failed.error));
+    check('discord payload has content', typeof received.at(-1)?.body?.content === 'string');
+
+    const json = createAlertSink({ type: 'webhook', name: 'json', url: `${base}/ok` });
+    await deliverWithRetry(json, notice, { policy });
+    const last = received.at(-1)?.body;
+    check('json payload carries the alert', last?.alert?.id === notice.id && typeof last?.text === 'string');
+
+    const critical = createAlertSink({ type: 'webhook', name: 'pager', url: `${base}/ok`, minSeverity: 'critical' });
+    check('severity filter drops warning', !sinkAccepts(critical, 'warning'));
+    check('severity filter passes critical', sinkAccepts(critical, 'critical'));
+
+    const mboxPath = join(dir, 'alerts.mbox');
+    const mbox = createAlertSink({ type: 'mbox', path: mboxPath });
+    await deliverWithRetry(mbox, notice, { policy });
+    await deliverWithRetry(mbox, { ...notice, id: 'alert_test_2' }, { policy });
+    const mboxText = await readFile(mboxPath, 'utf8');
+    check('mbox holds two messages', (mboxText.match(/^From truth-terminal@localhost /gm) ?? []).length === 2);
+    check('mbox escapes From lines', mboxText.includes('\n>From here the body continues'));
+
+    const maildirPath = join(dir, 'Maildir');
+    const maildir = createAlertSink({ type: 'maildir', path: maildirPath });
+    await deliverWithRetry(maildir, notice, { policy });
+    const delivered = await readdir(join(maildirPath, 'new'));
+    const staged = await readdir(join(maildirPath, 'tmp'));
+    check('maildir delivers into new/', delivered.length === 1 && staged.length === 0);
+
+    const desktop = createAlertSink({ type: 'desktop', command: 'true' });
+    const shown = await deliverWithRetry(desktop, notice, { policy });
+    check('desktop sink runs the notify command', shown.ok, String(shown.error ?? ''));
+
+    const missing = createAlertSink({ type: 'desktop', command: 'tt-no-such-notify-command' });
+    const notShown = await deliverWithRetry(missing, notice, { policy });
+    check('desktop sink reports a missing command', !notShown.ok && notShown.attempt === 1);
+
+    // Hand-edited config: bad values are rejected up front instead of retrying forever or at send time
+    const invalid: Array<[string, unknown]> = [
+      ['maxAttempts as a string', { type: 'webhook', url: `${base}/ok`, maxAttempts: '3' }],
+      ['maxAttempts of 0', { type: 'mbox', path: mboxPath, maxAttempts: 0 }],
+      ['timeoutMs out of range', { type: 'webhook', url: `${base}/ok`, timeoutMs: -1 }],
+      ['webhook without url', { type: 'webhook' }],
+      ['maildir without path', { type: 'maildir', path: ' ' }],
+      ['unknown minSeverity', { type: 'desktop', minSeverity: 'critcal' }],
+      ['non-string header', { type: 'webhook', url: `${base}/ok`, headers: { 'X-Token': 1 } }]
+    ];
+    for (const [label, config] of invalid) {
+      let error = '';
+      try {
+        createAlertSink(config as AlertSinkConfig);
+      } catch (e: any) {
+        error = String(e?.message || e);
+      }
+      check(`rejects ${label}`, error !== '', error);
+    }
+    const sinksFile = join(dir, 'sinks.json');
+    await writeFile(sinksFile, JSON.stringify([{ type: 'desktop', command: 'true' }, { type: 'webhook', name: 'hook', url: `${base}/ok`, maxAttempts: 'lots' }]));
+    const loadError = await loadAlertSinks(sinksFile).then(() => '', (e) => String(e?.message || e));
+    check('sinks file names the bad entry', loadError.startsWith('alert sink #2 (hook): maxAttempts'), loadError);
+  } finally {
+    server.close();
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n${failures ? `${failures} check(s) failed` : 'All checks passed'}\n`);
+  process.exitCode = failures ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
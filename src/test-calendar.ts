@@ -0,0 +1,118 @@
+/**
+ * Test calendar helpers offline
+ *
+ * Runs schedule titles against a fixed set of market questions and checks which market (if any)
+ * each one links to, reads expected moves out of impact hypotheses, converts iCalendar TZID times to UTC,
+ * and checks event studies only report a final move when the series reaches the end of the post window.
+ * Pure functions; no DB or network.
+ *
+ * Usage:
+ *   npx tsx src/test-calendar.ts
+ */
+
+import { parseIcs } from './calendar/ics.js';
+import { matchMarketForTitle, titleKeywords } from './calendar/link.js';
+import { studyEvent, type PricePoint } from './calendar/repricing.js';
+import { hypothesisDirection, type HypothesisDirection } from './calendar/window.js';
+import type { Market } from './db/index.js';
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail = ''): void {
+  if (!ok) failures++;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}${detail ? ` (${detail})` : ''}`);
+}
+
+function market(id: string, question: string): Market {
+  return { id, source: 'polymarket', externalId: id, slug: id, question, endDate: null, resolutionSource: null, createdAt: 0, updatedAt: 0 };
+}
+
+const markets = [
+  market('btc', 'Will the Bitcoin price be above $100,000 on Friday?'),
+  market('fed', 'Will the Fed cut rates in December?'),
+  market('aapl', 'Will Apple beat quarterly earnings estimates?'),
+  market('jobs', 'Will US unemployment be above 4.5% in November?')
+];
+
+// title → expected market id (null = no link)
+const cases: Array<[string, string | null]> = [
+  ['Consumer Price Index', null],
+  ['Weekly Jobless Claims Friday', null],
+  ['Apple Earnings Call', 'aapl'],
+  ['FOMC Meeting', 'fed'],
+  ['CPI Release', null],
+  ['NFP Report', 'jobs'],
+  ['Bitcoin Conference Day 2', null],
+  ['Bitcoin ETF Price Update', null]
+];
+
+// impact hypothesis → expected direction and YES move
+const hypotheses: Array<[string, HypothesisDirection]> = [
+  ['YES +5% on a hawkish surprise', { direction: 1, expectedMove: 0.05 }],
+  ['-3pp if the print is hot', { direction: -1, expectedMove: -0.03 }],
+  ['YES (−4c) after the ruling', { direction: -1, expectedMove: -0.04 }],
+  ['YES rises to 60%', { direction: 1, expectedMove: null }],
+  ['YES up 12%', { direction: 1, expectedMove: null }],
+  ['jump a 10c', { direction: 1, expectedMove: null }],
+  ['could go up or down', { direction: null, expectedMove: null }]
+];
+
+const ics = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT', 'SUMMARY:FOMC Statement', 'DTSTART;TZID=America/New_York:20250917T140000', 'END:VEVENT',
+  'BEGIN:VEVENT', 'SUMMARY:CPI', 'DTSTART;TZID="America/New_York":20260113T083000', 'END:VEVENT',
+  'BEGIN:VEVENT', 'SUMMARY:ECB Decision', 'DTSTART:20251030T131500Z', 'END:VEVENT',
+  'BEGIN:VEVENT', 'SUMMARY:Odd zone', 'DTSTART;TZID=Eastern Standard Time:20251030T090000', 'END:VEVENT',
+  'BEGIN:VEVENT', 'SUMMARY:Election Day', 'DTSTART;VALUE=DATE:20261103', 'END:VEVENT',
+  'END:VCALENDAR'
+].join('\r\n');
+
+// title → [date, dateConfidence]
+const icsDates: Record<string, [string, string]> = {
+  'FOMC Statement': ['2025-09-17T18:00:00Z', 'exact'],
+  CPI: ['2026-01-13T13:30:00Z', 'exact'],
+  'ECB Decision': ['2025-10-30T13:15:00Z', 'exact'],
+  'Odd zone': ['2025-10-30T09:00:00', 'approximate'],
+  'Election Day': ['2026-11-03', 'exact']
+};
+
+function main() {
+  console.log('\n🗓  Testing calendar helpers (offline)\n');
+
+  for (const [title, expected] of cases) {
+    const match = matchMarketForTitle(title, markets);
+    const got = match?.market.id ?? null;
+    check(`${title} → ${expected ?? 'no link'}`, got === expected, `got ${got ?? 'no link'}${match ? `, score ${match.score}` : ''}`);
+  }
+
+  const weights = new Map(titleKeywords('Apple Earnings Call').map((k) => [k.word, k.weight]));
+  check('first word weighs like the others', weights.get('apple') === weights.get('earnings'), JSON.stringify([...weights]));
+  check('all-caps titles are not all acronyms', titleKeywords('CONSUMER PRICE INDEX').every((k) => k.weight === 1));
+
+  for (const [text, expected] of hypotheses) {
+    const got = hypothesisDirection(text);
+    check(`"${text}" → ${JSON.stringify(expected)}`, JSON.stringify(got) === JSON.stringify(expected), `got ${JSON.stringify(got)}`);
+  }
+
+  const parsed = parseIcs(ics);
+  for (const [title, [date, confidence]] of Object.entries(icsDates)) {
+    const item = parsed.items.find((i) => i.title === title);
+    check(`ICS ${title} → ${date} (${confidence})`, item?.date === date && item.dateConfidence === confidence, `got ${item?.date} (${item?.dateConfidence})`);
+  }
+
+  // Hourly mids from 12h before the event; the default post window is 72h
+  const hour = 60 * 60 * 1000;
+  const t0 = Date.UTC(2026, 9, 1, 12, 0, 0);
+  const series = (hours: number): PricePoint[] =>
+    Array.from({ length: hours + 13 }, (_, i) => ({ at: t0 + (i - 12) * hour, mid: i <= 12 ? 0.4 : 0.6 }));
+  const event = { eventId: 'ev', title: 'CPI', category: 'economics', marketId: 'mkt', at: t0 };
+  const full = studyEvent(event, series(72));
+  check('study through the post window', full?.final === 0.6 && Math.abs(full.move - 0.2) < 1e-9, JSON.stringify(full && { final: full.final, move: full.move }));
+  check('study ending 3h early is kept', studyEvent(event, series(69)) != null);
+  check('study ending a day early is skipped', studyEvent(event, series(48)) == null);
+
+  console.log(`\n${failures ? `${failures} check(s) failed` : 'All checks passed'}\n`);
+  process.exitCode = failures ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,111 @@
+/**
+ * Test the real-time detector offline
+ *
+ * Points the manipulation store at a temp file, saves trade batches the way the collector does
+ * (the whole batch first, then one detector call per trade) and checks that warm-up state
+ * doesn't count a batch's later trades twice; then replays days of trades through the signature
+ * tallies (windows, baseline, re-arming, rebuild). Does not touch data/manipulation.db.
+ *
+ * Usage:
+ *   npx tsx src/test-realtime.ts
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ManipulationAlert, StoredTrade } from './manipulation/types.js';
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail = ''): void {
+  if (!ok) failures++;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}${detail ? ` (${detail})` : ''}`);
+}
+
+function buy(id: string, wallet: string, marketId: string, size: number, timestamp: number, price = 0.5): StoredTrade {
+  return { id, timestamp, marketId, wallet, side: 'BUY', outcome: 'Yes', size, price };
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+async function main() {
+  console.log('\n📡 Testing real-time detector (offline)\n');
+
+  const dir = await mkdtemp(join(tmpdir(), 'tt-realtime-'));
+  process.env.TT_MANIPULATION_DB = join(dir, 'manipulation.db');
+
+  try {
+    const { db, getMarketWalletVolumes, getWalletTradeSummary, saveNewTrades } = await import('./manipulation/db.js');
+    const { RealtimeDetector } = await import('./manipulation/realtime.js');
+    const { DEFAULT_SIGNATURE_THRESHOLDS, rebuildSignatureTallies, recordTradeSignature } = await import('./manipulation/signatures.js');
+
+    const alerts: ManipulationAlert[] = [];
+    const detector = new RealtimeDetector({ signatureThresholds: false, enrichUnknownWallets: false, onAlert: (a) => alerts.push(a) });
+    const concentrated = () => alerts.filter((a) => a.type === 'CONCENTRATED_MARKET');
+    const t0 = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+    // One poll: $900 from two wallets, under the $1,000 concentrated-market floor
+    const batch = saveNewTrades([
+      buy('a1', 'w1', 'm1', 300, t0),
+      buy('a2', 'w1', 'm1', 300, t0 + 1000),
+      buy('a3', 'w2', 'm1', 300, t0 + 1000),
+    ]);
+    check('warm-up stops at the current trade', getWalletTradeSummary('w1', batch[0]!).tradeCount === 1);
+    check('market warm-up stops at the current trade', getMarketWalletVolumes('m1', batch[1]!).w2 === undefined);
+    for (const t of batch) detector.process(t);
+    check('batch trades are not counted twice', concentrated().length === 0, concentrated()[0]?.details);
+
+    // Next poll pushes the market past $1,000 with three wallets
+    for (const t of saveNewTrades([buy('a4', 'w3', 'm1', 300, t0 + 5000)])) detector.process(t);
+    check('next batch crosses the threshold', concentrated().length === 1 && concentrated()[0]!.details.includes('$1200'), concentrated()[0]?.details);
+
+    // A fresh detector warms from the DB and sees the same $1,200
+    const restarted = new RealtimeDetector({ signatureThresholds: false, enrichUnknownWallets: false, cooldownMs: 0, onAlert: (a) => alerts.push(a) });
+    for (const t of saveNewTrades([buy('a5', 'w1', 'm1', 100, t0 + 9000)])) restarted.process(t);
+    check('restart warms from stored trades', concentrated().at(-1)!.details.includes('$1300'), concentrated().at(-1)?.details);
+
+    // Signatures: a busy retail bucket every afternoon, and $1K+ low-odds rings that show up once in a while
+    const day0 = Date.UTC(2026, 9, 1, 13, 0, 0);
+    const signatureAlerts: string[] = [];
+    const record = (t: StoredTrade) => {
+      const alert = recordTradeSignature(t, null, DEFAULT_SIGNATURE_THRESHOLDS)?.alert;
+      if (alert) signatureAlerts.push(`${new Date(t.timestamp).toISOString().slice(0, 10)} ${alert.details}`);
+      return saveNewTrades([t]);
+    };
+    const ring = (tag: string, at: number, price = 0.07) => {
+      record(buy(`${tag}1`, 'r1', 'p1', 2000, at, price));
+      record(buy(`${tag}2`, 'r2', 'p2', 2000, at + 60_000, price));
+      record(buy(`${tag}3`, 'r3', 'p1', 2000, at + 120_000, price));
+      record(buy(`${tag}4`, 'r1', 'p2', 2000, at + 180_000, price));
+      record(buy(`${tag}5`, 'r2', 'p1', 2000, at + 240_000, price));
+    };
+    for (let d = 0; d < 5; d++) {
+      for (let i = 0; i < 10; i++) record(buy(`busy${d}_${i}`, `retail${i % 5}`, `m${i % 3}`, 300, day0 + d * DAY_MS + i * 10 * 60_000));
+    }
+    ring('ringA', day0 + 5 * 60_000, 0.15);
+    check('no signature alerts during warm-up or for a steady bucket', signatureAlerts.length === 0, signatureAlerts.join('; '));
+
+    ring('ringB', day0 + 3 * DAY_MS);
+    check('a ring well above its bucket baseline alerts', signatureAlerts.length === 1, signatureAlerts.join('; '));
+    ring('ringC', day0 + 3 * DAY_MS + HOUR_MS);
+    check('the same window does not alert again', signatureAlerts.length === 1);
+    ring('ringD', day0 + 12 * DAY_MS);
+    check('the alert re-arms after a window', signatureAlerts.length === 2, signatureAlerts.join('; '));
+
+    const rebuilt = rebuildSignatureTallies(DEFAULT_SIGNATURE_THRESHOLDS);
+    check('rebuild keeps alerts within their window', rebuilt.alerts.length === 0, rebuilt.alerts.map((a) => a.details).join('; '));
+
+    db.close();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+
+  console.log(`\n${failures ? `${failures} check(s) failed` : 'All checks passed'}\n`);
+  process.exitCode = failures ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
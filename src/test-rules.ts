@@ -0,0 +1,98 @@
+/**
+ * Test rule parsing offline
+ *
+ * Round-trips rule actions and condition trees through their stored JSON form and checks nothing is re-scaled
+ * on the way back, and steps the rule state machine over missing prices.
+ * Pure functions; no DB or network.
+ *
+ * Usage:
+ *   npx tsx src/test-rules.ts
+ */
+
+import type { Market } from './db/index.js';
+import { normalizeRuleAction, parseStoredRuleAction } from './rules/actions.js';
+import { stepRule, type RuleLifecycleState } from './rules/lifecycle.js';
+import { normalizeConditionTree, parseStoredConditionTree } from './rules/tree.js';
+import type { RuleEvalContext, RuleMarketPrices } from './rules/types.js';
+
+let failures = 0;
+
+function check(label: string, ok: boolean, detail = ''): void {
+  if (!ok) failures++;
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}${detail ? ` (${detail})` : ''}`);
+}
+
+// What the DB does: normalize the authored value, store it as JSON, parse it back on read.
+function roundTrip<T>(normalize: (raw: unknown) => T, parse: (raw: unknown) => T | null, authored: unknown): { written: T; read: T | null } {
+  const written = normalize(authored);
+  return { written, read: parse(JSON.stringify(written)) };
+}
+
+function context(prices: RuleMarketPrices | null): RuleEvalContext {
+  const market: Market = { id: 'mkt', source: 'polymarket', externalId: 'mkt', slug: 'mkt', question: 'Q?', endDate: null, resolutionSource: null, createdAt: 0, updatedAt: 0 };
+  return {
+    now: Date.UTC(2026, 9, 19),
+    market,
+    getPrices: async () => prices,
+    getBook: async () => null,
+    getStats: async () => null,
+    getConviction: () => null,
+    getInfoEvents: () => [],
+    getRepricingCurve: () => null
+  };
+}
+
+async function main() {
+  console.log('\n📏 Testing rule parsing (offline)\n');
+
+  const actions: Array<[string, unknown, number]> = [
+    ['full Kelly (default)', { side: 'YES', sizing: { policy: 'kelly' } }, 1],
+    ['quarter Kelly', { side: 'YES', sizing: { policy: 'kelly', fraction: 0.25 } }, 0.25],
+    ['100% bankroll', { side: 'NO', sizing: { policy: 'bankroll_fraction', fraction: 100 } }, 1],
+    ['1% bankroll', { side: 'NO', sizing: { policy: 'bankroll_fraction', fraction: 1 } }, 0.01]
+  ];
+  for (const [label, authored, fraction] of actions) {
+    const { written, read } = roundTrip(normalizeRuleAction, parseStoredRuleAction, authored);
+    const stored = read?.sizing.policy === 'fixed' ? null : read?.sizing.fraction;
+    check(`action round-trip: ${label}`, JSON.stringify(read) === JSON.stringify(written) && stored === fraction, `read ${stored}`);
+  }
+  check('stored fraction above 1 is rejected', parseStoredRuleAction(JSON.stringify({ side: 'YES', sizing: { policy: 'kelly', fraction: 25 } })) === null);
+
+  const trees: Array<[string, unknown]> = [
+    ['price_above 100%', { type: 'price_above', threshold: 100 }],
+    ['price_below 1%', { type: 'price_below', threshold: 1 }],
+    ['edge_above 1% AND my ≥ 100%', { and: [{ type: 'edge_above', min: 1, side: 'NO' }, { type: 'my_probability_above', min: 100 }] }],
+    ['NOT repricing_remaining_above 100%', { not: { type: 'repricing_remaining_above', min: 100, hours: 24 } }]
+  ];
+  for (const [label, authored] of trees) {
+    const { written, read } = roundTrip(normalizeConditionTree, parseStoredConditionTree, authored);
+    check(`condition round-trip: ${label}`, JSON.stringify(read) === JSON.stringify(written), JSON.stringify(read));
+  }
+  check('stored threshold above 1 is rejected', parseStoredConditionTree(JSON.stringify({ op: 'condition', type: 'price_above', params: { threshold: 60 } })) === null);
+
+  // A triggered re-arm rule (fired at 40% or below) waiting for the market to move back above 42%
+  const triggered: RuleLifecycleState = {
+    conditions: normalizeConditionTree({ type: 'price_below', threshold: 40 }),
+    status: 'triggered',
+    mode: 'rearm',
+    rearmBand: 0.02,
+    cooldownMinutes: null,
+    maxFires: null,
+    fireCount: 1,
+    expiresAt: null,
+    triggeredAt: null
+  };
+  const quote = (mid: number | null): RuleMarketPrices => ({ mid, bestBid: null, bestAsk: null, lastTrade: null, asOf: 0 });
+  check('live Gamma miss (mid null) does not re-arm', (await stepRule(triggered, context(quote(null)))).action === 'none');
+  check('backtest gap (no prices) does not re-arm', (await stepRule(triggered, context(null))).action === 'none');
+  check('still below the band does not re-arm', (await stepRule(triggered, context(quote(0.41)))).action === 'none');
+  check('moving back past the band re-arms', (await stepRule(triggered, context(quote(0.45)))).action === 'rearm');
+
+  console.log(`\n${failures ? `${failures} check(s) failed` : 'All checks passed'}\n`);
+  process.exitCode = failures ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
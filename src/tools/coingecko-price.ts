@@ -39,7 +39,7 @@ export const coingeckoPriceTool: Tool = {
     },
     required: ['query']
   },
-  execute: async (params) => {
+  execute: async (params, opts) => {
     const p = isRecord(params) ? params : {};
     const query = pickString(p.query).trim();
     if (!query) throw new Error('query is required');
@@ -54,7 +54,7 @@ export const coingeckoPriceTool: Tool = {
     url.searchParams.set('include_24hr_change', 'true');
     url.searchParams.set('include_last_updated_at', 'true');
 
-    const response = await fetch(url.toString(), { headers: { Accept: 'application/json' } });
+    const response = await fetch(url.toString(), { headers: { Accept: 'application/json' }, signal: opts?.signal });
     if (!response.ok) {
       const text = await response.text().catch(() => '');
       throw new Error(`CoinGecko HTTP ${response.status}${text ? `: ${text}` : ''}`);
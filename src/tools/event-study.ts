@@ -0,0 +1,91 @@
+import type { Tool } from './types.js';
+import type { ToolOutput } from '../core/types.js';
+import { runEventStudy, type RepricingCurve } from '../calendar/index.js';
+import { getMarketByExternalId } from '../db/index.js';
+import { isRecord, pickInt, pickString } from './utils.js';
+
+function fmtPp(n: unknown): string {
+  return typeof n === 'number' && Number.isFinite(n) ? `${(n * 100).toFixed(1)}pp` : '—';
+}
+
+function fmtPct(n: unknown): string {
+  return typeof n === 'number' && Number.isFinite(n) ? `${(n * 100).toFixed(0)}%` : '—';
+}
+
+function fmtHours(n: unknown): string {
+  return typeof n === 'number' && Number.isFinite(n) ? `${n.toFixed(1)}h` : '—';
+}
+
+export const eventStudyTool: Tool = {
+  name: 'event_study',
+  description:
+    'How Polymarket prices historically repriced around stored calendar events (info_events): per event and per category, the cumulative move, time to half repricing, volatility before/after, and the typical repricing curve.',
+  parameters: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      category: { type: 'string', description: 'Event category (e.g. "fomc", "cpi", "earnings"); omit for all.' },
+      marketId: { type: 'string', description: 'Workstation market id or Polymarket conditionId (0x...) to restrict to.' },
+      preHours: { type: 'integer', minimum: 1, maximum: 336, description: 'Hours before the event (default 48).' },
+      postHours: { type: 'integer', minimum: 1, maximum: 336, description: 'Hours after the event (default 72).' },
+      includeApproximate: { type: 'boolean', description: 'Also study events with approximate dates.' }
+    }
+  },
+  execute: async (params) => {
+    const p = isRecord(params) ? params : {};
+    const marketRef = pickString(p.marketId).trim();
+    const marketId = marketRef.startsWith('0x') ? getMarketByExternalId('polymarket', marketRef)?.id ?? marketRef : marketRef;
+    const report = runEventStudy({
+      category: pickString(p.category).trim() || null,
+      marketId: marketId || null,
+      preHours: pickInt(p.preHours, 48, { min: 1, max: 336 }),
+      postHours: pickInt(p.postHours, 72, { min: 1, max: 336 }),
+      includeApproximate: p.includeApproximate === true
+    });
+    return { ...report, studies: report.studies.slice(-50) };
+  },
+  render: (result): ToolOutput[] => {
+    const r = isRecord(result) ? result : {};
+    const curves = (Array.isArray(r.curves) ? r.curves : []) as RepricingCurve[];
+    const studies = Array.isArray(r.studies) ? r.studies : [];
+    if (!studies.length) {
+      return [{ kind: 'text', title: 'Event study', text: 'No past market-linked events with enough price history yet.' }];
+    }
+    const offsets = curves[0]?.curve.map((c) => c.hours) ?? [];
+    return [
+      {
+        kind: 'table',
+        title: 'Repricing by category',
+        columns: ['category', 'events', 'repriced', 'median |move|', 'median half-life', 'vol before', 'vol after'],
+        rows: curves.map((c) => [
+          c.category,
+          c.events,
+          c.repriced,
+          fmtPp(c.medianAbsMove),
+          fmtHours(c.medianHalfRepricingHours),
+          fmtPp(c.meanVolatilityBefore),
+          fmtPp(c.meanVolatilityAfter)
+        ])
+      },
+      {
+        kind: 'table',
+        title: 'Typical curve (share of final move priced in)',
+        columns: ['category', ...offsets.map((h) => `${h > 0 ? '+' : ''}${h}h`)],
+        rows: curves.map((c) => [c.category, ...c.curve.map((pt) => fmtPct(pt.fractionRepriced))])
+      },
+      {
+        kind: 'table',
+        title: 'Events',
+        columns: ['event', 'category', 'move', 'half-life', 'vol before', 'vol after'],
+        rows: studies.map((s: any) => [
+          String(s.title || ''),
+          String(s.category || ''),
+          fmtPp(s.move),
+          fmtHours(s.halfRepricingHours),
+          fmtPp(s.volatilityBefore),
+          fmtPp(s.volatilityAfter)
+        ])
+      }
+    ];
+  }
+};
@@ -1,3 +1,2 @@
-export type { JSONSchema, Tool } from './types.js';
-export { getTool, listToolSummaries, listTools, renderToolResult } from './registry.js';
-
+export type { JSONSchema, Tool, ToolExecuteOptions } from './types.js';
+export { executeTool, getTool, listToolSummaries, listTools, renderToolResult } from './registry.js';
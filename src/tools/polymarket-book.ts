@@ -38,8 +38,8 @@ function findOutcomeIndex(outcomes: string[], outcome: 'YES' | 'NO'): number {
   return 0;
 }
 
-async function fetchGammaMarketById(id: string): Promise<GammaMarket | null> {
-  const response = await fetch(`${GAMMA_API_BASE}/markets/${encodeURIComponent(id)}`, { headers: { Accept: 'application/json' } });
+async function fetchGammaMarketById(id: string, signal?: AbortSignal): Promise<GammaMarket | null> {
+  const response = await fetch(`${GAMMA_API_BASE}/markets/${encodeURIComponent(id)}`, { headers: { Accept: 'application/json' }, signal });
   if (!response.ok) return null;
   const data = (await response.json()) as any;
   if (!data) return null;
@@ -54,11 +54,11 @@ async function fetchGammaMarketById(id: string): Promise<GammaMarket | null> {
   };
 }
 
-async function fetchGammaMarketByConditionId(conditionId: string): Promise<GammaMarket | null> {
+async function fetchGammaMarketByConditionId(conditionId: string, signal?: AbortSignal): Promise<GammaMarket | null> {
   const url = new URL(`${GAMMA_API_BASE}/markets`);
   url.searchParams.set('limit', '1');
   url.searchParams.set('condition_ids', conditionId);
-  const response = await fetch(url.toString(), { headers: { Accept: 'application/json' } });
+  const response = await fetch(url.toString(), { headers: { Accept: 'application/json' }, signal });
   if (!response.ok) return null;
   const arr = (await response.json()) as any[];
   const data = arr && arr.length ? arr[0] : null;
@@ -74,17 +74,17 @@ async function fetchGammaMarketByConditionId(conditionId: string): Promise<Gamma
   };
 }
 
-async function resolveMarket(ref: string): Promise<{ market: GammaMarket; conditionId: string }> {
+async function resolveMarket(ref: string, signal?: AbortSignal): Promise<{ market: GammaMarket; conditionId: string }> {
   const raw = ref.trim();
   if (!raw) throw new Error('marketId is required');
   if (isHexConditionId(raw)) {
-    const market = await fetchGammaMarketByConditionId(raw);
+    const market = await fetchGammaMarketByConditionId(raw, signal);
     if (!market) throw new Error('Market not found in Gamma (conditionId)');
     return { market, conditionId: raw };
   }
 
   if (/^\d+$/.test(raw)) {
-    const market = await fetchGammaMarketById(raw);
+    const market = await fetchGammaMarketById(raw, signal);
     if (!market) throw new Error('Market not found in Gamma (id)');
     const cond = market.conditionId?.trim();
     if (!isHexConditionId(cond)) throw new Error('Gamma market missing conditionId');
@@ -94,8 +94,8 @@ async function resolveMarket(ref: string): Promise<{ market: GammaMarket; condit
   throw new Error('marketId must be a Gamma id (digits) or conditionId (0x...)');
 }
 
-async function fetchPolymarketClobBook(tokenId: string, depth: number): Promise<ClobBook> {
-  const response = await fetch(`https://clob.polymarket.com/book?token_id=${encodeURIComponent(tokenId)}`, { headers: { Accept: 'application/json' } });
+async function fetchPolymarketClobBook(tokenId: string, depth: number, signal?: AbortSignal): Promise<ClobBook> {
+  const response = await fetch(`https://clob.polymarket.com/book?token_id=${encodeURIComponent(tokenId)}`, { headers: { Accept: 'application/json' }, signal });
   if (!response.ok) {
     const text = await response.text().catch(() => '');
     const err = new Error(`Polymarket CLOB HTTP ${response.status}${text ? `: ${text}` : ''}`) as any;
@@ -141,14 +141,14 @@ export const polymarketBookTool: Tool = {
     },
     required: ['marketId']
   },
-  execute: async (params) => {
+  execute: async (params, opts) => {
     const p = isRecord(params) ? params : {};
     const marketId = pickString(p.marketId).trim();
     const outcomeRaw = pickString(p.outcome).trim().toUpperCase();
     const outcome: 'YES' | 'NO' = outcomeRaw === 'NO' ? 'NO' : 'YES';
     const depth = pickInt(p.depth, 20, { min: 1, max: 200 });
 
-    const { market, conditionId } = await resolveMarket(marketId);
+    const { market, conditionId } = await resolveMarket(marketId, opts?.signal);
     const outcomes = parseJsonArray((market as any).outcomes);
     const tokenIds = parseJsonArray((market as any).clobTokenIds);
 
@@ -160,7 +160,7 @@ export const polymarketBookTool: Tool = {
     let book: ClobBook = { bids: [], asks: [], tokenId };
 
     try {
-      book = await fetchPolymarketClobBook(tokenId, depth);
+      book = await fetchPolymarketClobBook(tokenId, depth, opts?.signal);
     } catch (err) {
       const status = typeof (err as any)?.status === 'number' ? Number((err as any).status) : null;
       const message = err instanceof Error ? err.message : String(err);
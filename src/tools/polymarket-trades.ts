@@ -37,13 +37,13 @@ function isHexConditionId(value: string): boolean {
   return /^0x[0-9a-fA-F]{64}$/.test(value.trim());
 }
 
-async function resolveConditionIdHex(marketId: string): Promise<string | null> {
+async function resolveConditionIdHex(marketId: string, signal?: AbortSignal): Promise<string | null> {
   const raw = marketId.trim();
   if (!raw) return null;
   if (isHexConditionId(raw)) return raw;
   if (!/^\d+$/.test(raw)) return null;
 
-  const response = await fetch(`${GAMMA_API_BASE}/markets/${encodeURIComponent(raw)}`, { headers: { Accept: 'application/json' } });
+  const response = await fetch(`${GAMMA_API_BASE}/markets/${encodeURIComponent(raw)}`, { headers: { Accept: 'application/json' }, signal });
   if (!response.ok) return null;
   const data = (await response.json()) as any;
   const conditionId = typeof data?.conditionId === 'string' ? data.conditionId.trim() : '';
@@ -88,21 +88,21 @@ export const polymarketTradesTool: Tool = {
       minSize: { type: 'number', description: 'Filter out small trades. Optional.' }
     }
   },
-  execute: async (params) => {
+  execute: async (params, opts) => {
     const p = isRecord(params) ? params : {};
     const marketId = pickString(p.marketId).trim();
     const user = pickString(p.user).trim();
     const limit = pickInt(p.limit, 50, { min: 1, max: 500 });
     const minSize = pickNumber(p.minSize) ?? 0;
 
-    const conditionId = marketId ? await resolveConditionIdHex(marketId) : null;
+    const conditionId = marketId ? await resolveConditionIdHex(marketId, opts?.signal) : null;
 
     const url = new URL(`${DATA_API_BASE}/trades`);
     url.searchParams.set('limit', String(limit));
     if (user) url.searchParams.set('user', user);
     if (conditionId) url.searchParams.set('market', conditionId);
 
-    const response = await fetch(url.toString(), { headers: { Accept: 'application/json' } });
+    const response = await fetch(url.toString(), { headers: { Accept: 'application/json' }, signal: opts?.signal });
     if (!response.ok) {
       const text = await response.text().catch(() => '');
       throw new Error(`Polymarket Data API HTTP ${response.status}${text ? `: ${text}` : ''}`);
@@ -1,9 +1,10 @@
-import type { Tool } from './types.js';
+import type { Tool, ToolExecuteOptions } from './types.js';
 import type { ToolOutput } from '../core/types.js';
 
 export type ToolSummary = Pick<Tool, 'name' | 'description' | 'parameters'>;
 
 import { coingeckoPriceTool } from './coingecko-price.js';
+import { eventStudyTool } from './event-study.js';
 import { gdeltNewsTool } from './gdelt-news.js';
 import { grokSearchTool } from './grok-search.js';
 import { nasdaqCandlesTool } from './nasdaq-candles.js';
@@ -11,7 +12,7 @@ import { nasdaqQuoteTool } from './nasdaq-quote.js';
 import { polymarketBookTool } from './polymarket-book.js';
 import { polymarketTradesTool } from './polymarket-trades.js';
 
-const tools: Tool[] = [grokSearchTool, gdeltNewsTool, polymarketTradesTool, polymarketBookTool, coingeckoPriceTool, nasdaqQuoteTool, nasdaqCandlesTool];
+const tools: Tool[] = [grokSearchTool, gdeltNewsTool, polymarketTradesTool, polymarketBookTool, coingeckoPriceTool, nasdaqQuoteTool, nasdaqCandlesTool, eventStudyTool];
 
 export function listTools(): Tool[] {
   return tools.slice();
@@ -27,6 +28,23 @@ export function getTool(name: string): Tool | null {
   return tools.find((t) => t.name === wanted) ?? null;
 }
 
+// Tools that don't thread the signal through to their providers still stop blocking the caller on abort.
+export async function executeTool(tool: Tool, params: unknown, opts: ToolExecuteOptions = {}): Promise<unknown> {
+  const { signal } = opts;
+  if (!signal) return tool.execute(params, opts);
+  if (signal.aborted) throw new Error('Cancelled');
+  let onAbort: () => void = () => {};
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(new Error('Cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([tool.execute(params, opts), aborted]);
+  } finally {
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
 export function renderToolResult(tool: Tool, result: unknown): ToolOutput[] {
   if (tool.render) return tool.render(result);
   return [{ kind: 'json', title: tool.name, value: result }];
@@ -2,11 +2,15 @@ import type { ToolOutput } from '../core/types.js';
 
 export type JSONSchema = Record<string, unknown>;
 
+export type ToolExecuteOptions = {
+  signal?: AbortSignal; // aborted when the caller (e.g. a streaming chat client) cancels
+};
+
 export interface Tool {
   name: string;
   description: string;
   parameters: JSONSchema;
-  execute: (params: unknown) => Promise<unknown>;
+  execute: (params: unknown, opts?: ToolExecuteOptions) => Promise<unknown>;
   render?: (result: unknown) => ToolOutput[];
   targetWindow?: string;
 }
@@ -1,6 +1,8 @@
 // Polymarket market structure
 export interface PolymarketMarket {
   id: string;
+  conditionId?: string;     // What workstation `markets` rows are keyed by
+  slug?: string;
   question: string;
   description: string;
   outcomes: string[];
@@ -0,0 +1,74 @@
+import type { ToolOutput } from '../core/types.js';
+import type { ChatMessage, ChatSession, ChatToolEvent } from '../db/index.js';
+
+export type ChatTimelineEntry = ({ kind: 'message' } & ChatMessage) | ({ kind: 'tool' } & ChatToolEvent);
+
+// Messages and tool runs interleaved by time; tool runs sort before an assistant reply with the same timestamp.
+export function chatTimeline(session: ChatSession): ChatTimelineEntry[] {
+  const rank = (e: ChatTimelineEntry) => (e.kind === 'tool' ? 1 : e.role === 'user' ? 0 : 2);
+  const entries: ChatTimelineEntry[] = [
+    ...session.messages.map((m) => ({ kind: 'message' as const, ...m })),
+    ...session.events.map((e) => ({ kind: 'tool' as const, ...e }))
+  ];
+  return entries.sort((a, b) => a.ts - b.ts || rank(a) - rank(b));
+}
+
+function mdCell(value: unknown): string {
+  if (value == null) return '';
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function fence(text: string, lang = ''): string {
+  const ticks = text.includes('```') ? '````' : '```';
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+function outputsMarkdown(outputs: unknown): string[] {
+  const list = (Array.isArray(outputs) ? outputs : []) as ToolOutput[];
+  const lines: string[] = [];
+  for (const output of list) {
+    if (output?.kind === 'error') {
+      lines.push(`> **Error:** ${output.message}`, '');
+    } else if (output?.kind === 'text') {
+      if (output.title) lines.push(`**${output.title}**`, '');
+      lines.push(fence(output.text), '');
+    } else if (output?.kind === 'json') {
+      if (output.title) lines.push(`**${output.title}**`, '');
+      lines.push(fence(JSON.stringify(output.value, null, 2), 'json'), '');
+    } else if (output?.kind === 'table') {
+      if (output.title) lines.push(`**${output.title}**`, '');
+      lines.push(`| ${output.columns.map(mdCell).join(' | ')} |`);
+      lines.push(`| ${output.columns.map(() => '---').join(' | ')} |`);
+      for (const row of output.rows) lines.push(`| ${row.map(mdCell).join(' | ')} |`);
+      lines.push('');
+    }
+  }
+  return lines;
+}
+
+export function chatSessionMarkdown(session: ChatSession): string {
+  const lines = [
+    `# ${session.title || `Chat ${session.id}`}`,
+    '',
+    `Session \`${session.id}\` · ${new Date(session.createdAt).toISOString()} – ${new Date(session.updatedAt).toISOString()}`,
+    `${session.messageCount} messages · ${session.toolEventCount} tool runs`,
+    ''
+  ];
+  for (const entry of chatTimeline(session)) {
+    const at = new Date(entry.ts).toISOString();
+    if (entry.kind === 'message') {
+      lines.push(`## ${entry.role === 'user' ? 'User' : 'Assistant'} · ${at}`, '', entry.text, '');
+    } else {
+      const duration = entry.meta ? ` · ${entry.meta.durationMs} ms` : '';
+      lines.push(`### Tool: ${entry.title} · ${at}${duration}`, '');
+      if (entry.command) lines.push(fence(entry.command), '');
+      lines.push(...outputsMarkdown(entry.outputs));
+    }
+  }
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+export function chatSessionJson(session: ChatSession): unknown {
+  const { messages: _messages, events: _events, ...summary } = session;
+  return { ...summary, exportedAt: Date.now(), timeline: chatTimeline(session) };
+}
@@ -0,0 +1,60 @@
+// In-process pub/sub for the UI server. Every event gets an id and is kept in a ring buffer,
+// so an SSE client that reconnects with Last-Event-ID receives what it missed.
+
+export type BusEvent<M, K extends keyof M = keyof M> = K extends keyof M ? { id: string; topic: K; at: number; data: M[K] } : never;
+
+export type BusListener<M> = (event: BusEvent<M>) => void;
+
+export type EventBus<M> = {
+  publish: <K extends keyof M & string>(topic: K, data: M[K]) => BusEvent<M>;
+  subscribe: (topics: string[] | null, listener: BusListener<M>) => () => void;
+  // Events after `lastId` matching `topics`; null when `lastId` is unknown (another server run, or aged out).
+  since: (lastId: string, topics: string[] | null) => BusEvent<M>[] | null;
+};
+
+// `alert` matches `alert.created`; an empty or null filter matches everything.
+export function topicMatches(topic: string, filters: string[] | null): boolean {
+  if (!filters || !filters.length) return true;
+  return filters.some((f) => topic === f || topic.startsWith(`${f}.`));
+}
+
+export function createEventBus<M extends Record<string, unknown>>(opts: { bufferSize?: number } = {}): EventBus<M> {
+  const bufferSize = Math.max(1, opts.bufferSize ?? 500);
+  // Ids are `<run>.<seq>` so ids from an earlier server process are recognised as unknown rather than misordered.
+  const run = Date.now().toString(36);
+  let seq = 0;
+  const buffer: BusEvent<M>[] = [];
+  const listeners = new Set<{ topics: string[] | null; listener: BusListener<M> }>();
+
+  return {
+    publish: (topic, data) => {
+      const event = { id: `${run}.${++seq}`, topic, at: Date.now(), data } as unknown as BusEvent<M>;
+      buffer.push(event);
+      if (buffer.length > bufferSize) buffer.shift();
+      for (const l of listeners) {
+        if (!topicMatches(topic, l.topics)) continue;
+        try {
+          l.listener(event);
+        } catch {
+          // a broken subscriber must not block the others
+        }
+      }
+      return event;
+    },
+    subscribe: (topics, listener) => {
+      const entry = { topics, listener };
+      listeners.add(entry);
+      return () => {
+        listeners.delete(entry);
+      };
+    },
+    since: (lastId, topics) => {
+      const [lastRun, lastSeqRaw] = lastId.split('.');
+      const lastSeq = Number(lastSeqRaw);
+      if (lastRun !== run || !Number.isInteger(lastSeq) || lastSeq > seq) return null;
+      const oldest = buffer.length ? Number(String(buffer[0]!.id).split('.')[1]) : seq + 1;
+      if (lastSeq < oldest - 1) return null;
+      return buffer.filter((e) => Number(String(e.id).split('.')[1]) > lastSeq && topicMatches(String(e.topic), topics));
+    }
+  };
+}
@@ -4,65 +4,160 @@ import { readFile } from 'node:fs/promises';
 import { dirname, extname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
+import { alertNotice, configureAlertSinks, dispatchAlert, listAlertSinks, loadAlertSinks, type AlertSeverity } from '../alerts/index.js';
 import { TerminalCore } from '../core/index.js';
 import type { CommandContext, CommandSpec } from '../core/types.js';
-import { edgarCommand, grokCommand } from '../integrations/index.js';
+import { calibrationCommand, edgarCommand, eventsCommand, grokCommand, ruleCommand } from '../integrations/index.js';
+import {
+  eventWindow,
+  hypothesisDirection,
+  runEventStudy,
+  typicalRepricingCurve,
+  type EventWindow,
+  type HypothesisDirection
+} from '../calendar/index.js';
+import { calibrationReport, listResolvedForecasts, pollMarketResolutions } from '../calibration/index.js';
 import type { MarketMeta } from '../manipulation/types.js';
 import { db as polyDb, getStats as getPolyStats, getMarketMeta, saveMarketMeta } from '../manipulation/db.js';
-import { cancelOrder, computeSlippageMetrics, createFill, createOrder, listFills, listOrderHistory, listPendingOrders } from '../execution/db.js';
+import { findWalletClusters, type ClusterReport } from '../manipulation/clusters.js';
+import { enrichMarkets } from '../manipulation/enrich.js';
+import {
+  cancelOrder,
+  computeSlippageMetrics,
+  confirmOrder,
+  createFill,
+  createOrder,
+  listFills,
+  listOrderHistory,
+  listPendingOrders
+} from '../execution/db.js';
+import { runPaperMatcherOnce } from '../execution/matcher.js';
+import { fetchMarketById } from '../polymarket/index.js';
+import { buildPortfolioReport, runStressTest, type PortfolioInput } from '../portfolio/index.js';
 import { fetchGdeltNewsWithMeta } from '../tools/providers/gdelt.js';
 import { getNasdaqCandlesWithMeta, getNasdaqQuoteWithMeta } from '../tools/providers/nasdaq.js';
 import {
   db as truthDb,
+  compactPriceSnapshots,
+  applyFillToPosition,
+  appendChatMessage,
+  appendChatToolEvent,
+  completeEventImpact,
   createAlert,
   createInfoEvent,
+  createMarketGroup,
   createPosition,
   createRule,
   deleteConviction,
+  deleteChatSession,
   deleteInfoEvent,
+  deleteMarketGroup,
   deletePosition,
   deleteRule,
+  draftRule,
+  expireRule,
+  getCase,
+  getChatSession,
+  getConvictionById,
   getConvictionByMarketId,
+  getEventImpact,
+  getPendingCases,
   getMarketByExternalId,
+  getMarketById,
+  getRuleById,
+  insertPriceSnapshot,
+  listAlertDeliveries,
+  listAlertableInfoEvents,
   listAlertsWithMarkets,
+  listChatMessages,
+  listChatSessions,
+  listConvictionRevisions,
   listConvictionsWithMarkets,
+  listEventImpacts,
   listInfoEventsWithMarkets,
+  listMarketGroups,
+  listMarkets,
+  listPendingEventImpacts,
+  listPositionLedger,
   listPositionsWithMarkets,
+  listPriceSnapshots,
+  listRuleHistory,
   listRulesWithMarkets,
   markAlertsSeen,
+  markRuleFired,
+  rearmRule,
+  recordEventAlert,
+  saveDecision,
   setRuleEvaluated,
   updateInfoEvent,
+  updateMarketGroup,
   updatePosition,
   updateRule,
   upsertConvictionByMarketId,
   upsertMarket,
+  type Alert,
+  type ChatMessage,
+  type ChatToolEvent as ToolEvent,
+  type Conviction,
   type ConvictionStatus,
+  type EventImpact,
+  type InfoEvent,
+  type Market,
+  type MarketResolution,
   type MarketSource,
-  type RuleStatus
+  type Position,
+  type PositionLedgerEntry,
+  type PriceSnapshot,
+  type PriceSnapshotRetention,
+  type Rule,
+  type RuleHistoryEvent,
+  type RuleStatus,
+  type RuleWithMarket
 } from '../db/index.js';
-import { getTool, listToolSummaries, listTools, renderToolResult } from '../tools/index.js';
+import type { ExecFill, ExecOrder } from '../execution/types.js';
+import {
+  canRearm,
+  describeConditionTree,
+  describeRuleAction,
+  isRuleExpired,
+  listConditions,
+  sizeRuleOrder,
+  stepRule,
+  type RuleEvalContext,
+  type RuleOutcome
+} from '../rules/index.js';
+import { runRuleBacktest } from '../rules/backtest.js';
+import { executeTool, getTool, listToolSummaries, listTools, renderToolResult } from '../tools/index.js';
+import { chatSessionJson, chatSessionMarkdown } from './chat-export.js';
+import { createEventBus, type BusEvent } from './event-bus.js';
 import Anthropic from '@anthropic-ai/sdk';
 
-type ChatRole = 'user' | 'assistant';
-type ChatMessage = { role: ChatRole; text: string; ts: number };
-type ToolEvent = {
-  id: string;
-  type: 'tool';
-  title: string;
-  command: string;
-  outputs: unknown;
-  targetWindow: string;
-  meta?: { durationMs: number };
-  ts: number;
+type RuleStateEvent = {
+  ruleId: string;
+  marketId: string | null;
+  event: RuleHistoryEvent | 'updated' | 'deleted';
+  status: RuleStatus | null;
+  detail: string;
 };
 
-type ChatSession = {
-  id: string;
-  messages: ChatMessage[];
-  events: ToolEvent[];
+// Everything GET /api/stream can carry, by topic.
+type ServerEvents = {
+  'alert.created': { alert: Alert; market: Market | null };
+  'rule.state': RuleStateEvent;
+  'order.created': { order: ExecOrder };
+  'order.updated': { order: ExecOrder };
+  'fill.created': { order: ExecOrder; fill: ExecFill };
+  'position.updated': { position: Position; entry: PositionLedgerEntry };
+  'position.failed': { order: ExecOrder; fill: ExecFill; error: string };
+  'market.resolved': { resolution: MarketResolution };
+  'event.impact': { impact: EventImpact; hypothesis: HypothesisDirection };
+  'conviction.updated': { market: Market; conviction: Conviction };
+  'conviction.deleted': { id: string };
+  'tool.event': { sessionId: string; event: ToolEvent };
 };
 
-const sessions = new Map<string, ChatSession>();
+const bus = createEventBus<ServerEvents>({ bufferSize: 1000 });
+
 const anthropic = new Anthropic();
 
 function buildContext(): CommandContext {
@@ -110,6 +205,7 @@ type GammaMarket = {
   bestAsk?: number;
   lastTradePrice?: number;
   clobTokenIds?: string; // JSON
+  category?: string;
 };
 
 const gammaMarketCache = new Map<string, { ts: number; market: GammaMarket | null }>();
@@ -216,62 +312,398 @@ async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promis
   return out;
 }
 
-function fmtPct(p: number | null): string {
-  if (p == null || !Number.isFinite(p)) return '—';
-  return `${(p * 100).toFixed(1)}%`;
+function clobTokenIdForOutcome(market: GammaMarket, outcome: 'YES' | 'NO'): string {
+  const outcomes = parseGammaJsonArray((market as any).outcomes);
+  const tokenIds = parseGammaJsonArray((market as any).clobTokenIds);
+  const idx = findOutcomeIndex(outcomes, outcome);
+  return tokenIds[idx] || tokenIds[0] || '';
+}
+
+function buildRuleEvalContext(market: Market, now: number): RuleEvalContext {
+  const isPoly = market.source === 'polymarket';
+  return {
+    now,
+    market,
+    getPrices: async () => (isPoly ? fetchGammaYesPrices(market.externalId) : null),
+    getBook: async (outcome: RuleOutcome) => {
+      if (!isPoly) return null;
+      const gamma = await fetchGammaMarketByConditionId(market.externalId);
+      const tokenId = gamma ? clobTokenIdForOutcome(gamma, outcome) : '';
+      if (!tokenId) return null;
+      const book = await fetchPolymarketClobBook(tokenId, 50);
+      return { bids: book.bids, asks: book.asks };
+    },
+    getStats: async () => {
+      if (!isPoly) return null;
+      const gamma: any = await fetchGammaMarketByConditionId(market.externalId);
+      if (!gamma) return null;
+      const volume24h = Number(gamma.volume24hr ?? Number.NaN);
+      const liquidity = Number(gamma.liquidityNum ?? Number.NaN);
+      return { volume24h: Number.isFinite(volume24h) ? volume24h : null, liquidity: Number.isFinite(liquidity) ? liquidity : null };
+    },
+    getConviction: () => getConvictionByMarketId(market.id),
+    getInfoEvents: () => listInfoEventsWithMarkets({ marketId: market.id }).map((r) => r.event),
+    getRepricingCurve: (category) => typicalRepricingCurve(category, now)
+  };
+}
+
+// Sizing policies that scale with bankroll need one; a rule's action can also carry its own.
+const bankrollUsd = envNumber('TT_BANKROLL_USD', 0) > 0 ? envNumber('TT_BANKROLL_USD', 0) : null;
+
+// Display symbol for market-linked orders: PM-<condition id prefix>-<outcome>. The market id + outcome carry the link.
+function marketOrderSymbol(market: Market, side: RuleOutcome): string {
+  return `PM-${market.externalId.replace(/^0x/i, '').slice(0, 8).toUpperCase()}-${side}`;
+}
+
+// Stages the rule's order action for a fire. Returns a note for the rule history (the order, or why none was placed).
+async function stageRuleOrder(rule: Rule, market: Market, alertId: string, ctx: RuleEvalContext): Promise<string | null> {
+  const action = rule.action;
+  if (!action) return null;
+
+  const prices = await ctx.getPrices();
+  const yes = prices?.mid ?? prices?.lastTrade ?? null;
+  // Buying YES lifts the YES ask; buying NO lifts the NO ask, which is 1 - the YES bid.
+  const touch =
+    action.side === 'YES' ? (prices?.bestAsk ?? yes) : prices?.bestBid != null ? 1 - prices.bestBid : yes == null ? null : 1 - yes;
+  const price = action.orderType === 'LIMIT' ? (action.limitPrice ?? touch) : touch;
+  const conviction = ctx.getConviction();
+  const gamma = await fetchGammaMarketByConditionId(market.externalId).catch(() => null);
+  const size = sizeRuleOrder({ action, price, myProbability: conviction?.myProbability ?? null, bankrollUsd });
+  if ('skip' in size) return `order skipped: ${size.skip}`;
+
+  const order = createOrder({
+    symbol: marketOrderSymbol(market, action.side),
+    side: 'BUY',
+    qty: size.qty,
+    type: action.orderType,
+    limitPrice: action.orderType === 'LIMIT' ? size.price : null,
+    expectedPrice: touch,
+    ruleId: rule.id,
+    alertId,
+    tokenId: gamma ? clobTokenIdForOutcome(gamma, action.side) || null : null,
+    marketId: market.id,
+    outcome: action.side,
+    confirmed: action.mode === 'auto'
+  });
+  bus.publish('order.created', { order });
+  const state = action.mode === 'auto' ? 'placed' : 'staged (awaiting confirmation)';
+  return `order ${order.id} ${state}: BUY ${order.qty} ${action.side} @ ${(size.price * 100).toFixed(1)}¢ ($${size.stakeUsd.toFixed(2)})`;
+}
+
+// Stores an alert and hands it to the configured sinks in the background (GET /api/alerts keeps working without any).
+function raiseAlert(input: { ruleId?: string; eventId?: string; market: Market; message: string; severity: AlertSeverity }): Alert {
+  const alert = createAlert({
+    ruleId: input.ruleId,
+    eventId: input.eventId,
+    marketId: input.market.id,
+    message: input.message,
+    severity: input.severity
+  });
+  bus.publish('alert.created', { alert, market: input.market });
+  dispatchAlert(alertNotice(alert, input.market)).catch(() => {
+    // delivery failures are recorded in alert_deliveries
+  });
+  return alert;
+}
+
+// Publishes a fill and, for market-linked orders, books it into the position ledger.
+// Fills and positions live in separate DBs, so a failed booking can't roll the fill back: it is published
+// as `position.failed` and returned for the caller to report (re-applying the same fill id is safe).
+function recordFill(order: ExecOrder, fill: ExecFill): string | null {
+  bus.publish('fill.created', { order, fill });
+  if (!order.marketId || !order.outcome) return null;
+  try {
+    const applied = applyFillToPosition({
+      marketId: order.marketId,
+      outcome: order.outcome,
+      side: fill.side,
+      qty: fill.qty,
+      price: fill.price,
+      orderId: order.id,
+      fillId: `fill_${fill.id}`,
+      at: fill.ts
+    });
+    if (applied) bus.publish('position.updated', applied);
+    return null;
+  } catch (e: any) {
+    const error = String(e?.message || e);
+    console.warn(`[positions] fill ${fill.id} on ${order.id} not applied: ${error}`);
+    bus.publish('position.failed', { order, fill, error });
+    return error;
+  }
+}
+
+// Positions marked to the live YES mid (null when unavailable), with gamma category and conviction probability.
+async function markPortfolioInputs(): Promise<PortfolioInput[]> {
+  const rows = listPositionsWithMarkets({ limit: 2000 });
+  const marketIds = [...new Set(rows.map((r) => r.market.id))];
+  const marks = await mapLimit(marketIds, 8, async (marketId) => {
+    const market = rows.find((r) => r.market.id === marketId)!.market;
+    if (market.source !== 'polymarket') return { marketId, yesMid: null as number | null, category: null as string | null };
+    try {
+      const prices = await fetchGammaYesPrices(market.externalId);
+      const gamma = await fetchGammaMarketByConditionId(market.externalId);
+      return { marketId, yesMid: prices.mid, category: gamma?.category ? String(gamma.category) : null };
+    } catch {
+      return { marketId, yesMid: null, category: null };
+    }
+  });
+  const marksByMarketId = new Map(marks.map((m) => [m.marketId, m]));
+
+  return rows.map((r) => {
+    const mark = marksByMarketId.get(r.market.id);
+    return {
+      positionId: r.position.id,
+      marketId: r.market.id,
+      question: r.market.question || r.market.externalId,
+      outcome: r.position.outcome,
+      shares: r.position.shares,
+      avgPrice: r.position.avgPrice,
+      realizedPnl: r.position.realizedPnl,
+      yesMid: mark?.yesMid ?? null,
+      yesProbability: getConvictionByMarketId(r.market.id)?.myProbability ?? null,
+      category: mark?.category ?? null,
+      endDate: r.market.endDate
+    };
+  });
+}
+
+let resolutionPollerRunning = false;
+
+async function pollResolutionsOnce(): Promise<void> {
+  if (resolutionPollerRunning) return;
+  resolutionPollerRunning = true;
+  try {
+    const result = await pollMarketResolutions();
+    for (const resolution of result.resolved) bus.publish('market.resolved', { resolution });
+  } finally {
+    resolutionPollerRunning = false;
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function liveYesMid(market: Market): Promise<number | null> {
+  if (market.source !== 'polymarket') return null;
+  try {
+    return (await fetchGammaYesPrices(market.externalId)).mid;
+  } catch {
+    return null;
+  }
+}
+
+function eventAlertMessage(event: InfoEvent, market: Market, window: EventWindow, now: number): string {
+  const question = market.question || market.externalId;
+  const when =
+    event.dateConfidence === 'approximate'
+      ? `expected around ${event.date} (window opens ${new Date(window.start).toISOString().slice(0, 16)}Z)`
+      : window.allDay
+        ? `on ${event.date}`
+        : `in ${Math.max(0, Math.round((window.start - now) / HOUR_MS))}h (${new Date(window.start).toISOString().slice(0, 16)}Z)`;
+  const hypothesis = event.impactHypothesis.trim() ? ` · hypothesis: ${event.impactHypothesis.trim().slice(0, 200)}` : '';
+  return `Event ${when}: ${event.title} · ${question}${hypothesis}`;
+}
+
+let eventSchedulerRunning = false;
+
+// Calendar scheduler: alerts TT_EVENT_ALERT_LEAD_HOURS before events on watched markets, then, once an event's window
+// has been over for TT_EVENT_SETTLE_HOURS, records the YES move across it (price snapshots first, live mid as fallback).
+async function runEventSchedulerOnce(now = Date.now()): Promise<void> {
+  if (eventSchedulerRunning) return;
+  eventSchedulerRunning = true;
+  try {
+    const leadMs = envNumber('TT_EVENT_ALERT_LEAD_HOURS', 24) * HOUR_MS;
+    const approximateSlackMs = envNumber('TT_EVENT_APPROX_WINDOW_HOURS', 72) * HOUR_MS;
+    const settleMs = envNumber('TT_EVENT_SETTLE_HOURS', 2) * HOUR_MS;
+    const afterGraceMs = 12 * HOUR_MS;
+
+    for (const { event, market } of listAlertableInfoEvents()) {
+      const window = eventWindow(event.date, event.dateConfidence, { approximateSlackMs });
+      if (!window || now < window.start - leadMs || now >= window.end) continue;
+      if (getEventImpact(event.id, event.date)) continue;
+      const mid = await liveYesMid(market);
+      const alert = raiseAlert({
+        eventId: event.id,
+        market,
+        message: eventAlertMessage(event, market, window, now),
+        severity: event.dateConfidence === 'exact' ? 'warning' : 'info'
+      });
+      recordEventAlert({ event, marketId: market.id, windowStart: window.start, windowEnd: window.end, alertId: alert.id, mid, at: now });
+    }
+
+    for (const impact of listPendingEventImpacts(now - settleMs)) {
+      const before = listPriceSnapshots(impact.marketId, { from: impact.windowStart - 24 * HOUR_MS, to: impact.windowStart })
+        .filter((snap) => snap.mid != null)
+        .pop();
+      const afterFrom = impact.windowEnd + settleMs;
+      let after = listPriceSnapshots(impact.marketId, { from: afterFrom, to: afterFrom + afterGraceMs }).find((snap) => snap.mid != null);
+      if (!after && now <= afterFrom + afterGraceMs) {
+        const market = getMarketById(impact.marketId);
+        const mid = market ? await liveYesMid(market) : null;
+        if (mid != null) after = { at: now, mid } as PriceSnapshot;
+      }
+      // No snapshot yet and still inside the grace period: try again next tick.
+      if (!after && now <= afterFrom + afterGraceMs) continue;
+      const completed = completeEventImpact(impact.id, {
+        beforeMid: before?.mid ?? impact.beforeMid,
+        beforeAt: before ? before.at : impact.beforeAt,
+        afterMid: after?.mid ?? null,
+        afterAt: after ? after.at : null
+      });
+      bus.publish('event.impact', { impact: completed, hypothesis: hypothesisDirection(completed.impactHypothesis) });
+    }
+  } finally {
+    eventSchedulerRunning = false;
+  }
+}
+
+let matcherRunning = false;
+
+async function runMatcherOnce(): Promise<void> {
+  if (matcherRunning) return;
+  matcherRunning = true;
+  try {
+    const fills = await runPaperMatcherOnce((tokenId) => fetchPolymarketClobBook(tokenId, 100));
+    for (const f of fills) recordFill(f.order, f.fill);
+  } finally {
+    matcherRunning = false;
+  }
 }
 
 let ruleEngineRunning = false;
+const rulesInFlight = new Set<string>();
+
+async function evaluateRule(listed: Rule, market: Market, now: number): Promise<void> {
+  // The periodic loop and conviction updates can race on the same rule; only one may fire it.
+  if (rulesInFlight.has(listed.id)) return;
+  rulesInFlight.add(listed.id);
+  try {
+    // The caller's list may predate a fire from the other path; evaluate the stored rule, and only if unchanged.
+    const rule = getRuleById(listed.id);
+    if (!rule || rule.status !== listed.status) return;
+    const ctx = buildRuleEvalContext(market, now);
+    const step =
+      market.source === 'polymarket'
+        ? await stepRule(rule, ctx)
+        : isRuleExpired(rule, now)
+          ? ({ action: 'expire' } as const)
+          : ({ action: 'none' } as const);
+
+    if (step.action === 'expire') {
+      expireRule(rule.id, now);
+      bus.publish('rule.state', { ruleId: rule.id, marketId: rule.marketId, event: 'expired', status: 'expired', detail: '' });
+      return;
+    }
+    setRuleEvaluated(rule.id, { lastEvaluatedAt: now });
+    if (step.action === 'rearm') {
+      rearmRule(rule.id, { at: now, detail: step.detail });
+      bus.publish('rule.state', { ruleId: rule.id, marketId: rule.marketId, event: 'rearmed', status: 'active', detail: step.detail });
+    }
+    if (step.action !== 'fire') return;
+
+    const name = market.question || market.externalId;
+    const message = `${name} ${step.details.join(' · ')}`.trim();
+    // A fire that stages an order wants a human, so it goes out louder than a plain alert.
+    const alert = raiseAlert({ ruleId: rule.id, market, message, severity: rule.action ? 'critical' : 'warning' });
+    // A failed order must not swallow the fire: the alert stands and the reason goes into the history.
+    const orderNote = await stageRuleOrder(rule, market, alert.id, ctx).catch((e: any) => `order failed: ${String(e?.message || e)}`);
+    const detail = [...step.details, ...(orderNote ? [orderNote] : [])].join(' · ');
+    const fired = markRuleFired(rule.id, { at: now, detail });
+    if (!fired) return;
+    bus.publish('rule.state', { ruleId: rule.id, marketId: rule.marketId, event: 'fired', status: fired.status, detail });
+  } catch {
+    // best-effort; rule evaluation should not take down the UI server
+  } finally {
+    rulesInFlight.delete(listed.id);
+  }
+}
+
+// Active rules, plus fired re-arm rules that still have fires left (they are checked for re-arming).
+function liveRules(opts: { marketId?: string }): RuleWithMarket[] {
+  const active = listRulesWithMarkets({ status: 'active', limit: 500, marketId: opts.marketId });
+  const pending = listRulesWithMarkets({ status: 'triggered', limit: 500, marketId: opts.marketId }).filter((r) => canRearm(r.rule));
+  return [...active, ...pending];
+}
+
+// Edge rules depend on my probability, so re-check a market's rules as soon as its conviction changes.
+async function evaluateRulesForMarket(marketId: string): Promise<void> {
+  const rows = liveRules({ marketId });
+  const now = Date.now();
+  await mapLimit(rows, 4, ({ rule, market }) => evaluateRule(rule, market, now));
+}
 
 async function runRuleEngineOnce(): Promise<void> {
   if (ruleEngineRunning) return;
   ruleEngineRunning = true;
   try {
-    const rows = listRulesWithMarkets({ status: 'active', limit: 500 });
+    const rows = liveRules({});
     if (!rows.length) return;
     const now = Date.now();
 
-    await mapLimit(rows, 8, async ({ rule, market }) => {
-      try {
-        if (market.source !== 'polymarket') {
-          setRuleEvaluated(rule.id, { lastEvaluatedAt: now });
-          return;
-        }
+    await mapLimit(rows, 8, ({ rule, market }) => evaluateRule(rule, market, now));
+  } finally {
+    ruleEngineRunning = false;
+  }
+}
 
-        const prices = await fetchGammaYesPrices(market.externalId);
-        const mid = prices.mid;
-        setRuleEvaluated(rule.id, { lastEvaluatedAt: now });
-        if (mid == null || !Number.isFinite(mid)) return;
-
-        if (rule.minMyProbability != null) {
-          const conviction = getConvictionByMarketId(rule.marketId);
-          if (!conviction) return;
-          if (conviction.myProbability < rule.minMyProbability) return;
-        }
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw == null || raw.trim() === '') return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : fallback;
+}
 
-        const hit =
-          rule.type === 'price_below'
-            ? mid <= rule.priceThreshold
-            : rule.type === 'price_above'
-              ? mid >= rule.priceThreshold
-              : false;
+// Price history sampler: TT_SNAPSHOT_INTERVAL_MS=0 disables it.
+const snapshotIntervalMs = envNumber('TT_SNAPSHOT_INTERVAL_MS', 60_000);
+const snapshotRetention: PriceSnapshotRetention = {
+  rawMs: envNumber('TT_SNAPSHOT_RAW_HOURS', 48) * 60 * 60 * 1000,
+  hourlyMs: envNumber('TT_SNAPSHOT_HOURLY_DAYS', 90) * 24 * 60 * 60 * 1000,
+  maxAgeMs: envNumber('TT_SNAPSHOT_MAX_DAYS', 0) > 0 ? envNumber('TT_SNAPSHOT_MAX_DAYS', 0) * 24 * 60 * 60 * 1000 : null
+};
 
-        if (!hit) return;
+let snapshotSamplerRunning = false;
 
-        const name = market.question || market.externalId;
-        const cond = rule.type === 'price_below' ? '≤' : '≥';
-        const message = `${name} YES mid ${fmtPct(mid)} ${cond} ${fmtPct(rule.priceThreshold)}`;
-        createAlert({ ruleId: rule.id, marketId: rule.marketId, message });
-        setRuleEvaluated(rule.id, { status: 'triggered', triggeredAt: now, lastEvaluatedAt: now });
+async function samplePriceSnapshotsOnce(): Promise<void> {
+  if (snapshotSamplerRunning) return;
+  snapshotSamplerRunning = true;
+  try {
+    const markets = listMarkets({ source: 'polymarket', limit: 5000 });
+    await mapLimit(markets, 4, async (market) => {
+      try {
+        const prices = await fetchGammaYesPrices(market.externalId);
+        if (prices.source !== 'gamma') return;
+        // Same Gamma response as the prices above (cached), so liquidity is free.
+        const gamma: any = await fetchGammaMarketByConditionId(market.externalId);
+        const liquidity = Number(gamma?.liquidityNum ?? Number.NaN);
+        insertPriceSnapshot({
+          marketId: market.id,
+          at: prices.asOf,
+          mid: prices.mid,
+          bestBid: prices.bestBid,
+          bestAsk: prices.bestAsk,
+          lastTrade: prices.lastTrade,
+          liquidity: Number.isFinite(liquidity) ? liquidity : null
+        });
       } catch {
-        // best-effort; rule evaluation should not take down the UI server
+        // best-effort; a missed sample is just a gap in the chart
       }
     });
   } finally {
-    ruleEngineRunning = false;
+    snapshotSamplerRunning = false;
   }
 }
 
+// `interval` accepts e.g. 30s, 5m, 1h, 1d or plain milliseconds.
+function parseIntervalMs(raw: string): number | null {
+  const m = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/i.exec(raw.trim());
+  if (!m) return null;
+  const n = Number(m[1]);
+  const unit = (m[2] || 'ms').toLowerCase();
+  const mult = unit === 'd' ? 86_400_000 : unit === 'h' ? 3_600_000 : unit === 'm' ? 60_000 : unit === 's' ? 1000 : 1;
+  const ms = n * mult;
+  return Number.isFinite(ms) && ms > 0 ? ms : null;
+}
+
 function polymarketCategoryFromSlug(slug: string): string {
   const s = String(slug || '').toLowerCase();
   if (!s) return '';
@@ -297,6 +729,20 @@ type DataAPITrade = {
   transactionHash: string;
 };
 
+// The cluster scan reads every trade in range synchronously, so each option set is built at most once per 5 minutes.
+const walletClusterCache = new Map<string, { ts: number; report: ClusterReport }>();
+
+function cachedWalletClusters(options: { days: number; windowMs: number; minEdgeWeight: number }): ClusterReport {
+  const key = `${options.days}|${options.windowMs}|${options.minEdgeWeight}`;
+  const now = Date.now();
+  const cached = walletClusterCache.get(key);
+  if (cached && now - cached.ts < 5 * 60_000) return cached.report;
+  for (const [k, v] of walletClusterCache) if (now - v.ts >= 5 * 60_000) walletClusterCache.delete(k);
+  const report = findWalletClusters(options);
+  walletClusterCache.set(key, { ts: now, report });
+  return report;
+}
+
 let polyLiveCache: { ts: number; items: PolymarketFeedItem[] } = { ts: 0, items: [] };
 
 function normalizeLiveTrade(t: DataAPITrade): PolymarketFeedItem | null {
@@ -370,41 +816,6 @@ async function fetchTradeTitleMap(): Promise<Map<string, { title: string; slug:
   }
 }
 
-async function fetchGammaMarketMeta(marketId: string): Promise<MarketMeta | null> {
-  const cached = polyMarketCache.get(marketId);
-  if (cached && Date.now() - cached.fetchedAt < 24 * 60 * 60 * 1000) return cached;
-
-  const fromDb = getMarketMeta(marketId);
-  if (fromDb && Date.now() - fromDb.fetchedAt < 24 * 60 * 60 * 1000) {
-    polyMarketCache.set(marketId, fromDb);
-    return fromDb;
-  }
-
-  try {
-    const url = new URL(`${GAMMA_API_BASE}/markets`);
-    url.searchParams.set('limit', '1');
-    url.searchParams.set('condition_ids', marketId);
-    url.searchParams.set('conditionId', marketId);
-    const response = await fetch(url.toString());
-    if (!response.ok) return null;
-    const arr = (await response.json()) as any[];
-    const data: any = arr && arr.length ? arr[0] : null;
-    if (!data) return null;
-    const meta: MarketMeta = {
-      id: marketId,
-      question: typeof data?.question === 'string' ? data.question : 'Unknown',
-      category: typeof data?.category === 'string' && data.category.trim() ? data.category : 'uncategorized',
-      endDate: typeof data?.endDate === 'string' ? data.endDate : '',
-      fetchedAt: Date.now()
-    };
-    saveMarketMeta(meta);
-    polyMarketCache.set(marketId, meta);
-    return meta;
-  } catch {
-    return null;
-  }
-}
-
 async function ensureMarketMetaForFeed(marketIds: string[], cap: number): Promise<void> {
   const unique = Array.from(new Set(marketIds)).filter(Boolean);
   const toFetch: string[] = [];
@@ -441,7 +852,16 @@ async function ensureMarketMetaForFeed(marketIds: string[], cap: number): Promis
   }
 
   const remaining = toFetch.filter((id) => !fromTrades.includes(id));
-  await Promise.allSettled(remaining.map((id) => fetchGammaMarketMeta(id)));
+  if (!remaining.length) return;
+  try {
+    await enrichMarkets(remaining);
+    for (const id of remaining) {
+      const meta = getMarketMeta(id);
+      if (meta) polyMarketCache.set(id, meta);
+    }
+  } catch {
+    // ignore; the feed falls back to trade titles
+  }
 }
 
 function helpCommand(getCommands: () => CommandSpec[]): CommandSpec {
@@ -468,17 +888,12 @@ function buildCore(): TerminalCore {
   commands.push(helpCommand(() => commands));
   commands.push(grokCommand());
   commands.push(edgarCommand());
+  commands.push(ruleCommand());
+  commands.push(calibrationCommand());
+  commands.push(eventsCommand());
   return new TerminalCore(commands);
 }
 
-function getOrCreateSession(sessionId: string): ChatSession {
-  const existing = sessions.get(sessionId);
-  if (existing) return existing;
-  const created: ChatSession = { id: sessionId, messages: [], events: [] };
-  sessions.set(sessionId, created);
-  return created;
-}
-
 function newId(prefix: string): string {
   return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
 }
@@ -512,9 +927,20 @@ function buildAgentSystemPrompt(): string {
   ].join('\n');
 }
 
-type LlmReplyResult = { assistantText: string; toolEvents: ToolEvent[] };
+type LlmReplyResult = { assistantText: string; toolEvents: ToolEvent[]; cancelled?: boolean };
+
+// Incremental progress for /api/chat/stream; ids match between tool.started and the finished ToolEvent.
+type AgentStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'tool.started'; id: string; title: string; command: string; targetWindow: string; ts: number }
+  | { type: 'tool.finished'; event: ToolEvent };
+
+type LlmReplyOptions = {
+  signal?: AbortSignal;
+  onEvent?: (event: AgentStreamEvent) => void;
+};
 
-async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResult> {
+async function llmReplyWithTools(messages: ChatMessage[], opts: LlmReplyOptions = {}): Promise<LlmReplyResult> {
   const hasKey = Boolean(process.env.ANTHROPIC_API_KEY);
   if (!hasKey) {
     return {
@@ -524,6 +950,16 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
     };
   }
 
+  const { signal } = opts;
+  const emit = (event: AgentStreamEvent) => {
+    if (!opts.onEvent || signal?.aborted) return;
+    try {
+      opts.onEvent(event);
+    } catch {
+      // ignore
+    }
+  };
+
   const model = process.env.TT_AGENT_MODEL || 'claude-sonnet-4-20250514';
   const baseMessages = messages.slice(-20).map((m) => ({
     role: m.role,
@@ -538,6 +974,10 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
 
   const system = buildAgentSystemPrompt();
   const toolEvents: ToolEvent[] = [];
+  const finishTool = (event: ToolEvent) => {
+    toolEvents.push(event);
+    emit({ type: 'tool.finished', event });
+  };
 
   let chain: any[] = baseMessages;
   let rounds = 0;
@@ -547,13 +987,19 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
 
   try {
     while (rounds++ < maxRounds) {
-      const response: any = await anthropic.messages.create({
-        model,
-        max_tokens: 900,
-        system,
-        tools,
-        messages: chain
-      } as any);
+      if (signal?.aborted) throw new Error('Cancelled');
+      const stream = anthropic.messages.stream(
+        {
+          model,
+          max_tokens: 900,
+          system,
+          tools,
+          messages: chain
+        } as any,
+        { signal }
+      );
+      stream.on('text', (text: string) => emit({ type: 'delta', text }));
+      const response: any = await stream.finalMessage();
 
       const contentBlocks: any[] = Array.isArray(response?.content) ? response.content : [];
       const toolUses: any[] = contentBlocks.filter((b) => b && b.type === 'tool_use');
@@ -579,15 +1025,17 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
           const toolUseId = typeof tu?.id === 'string' ? tu.id : newId('tooluse');
           const toolName = typeof tu?.name === 'string' ? tu.name : '';
           const toolInput = tu?.input ?? {};
+          const eventId = newId('tool');
+          const command = safeJson(toolInput, 240);
 
           const tool = toolName ? getTool(toolName) : null;
           if (!tool) {
             const message = `Unknown tool: ${toolName || '(missing name)'}`;
-            toolEvents.push({
-              id: newId('tool'),
+            finishTool({
+              id: eventId,
               type: 'tool',
               title: toolName || 'tool',
-              command: safeJson(toolInput, 240),
+              command,
               outputs: [{ kind: 'error', message }],
               targetWindow: 'intel',
               meta: { durationMs: 0 },
@@ -596,17 +1044,19 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
             return { type: 'tool_result', tool_use_id: toolUseId, is_error: true, content: message };
           }
 
+          const targetWindow = tool.targetWindow || 'intel';
           const startedAt = Date.now();
+          emit({ type: 'tool.started', id: eventId, title: tool.name, command, targetWindow, ts: startedAt });
           try {
-            const result = await tool.execute(toolInput);
+            const result = await executeTool(tool, toolInput, { signal });
             const durationMs = Date.now() - startedAt;
-            toolEvents.push({
-              id: newId('tool'),
+            finishTool({
+              id: eventId,
               type: 'tool',
               title: tool.name,
-              command: safeJson(toolInput, 240),
+              command,
               outputs: renderToolResult(tool, result),
-              targetWindow: tool.targetWindow || 'intel',
+              targetWindow,
               meta: { durationMs },
               ts: Date.now()
             });
@@ -614,13 +1064,13 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
           } catch (err) {
             const durationMs = Date.now() - startedAt;
             const message = err instanceof Error ? err.message : String(err);
-            toolEvents.push({
-              id: newId('tool'),
+            finishTool({
+              id: eventId,
               type: 'tool',
               title: tool.name,
-              command: safeJson(toolInput, 240),
+              command,
               outputs: [{ kind: 'error', message }],
-              targetWindow: tool.targetWindow || 'intel',
+              targetWindow,
               meta: { durationMs },
               ts: Date.now()
             });
@@ -634,6 +1084,7 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
 
     return { assistantText: 'Agent ran out of tool rounds. Narrow the query and try again.', toolEvents };
   } catch (error) {
+    if (signal?.aborted) return { assistantText: 'Cancelled.', toolEvents, cancelled: true };
     const message = error instanceof Error ? error.message : String(error);
     return {
       assistantText: `Agent unavailable right now (${message}). Use /exec to run tools, e.g. "/exec grok <query>" or "/exec edgar filings AAPL 5".`,
@@ -642,6 +1093,64 @@ async function llmReplyWithTools(messages: ChatMessage[]): Promise<LlmReplyResul
   }
 }
 
+// In-flight streaming chat turns by requestId, so POST /api/chat/cancel can abort them.
+const chatRuns = new Map<string, { controller: AbortController; sessionId: string }>();
+
+// One chat turn: persist the user message, run /exec or the agent, persist the reply and tool events.
+async function runChatTurn(core: TerminalCore, sessionId: string, message: string, opts: LlmReplyOptions = {}): Promise<LlmReplyResult> {
+  appendChatMessage(sessionId, { role: 'user', text: message, ts: Date.now() });
+
+  const toolEvents: ToolEvent[] = [];
+  let assistantText = '';
+  let cancelled = false;
+
+  if (message.startsWith('/exec ')) {
+    const command = message.slice('/exec '.length).trim();
+    const outputs = await core.execute(command, buildContext());
+    // Allow UI-targeted directives without a full command integration yet.
+    // Examples:
+    //   /exec book BTC/USDT binance
+    //   /exec book open BTC/USDT binance
+    const parts = command.split(/\s+/).filter(Boolean);
+    let targetWindow = 'intel';
+    if (parts[0] === 'book') {
+      const symbol = parts[1] === 'open' ? parts[2] : parts[1];
+      const source = parts[1] === 'open' ? parts[3] : parts[2];
+      if (symbol && source) {
+        targetWindow = 'book';
+        outputs.push({
+          kind: 'json',
+          title: 'orderbook',
+          value: { symbol, source }
+        });
+      }
+    }
+    const event: ToolEvent = {
+      id: newId('tool'),
+      type: 'tool',
+      title: 'exec',
+      command,
+      outputs,
+      targetWindow,
+      ts: Date.now()
+    };
+    toolEvents.push(event);
+    opts.onEvent?.({ type: 'tool.finished', event });
+    assistantText = `Ran: ${command}`;
+  } else {
+    const reply = await llmReplyWithTools(listChatMessages(sessionId, { limit: 20 }), opts);
+    assistantText = reply.assistantText;
+    cancelled = Boolean(reply.cancelled);
+    toolEvents.push(...reply.toolEvents);
+  }
+
+  for (const event of toolEvents) appendChatToolEvent(sessionId, event);
+  appendChatMessage(sessionId, { role: 'assistant', text: assistantText, ts: Date.now() });
+  for (const event of toolEvents) bus.publish('tool.event', { sessionId, event });
+
+  return { assistantText, toolEvents, cancelled };
+}
+
 function json(res: any, statusCode: number, body: unknown): void {
   const data = JSON.stringify(body);
   res.statusCode = statusCode;
@@ -783,7 +1292,17 @@ async function main(): Promise<void> {
   const port = Number(process.env.TT_UI_PORT || 7777);
   const host = process.env.TT_UI_HOST || '127.0.0.1';
 
-  // Rule engine (alerts-only, v1): evaluate continuously while the UI server runs.
+  // Alert sinks: a JSON array of sink configs (see .env.example). Without it alerts only show in the UI.
+  const sinksFile = (process.env.TT_ALERT_SINKS || '').trim();
+  if (sinksFile) {
+    try {
+      configureAlertSinks(await loadAlertSinks(sinksFile));
+    } catch (e: any) {
+      console.error(`Alert sinks not loaded (${sinksFile}): ${String(e?.message || e)}`);
+    }
+  }
+
+  // Rule engine: evaluate continuously while the UI server runs.
   runRuleEngineOnce().catch(() => {
     // ignore
   });
@@ -793,6 +1312,60 @@ async function main(): Promise<void> {
     });
   }, 5000);
 
+  // Paper matcher: fills confirmed, token-linked orders against the live CLOB book. TT_MATCHER_INTERVAL_MS=0 disables it.
+  const matcherIntervalMs = envNumber('TT_MATCHER_INTERVAL_MS', 5000);
+  if (matcherIntervalMs > 0) {
+    setInterval(() => {
+      runMatcherOnce().catch(() => {
+        // ignore
+      });
+    }, Math.max(1000, matcherIntervalMs));
+  }
+
+  // Resolution poller: records winners of closed markets for calibration. TT_RESOLUTION_INTERVAL_MS=0 disables it.
+  const resolutionIntervalMs = envNumber('TT_RESOLUTION_INTERVAL_MS', 30 * 60 * 1000);
+  if (resolutionIntervalMs > 0) {
+    pollResolutionsOnce().catch(() => {
+      // ignore
+    });
+    setInterval(() => {
+      pollResolutionsOnce().catch(() => {
+        // ignore
+      });
+    }, Math.max(60_000, resolutionIntervalMs));
+  }
+
+  // Calendar scheduler: pre-event alerts and post-event move snapshots. TT_EVENT_SCHEDULER_INTERVAL_MS=0 disables it.
+  const eventSchedulerIntervalMs = envNumber('TT_EVENT_SCHEDULER_INTERVAL_MS', 5 * 60 * 1000);
+  if (eventSchedulerIntervalMs > 0) {
+    runEventSchedulerOnce().catch(() => {
+      // ignore
+    });
+    setInterval(() => {
+      runEventSchedulerOnce().catch(() => {
+        // ignore
+      });
+    }, Math.max(10_000, eventSchedulerIntervalMs));
+  }
+
+  if (snapshotIntervalMs > 0) {
+    samplePriceSnapshotsOnce().catch(() => {
+      // ignore
+    });
+    setInterval(() => {
+      samplePriceSnapshotsOnce().catch(() => {
+        // ignore
+      });
+    }, Math.max(5000, snapshotIntervalMs));
+    setInterval(() => {
+      try {
+        compactPriceSnapshots(snapshotRetention);
+      } catch {
+        // ignore
+      }
+    }, 60 * 60 * 1000);
+  }
+
   const server = createServer(async (req, res) => {
     try {
       const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
@@ -804,6 +1377,39 @@ async function main(): Promise<void> {
         return json(res, 200, { ok: true });
       }
 
+      // Server-sent events. `topics` filters by prefix (`alert`, `rule`, `order`, `fill`, `position`, `conviction`, `market`, `tool`);
+      // a reconnect with Last-Event-ID replays what was missed, or sends `stream.reset` if that is no longer possible.
+      if (pathname === '/api/stream' && req.method === 'GET') {
+        const topicsRaw = (url.searchParams.get('topics') || '').trim();
+        const topics = topicsRaw ? topicsRaw.split(',').map((t) => t.trim()).filter(Boolean) : null;
+        const lastId = String(req.headers['last-event-id'] || url.searchParams.get('lastEventId') || '').trim();
+
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-store',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no'
+        });
+        const send = (event: BusEvent<ServerEvents>) => {
+          res.write(`id: ${event.id}\nevent: ${String(event.topic)}\ndata: ${JSON.stringify({ at: event.at, data: event.data })}\n\n`);
+        };
+
+        res.write(`retry: 3000\nevent: stream.open\ndata: ${JSON.stringify({ topics })}\n\n`);
+        if (lastId) {
+          const missed = bus.since(lastId, topics);
+          if (missed) for (const event of missed) send(event);
+          else res.write(`event: stream.reset\ndata: {}\n\n`);
+        }
+
+        const unsubscribe = bus.subscribe(topics, send);
+        const heartbeat = setInterval(() => res.write(': ping\n\n'), 15_000);
+        req.on('close', () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        });
+        return;
+      }
+
       if (pathname === '/api/exec' && req.method === 'POST') {
         const body = await readJson(req);
         const line = typeof body?.line === 'string' ? body.line : '';
@@ -845,6 +1451,27 @@ async function main(): Promise<void> {
         return json(res, 200, { ok: true, candles, cached: meta.cached, meta });
       }
 
+      if (pathname.startsWith('/api/markets/') && pathname.endsWith('/history') && req.method === 'GET') {
+        const id = pathname.slice('/api/markets/'.length, -'/history'.length).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        const market = getMarketById(id);
+        if (!market) return json(res, 404, { ok: false, error: 'Market not found' });
+        const parseTime = (v: string | null): number | null => {
+          if (!v) return null;
+          const ms = /^\d+$/.test(v) ? Number(v) : Date.parse(v);
+          return Number.isFinite(ms) ? ms : null;
+        };
+        const intervalRaw = (url.searchParams.get('interval') || '').trim();
+        const intervalMs = intervalRaw ? parseIntervalMs(intervalRaw) : null;
+        if (intervalRaw && intervalMs == null) return json(res, 400, { ok: false, error: 'invalid interval (e.g. 5m, 1h, 1d)' });
+        const points = listPriceSnapshots(id, {
+          from: parseTime(url.searchParams.get('from')),
+          to: parseTime(url.searchParams.get('to')),
+          intervalMs
+        });
+        return json(res, 200, { ok: true, market, intervalMs, points });
+      }
+
       if (pathname === '/api/convictions' && req.method === 'GET') {
         const limitRaw = Number(url.searchParams.get('limit') || '200');
         const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(1000, Math.floor(limitRaw))) : 200;
@@ -916,25 +1543,100 @@ async function main(): Promise<void> {
         }
 
         const market = upsertMarket({ source, externalId, slug: slug || undefined, question: question || undefined, endDate });
-        const conviction = upsertConvictionByMarketId({
-          marketId: market.id,
-          myProbability: body?.myProbability,
-          entryThesis: body?.entryThesis,
-          status: body?.status,
-          keyUncertainties: body?.keyUncertainties,
-          exitConditions: body?.exitConditions
+        // The revision history keeps the market mid next to each edit; a failed lookup just leaves it blank.
+        const prices = source === 'polymarket' ? await fetchGammaYesPrices(externalId).catch(() => null) : null;
+        const caseIdRaw = body?.caseId == null || body.caseId === '' ? null : Number(body.caseId);
+        const conviction = upsertConvictionByMarketId(
+          {
+            marketId: market.id,
+            myProbability: body?.myProbability,
+            entryThesis: body?.entryThesis,
+            status: body?.status,
+            keyUncertainties: body?.keyUncertainties,
+            exitConditions: body?.exitConditions
+          },
+          {
+            marketMid: prices?.mid ?? null,
+            reason: typeof body?.reason === 'string' ? body.reason : '',
+            caseId: caseIdRaw != null && Number.isFinite(caseIdRaw) ? caseIdRaw : null,
+            infoEventId: typeof body?.infoEventId === 'string' ? body.infoEventId : null
+          }
+        );
+        bus.publish('conviction.updated', { market, conviction });
+        await evaluateRulesForMarket(market.id).catch(() => {
+          // ignore; the periodic loop will pick the rules up
         });
 
         return json(res, 200, { ok: true, market, conviction });
       }
 
+      // Revision timeline plus the market's recorded mids over the same span, for the probability-vs-market chart.
+      if (pathname.startsWith('/api/convictions/') && pathname.endsWith('/revisions') && req.method === 'GET') {
+        const id = pathname.slice('/api/convictions/'.length, -'/revisions'.length).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        const conviction = getConvictionById(id);
+        if (!conviction) return json(res, 404, { ok: false, error: 'Conviction not found' });
+        const limitRaw = Number(url.searchParams.get('limit') || '500');
+        const revisions = listConvictionRevisions(id, { limit: limitRaw });
+        const from = revisions.length ? revisions[0]!.createdAt : conviction.createdAt;
+        const points = listPriceSnapshots(conviction.marketId, { from, intervalMs: 60 * 60 * 1000, limit: 2000 });
+        return json(res, 200, { ok: true, conviction, market: getMarketById(conviction.marketId), revisions, points });
+      }
+
       if (pathname.startsWith('/api/convictions/') && req.method === 'DELETE') {
         const id = pathname.slice('/api/convictions/'.length).trim();
         if (!id) return json(res, 400, { ok: false, error: 'id required' });
         deleteConviction(id);
+        bus.publish('conviction.deleted', { id });
         return json(res, 200, { ok: true });
       }
 
+      // Review queue: research cases with no decision yet, newest first.
+      if (pathname === '/api/cases/pending' && req.method === 'GET') {
+        return json(res, 200, { ok: true, cases: getPendingCases() });
+      }
+
+      if (pathname.startsWith('/api/cases/') && pathname.endsWith('/decision') && req.method === 'POST') {
+        const caseId = Number(pathname.slice('/api/cases/'.length, -'/decision'.length).trim());
+        if (!Number.isInteger(caseId)) return json(res, 400, { ok: false, error: 'case id required' });
+        const researchCase = getCase(caseId);
+        if (!researchCase) return json(res, 404, { ok: false, error: 'Research case not found' });
+        const body = await readJson(req);
+        const decisionRaw = String(body?.decision || '').trim().toLowerCase();
+        if (decisionRaw !== 'approved' && decisionRaw !== 'rejected' && decisionRaw !== 'needs_more') {
+          return json(res, 400, { ok: false, error: 'decision must be approved, rejected or needs_more' });
+        }
+        const betAmount = body?.betAmount == null || body.betAmount === '' ? undefined : Number(body.betAmount);
+        if (betAmount !== undefined && (!Number.isFinite(betAmount) || betAmount < 0)) return json(res, 400, { ok: false, error: 'Invalid betAmount' });
+
+        // Cases saved before market data carried a conditionId are looked up by their Gamma id.
+        let conditionId = String(body?.conditionId || researchCase.market?.conditionId || '').trim();
+        if (decisionRaw === 'approved' && !conditionId) {
+          const fetched = await fetchMarketById(researchCase.marketId).catch(() => null);
+          conditionId = fetched?.conditionId || '';
+          if (!conditionId) return json(res, 502, { ok: false, error: 'Could not find the conditionId for this case; pass conditionId' });
+        }
+        const prices = decisionRaw === 'approved' ? await fetchGammaYesPrices(conditionId).catch(() => null) : null;
+
+        const result = saveDecision(
+          {
+            caseId,
+            decision: decisionRaw,
+            notes: typeof body?.notes === 'string' ? body.notes : undefined,
+            betAmount,
+            decidedAt: new Date().toISOString()
+          },
+          { conditionId: conditionId || null, marketMid: prices?.mid ?? null }
+        );
+        if (result.market && result.conviction) {
+          bus.publish('conviction.updated', { market: result.market, conviction: result.conviction });
+          await evaluateRulesForMarket(result.market.id).catch(() => {
+            // ignore; the periodic loop will pick the rules up
+          });
+        }
+        return json(res, 200, { ok: true, ...result });
+      }
+
       if (pathname === '/api/events' && req.method === 'GET') {
         const limitRaw = Number(url.searchParams.get('limit') || '500');
         const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 500;
@@ -945,6 +1647,36 @@ async function main(): Promise<void> {
         return json(res, 200, { ok: true, events });
       }
 
+      // Event study over stored price snapshots: per-event repricing and the typical curve per category.
+      if (pathname === '/api/events/study' && req.method === 'GET') {
+        const hoursParam = (name: string, fallback: number) => {
+          const n = Number(url.searchParams.get(name) || fallback);
+          return Number.isFinite(n) ? Math.max(1, Math.min(336, Math.floor(n))) : fallback;
+        };
+        const report = runEventStudy({
+          category: (url.searchParams.get('category') || '').trim() || null,
+          marketId: (url.searchParams.get('marketId') || '').trim() || null,
+          eventId: (url.searchParams.get('eventId') || '').trim() || null,
+          preHours: hoursParam('preHours', 48),
+          postHours: hoursParam('postHours', 72),
+          includeApproximate: url.searchParams.get('approximate') === '1'
+        });
+        return json(res, 200, { ok: true, ...report });
+      }
+
+      // Measured YES moves across past events, next to what the event's impact hypothesis expected.
+      if (pathname === '/api/events/impacts' && req.method === 'GET') {
+        const limitRaw = Number(url.searchParams.get('limit') || '200');
+        const marketId = (url.searchParams.get('marketId') || '').trim() || null;
+        const eventId = (url.searchParams.get('eventId') || '').trim() || null;
+        const impacts = listEventImpacts({ limit: limitRaw, marketId, eventId }).map((r) => {
+          const hypothesis = hypothesisDirection(r.impact.impactHypothesis);
+          const hit = hypothesis.direction == null || r.impact.move == null || r.impact.move === 0 ? null : Math.sign(r.impact.move) === hypothesis.direction;
+          return { ...r.impact, event: r.event, market: r.market, hypothesis: { ...hypothesis, hit } };
+        });
+        return json(res, 200, { ok: true, impacts });
+      }
+
       if (pathname === '/api/events' && req.method === 'POST') {
         const body = await readJson(req);
         const event = createInfoEvent({
@@ -954,6 +1686,7 @@ async function main(): Promise<void> {
           dateConfidence: body?.dateConfidence,
           source: body?.source ?? null,
           impactHypothesis: body?.impactHypothesis,
+          category: body?.category,
           createdBy: body?.createdBy
         });
         return json(res, 200, { ok: true, event });
@@ -970,6 +1703,7 @@ async function main(): Promise<void> {
           dateConfidence: body?.dateConfidence,
           source: body?.source,
           impactHypothesis: body?.impactHypothesis,
+          category: body?.category,
           createdBy: body?.createdBy
         });
         return json(res, 200, { ok: true, event });
@@ -1005,6 +1739,7 @@ async function main(): Promise<void> {
         let totalCost = 0;
         let totalValue = 0;
         let totalPnl = 0;
+        let totalRealized = 0;
 
         const positions = rows.map((r) => {
           const prices = pricesByMarketId.get(r.market.id) ?? null;
@@ -1017,6 +1752,7 @@ async function main(): Promise<void> {
           totalCost += cost;
           if (value != null) totalValue += value;
           if (pnl != null) totalPnl += pnl;
+          totalRealized += r.position.realizedPnl;
 
           return {
             ...r.position,
@@ -1029,7 +1765,81 @@ async function main(): Promise<void> {
           };
         });
 
-        return json(res, 200, { ok: true, positions, totals: { cost: totalCost, value: totalValue, pnl: totalPnl } });
+        return json(res, 200, { ok: true, positions, totals: { cost: totalCost, value: totalValue, pnl: totalPnl, realizedPnl: totalRealized } });
+      }
+
+      // Every position marked to the live mid, with exposure by category / resolution date, concentration and
+      // expected value at conviction probabilities.
+      if (pathname === '/api/portfolio' && req.method === 'GET') {
+        const inputs = await markPortfolioInputs();
+        return json(res, 200, { ok: true, ...buildPortfolioReport(inputs) });
+      }
+
+      // P&L under each market-group scenario (scenario markets settle, the rest stay at their mark) and under
+      // Monte Carlo sampling from conviction probabilities, correlated within each group.
+      if (pathname === '/api/portfolio/stress' && req.method === 'POST') {
+        const body = await readJson(req);
+        const groupIds: string[] | null = Array.isArray(body?.groupIds) ? body.groupIds.map((id: unknown) => String(id)) : null;
+        const groups = listMarketGroups().filter((g) => !groupIds || groupIds.includes(g.id));
+        if (groupIds) {
+          const missing = groupIds.filter((id) => !groups.some((g) => g.id === id));
+          if (missing.length) return json(res, 404, { ok: false, error: `Market group not found: ${missing.join(', ')}` });
+        }
+        const correlation = Number(body?.correlation ?? 0);
+        if (!Number.isFinite(correlation) || correlation < 0 || correlation >= 1) {
+          return json(res, 400, { ok: false, error: 'correlation must be in [0, 1)' });
+        }
+        const groupCorrelation: Record<string, number> = {};
+        if (body?.groupCorrelation && typeof body.groupCorrelation === 'object') {
+          for (const [id, value] of Object.entries(body.groupCorrelation)) groupCorrelation[id] = Number(value);
+        }
+        const iterationsRaw = Number(body?.iterations ?? 10_000);
+        const seedRaw = Number(body?.seed);
+
+        const inputs = await markPortfolioInputs();
+        const report = runStressTest(inputs, groups, {
+          monteCarlo: body?.monteCarlo !== false,
+          correlation,
+          groupCorrelation,
+          iterations: Number.isFinite(iterationsRaw) ? iterationsRaw : 10_000,
+          seed: Number.isFinite(seedRaw) ? seedRaw : undefined
+        });
+        return json(res, 200, { ok: true, groups: groups.map((g) => ({ id: g.id, name: g.name })), ...report });
+      }
+
+      if (pathname === '/api/market-groups' && req.method === 'GET') {
+        return json(res, 200, { ok: true, groups: listMarketGroups() });
+      }
+
+      if (pathname === '/api/market-groups' && req.method === 'POST') {
+        const body = await readJson(req);
+        const group = createMarketGroup({
+          name: body?.name,
+          description: body?.description,
+          marketIds: body?.marketIds,
+          scenarios: body?.scenarios
+        });
+        return json(res, 200, { ok: true, group });
+      }
+
+      if (pathname.startsWith('/api/market-groups/') && req.method === 'PUT') {
+        const id = pathname.slice('/api/market-groups/'.length).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        const body = await readJson(req);
+        const group = updateMarketGroup(id, {
+          name: body?.name,
+          description: body?.description,
+          marketIds: body?.marketIds,
+          scenarios: body?.scenarios
+        });
+        return json(res, 200, { ok: true, group });
+      }
+
+      if (pathname.startsWith('/api/market-groups/') && req.method === 'DELETE') {
+        const id = pathname.slice('/api/market-groups/'.length).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        deleteMarketGroup(id);
+        return json(res, 200, { ok: true });
       }
 
       if (pathname === '/api/positions' && req.method === 'POST') {
@@ -1072,6 +1882,14 @@ async function main(): Promise<void> {
         return json(res, 200, { ok: true, position });
       }
 
+      if (pathname.startsWith('/api/positions/') && pathname.endsWith('/ledger') && req.method === 'GET') {
+        const id = pathname.slice('/api/positions/'.length, -'/ledger'.length).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        const limitRaw = Number(url.searchParams.get('limit') || '500');
+        const entries = listPositionLedger(id, { limit: limitRaw });
+        return json(res, 200, { ok: true, entries });
+      }
+
       if (pathname.startsWith('/api/positions/') && req.method === 'DELETE') {
         const id = pathname.slice('/api/positions/'.length).trim();
         if (!id) return json(res, 400, { ok: false, error: 'id required' });
@@ -1084,12 +1902,73 @@ async function main(): Promise<void> {
         const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 500;
         const statusRaw = (url.searchParams.get('status') || '').trim().toLowerCase();
         const status: RuleStatus | undefined =
-          statusRaw === 'active' || statusRaw === 'triggered' || statusRaw === 'disabled' ? (statusRaw as RuleStatus) : undefined;
+          statusRaw === 'active' || statusRaw === 'triggered' || statusRaw === 'disabled' || statusRaw === 'expired'
+            ? (statusRaw as RuleStatus)
+            : undefined;
         const rows = listRulesWithMarkets({ limit, status });
-        const rules = rows.map((r) => ({ ...r.rule, market: r.market }));
+        const rules = rows.map((r) => ({
+          ...r.rule,
+          conditionsSummary: describeConditionTree(r.rule.conditions),
+          actionSummary: describeRuleAction(r.rule.action),
+          market: r.market
+        }));
         return json(res, 200, { ok: true, rules });
       }
 
+      if (pathname === '/api/rules/conditions' && req.method === 'GET') {
+        const conditions = listConditions().map((c) => ({ type: c.type, description: c.description }));
+        return json(res, 200, { ok: true, conditions });
+      }
+
+      if (pathname.startsWith('/api/rules/') && pathname.endsWith('/history') && req.method === 'GET') {
+        const id = pathname.slice('/api/rules/'.length, -'/history'.length).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        const rule = getRuleById(id);
+        if (!rule) return json(res, 404, { ok: false, error: 'Rule not found' });
+        const limitRaw = Number(url.searchParams.get('limit') || '200');
+        const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 200;
+        return json(res, 200, { ok: true, rule, history: listRuleHistory(id, { limit }) });
+      }
+
+      if (pathname === '/api/rules/backtest' && req.method === 'POST') {
+        const body = await readJson(req);
+        // Backtest a saved rule by id, or an unsaved one from the same fields POST /api/rules takes.
+        const ruleId = String(body?.ruleId || '').trim();
+        const rule = ruleId
+          ? getRuleById(ruleId)
+          : draftRule({
+              marketId: String(body?.marketId || ''),
+              name: body?.name,
+              type: body?.type,
+              priceThreshold: body?.priceThreshold,
+              minEdge: body?.minEdge,
+              edgeBasis: body?.edgeBasis,
+              edgeSizeUsd: body?.edgeSizeUsd,
+              minMyProbability: body?.minMyProbability,
+              conditions: body?.conditions,
+              mode: body?.mode,
+              rearmBand: body?.rearmBand,
+              cooldownMinutes: body?.cooldownMinutes,
+              maxFires: body?.maxFires,
+              expiresAt: body?.expiresAt
+            });
+        if (!rule) return json(res, 404, { ok: false, error: 'Rule not found' });
+        const parseTime = (v: unknown): number | null => {
+          if (v == null || v === '') return null;
+          const ms = typeof v === 'number' ? v : Date.parse(String(v));
+          return Number.isFinite(ms) ? ms : null;
+        };
+        const sideRaw = String(body?.side || '').trim().toUpperCase();
+        const result = await runRuleBacktest(rule, {
+          from: parseTime(body?.from),
+          to: parseTime(body?.to),
+          side: sideRaw === 'YES' || sideRaw === 'NO' ? sideRaw : undefined,
+          stakeUsd: body?.stakeUsd == null || body.stakeUsd === '' ? undefined : Number(body.stakeUsd),
+          source: body?.source ? String(body.source) : undefined
+        });
+        return json(res, 200, { ok: true, rule, conditionsSummary: describeConditionTree(rule.conditions), result });
+      }
+
       if (pathname === '/api/rules' && req.method === 'POST') {
         const body = await readJson(req);
         const rule = createRule({
@@ -1097,8 +1976,19 @@ async function main(): Promise<void> {
           name: body?.name,
           type: body?.type,
           priceThreshold: body?.priceThreshold,
-          minMyProbability: body?.minMyProbability
+          minEdge: body?.minEdge,
+          edgeBasis: body?.edgeBasis,
+          edgeSizeUsd: body?.edgeSizeUsd,
+          minMyProbability: body?.minMyProbability,
+          conditions: body?.conditions,
+          mode: body?.mode,
+          rearmBand: body?.rearmBand,
+          cooldownMinutes: body?.cooldownMinutes,
+          maxFires: body?.maxFires,
+          expiresAt: body?.expiresAt,
+          action: body?.action
         });
+        bus.publish('rule.state', { ruleId: rule.id, marketId: rule.marketId, event: 'created', status: rule.status, detail: '' });
         return json(res, 200, { ok: true, rule });
       }
 
@@ -1110,9 +2000,20 @@ async function main(): Promise<void> {
           name: body?.name,
           type: body?.type,
           priceThreshold: body?.priceThreshold,
+          minEdge: body?.minEdge,
+          edgeBasis: body?.edgeBasis,
+          edgeSizeUsd: body?.edgeSizeUsd,
           minMyProbability: body?.minMyProbability,
+          conditions: body?.conditions,
+          mode: body?.mode,
+          rearmBand: body?.rearmBand,
+          cooldownMinutes: body?.cooldownMinutes,
+          maxFires: body?.maxFires,
+          expiresAt: body?.expiresAt,
+          action: body?.action,
           status: body?.status
         });
+        bus.publish('rule.state', { ruleId: rule.id, marketId: rule.marketId, event: 'updated', status: rule.status, detail: '' });
         return json(res, 200, { ok: true, rule });
       }
 
@@ -1120,6 +2021,7 @@ async function main(): Promise<void> {
         const id = pathname.slice('/api/rules/'.length).trim();
         if (!id) return json(res, 400, { ok: false, error: 'id required' });
         deleteRule(id);
+        bus.publish('rule.state', { ruleId: id, marketId: null, event: 'deleted', status: null, detail: '' });
         return json(res, 200, { ok: true });
       }
 
@@ -1132,6 +2034,30 @@ async function main(): Promise<void> {
         return json(res, 200, { ok: true, alerts });
       }
 
+      if (pathname === '/api/alerts/sinks' && req.method === 'GET') {
+        const sinks = listAlertSinks().map((s) => ({ name: s.name, type: s.type, minSeverity: s.minSeverity, maxAttempts: s.maxAttempts }));
+        return json(res, 200, { ok: true, sinks });
+      }
+
+      if (pathname === '/api/alerts/deliveries' && req.method === 'GET') {
+        const limitRaw = Number(url.searchParams.get('limit') || '200');
+        const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(2000, Math.floor(limitRaw))) : 200;
+        const alertId = (url.searchParams.get('alertId') || '').trim() || undefined;
+        const statusRaw = (url.searchParams.get('status') || '').trim().toLowerCase();
+        const status = statusRaw === 'pending' || statusRaw === 'delivered' || statusRaw === 'failed' ? statusRaw : undefined;
+        return json(res, 200, { ok: true, deliveries: listAlertDeliveries({ alertId, status, limit }) });
+      }
+
+      // Brier score, log loss and reliability buckets over resolved convictions and research cases.
+      if (pathname === '/api/calibration' && req.method === 'GET') {
+        const kindRaw = (url.searchParams.get('kind') || '').trim().toLowerCase();
+        const kind = kindRaw === 'conviction' || kindRaw === 'case' ? kindRaw : null;
+        const bucketsRaw = Number(url.searchParams.get('buckets') || '10');
+        const buckets = Number.isFinite(bucketsRaw) ? Math.max(2, Math.min(20, Math.floor(bucketsRaw))) : 10;
+        const forecasts = listResolvedForecasts().filter((f) => !kind || f.kind === kind);
+        return json(res, 200, { ok: true, ...calibrationReport(forecasts, { buckets }) });
+      }
+
       if (pathname === '/api/alerts/seen' && req.method === 'POST') {
         const body = await readJson(req);
         const ids = Array.isArray(body?.ids) ? body.ids.map(String) : [];
@@ -1176,10 +2102,7 @@ async function main(): Promise<void> {
         const market = await fetchGammaMarketByConditionId(conditionId);
         if (!market) return json(res, 404, { ok: false, error: 'Market not found in Gamma (conditionId)' });
 
-        const outcomes = parseGammaJsonArray((market as any).outcomes);
-        const tokenIds = parseGammaJsonArray((market as any).clobTokenIds);
-        const idx = findOutcomeIndex(outcomes, outcome);
-        const tokenId = tokenIds[idx] || tokenIds[0] || '';
+        const tokenId = clobTokenIdForOutcome(market, outcome);
         if (!tokenId) return json(res, 502, { ok: false, error: 'Missing clobTokenIds from Gamma response' });
 
         const book = await fetchPolymarketClobBook(tokenId, depth);
@@ -1267,7 +2190,29 @@ async function main(): Promise<void> {
         const qty = Number(body?.qty);
         const limitPrice = body?.limitPrice == null ? null : Number(body.limitPrice);
         const expectedPrice = body?.expectedPrice == null ? null : Number(body.expectedPrice);
-        const order = createOrder({ symbol, side, qty, type, limitPrice, expectedPrice });
+        // With a CLOB token id the paper matcher fills the order against the live book; without one, fills are manual.
+        let tokenId = typeof body?.tokenId === 'string' ? body.tokenId : null;
+        // With a market id + outcome, fills update that position; the symbol and token default from the market.
+        const marketId = typeof body?.marketId === 'string' ? body.marketId.trim() : '';
+        const market = marketId ? getMarketById(marketId) : null;
+        if (marketId && !market) return json(res, 404, { ok: false, error: 'market not found' });
+        const outcome: RuleOutcome = String(body?.outcome || 'YES').toUpperCase() === 'NO' ? 'NO' : 'YES';
+        if (market && !tokenId && market.source === 'polymarket') {
+          const gamma = await fetchGammaMarketByConditionId(market.externalId).catch(() => null);
+          tokenId = gamma ? clobTokenIdForOutcome(gamma, outcome) || null : null;
+        }
+        const order = createOrder({
+          symbol: symbol || (market ? marketOrderSymbol(market, outcome) : ''),
+          side,
+          qty,
+          type,
+          limitPrice,
+          expectedPrice,
+          tokenId,
+          marketId: market?.id ?? null,
+          outcome: market ? outcome : null
+        });
+        bus.publish('order.created', { order });
         return json(res, 200, { ok: true, order });
       }
 
@@ -1278,7 +2223,17 @@ async function main(): Promise<void> {
         const qty = body?.qty == null ? undefined : Number(body.qty);
         if (!orderId) return json(res, 400, { ok: false, error: 'orderId required' });
         const result = createFill({ orderId, price, qty });
-        return json(res, 200, { ok: true, ...result });
+        const positionError = recordFill(result.order, result.fill);
+        return json(res, 200, { ok: true, ...result, positionError });
+      }
+
+      if (pathname === '/api/execution/confirm' && req.method === 'POST') {
+        const body = await readJson(req);
+        const orderId = typeof body?.orderId === 'string' ? body.orderId : '';
+        if (!orderId) return json(res, 400, { ok: false, error: 'orderId required' });
+        const order = confirmOrder(orderId);
+        bus.publish('order.updated', { order });
+        return json(res, 200, { ok: true, order });
       }
 
       if (pathname === '/api/execution/cancel' && req.method === 'POST') {
@@ -1286,6 +2241,7 @@ async function main(): Promise<void> {
         const orderId = typeof body?.orderId === 'string' ? body.orderId : '';
         if (!orderId) return json(res, 400, { ok: false, error: 'orderId required' });
         const order = cancelOrder(orderId);
+        bus.publish('order.updated', { order });
         return json(res, 200, { ok: true, order });
       }
 
@@ -1422,71 +2378,139 @@ async function main(): Promise<void> {
         });
       }
 
+      // Wallet communities from the co-trading graph (same market, side and outcome within `windowSec`), best score first.
+      if (pathname === '/api/manipulation/clusters' && req.method === 'GET') {
+        const daysRaw = Number(url.searchParams.get('days') || '7');
+        const windowRaw = Number(url.searchParams.get('windowSec') || '60');
+        const minWeightRaw = Number(url.searchParams.get('minWeight') || '3');
+        const limitRaw = Number(url.searchParams.get('limit') || '50');
+        const flaggedOnly = url.searchParams.get('flagged') === '1' || url.searchParams.get('flagged') === 'true';
+        const report = cachedWalletClusters({
+          days: Number.isFinite(daysRaw) ? Math.max(1, Math.min(30, Math.floor(daysRaw))) : 7,
+          windowMs: Number.isFinite(windowRaw) ? Math.max(1, Math.min(3600, Math.floor(windowRaw))) * 1000 : 60_000,
+          minEdgeWeight: Number.isFinite(minWeightRaw) ? Math.max(1, Math.floor(minWeightRaw)) : 3
+        });
+        const limit = Number.isFinite(limitRaw) ? Math.max(1, Math.min(500, Math.floor(limitRaw))) : 50;
+        const clusters = flaggedOnly ? report.clusters.filter((c) => c.flagged) : report.clusters;
+        return json(res, 200, { ok: true, clusters: clusters.slice(0, limit), stats: report.stats });
+      }
+
       if (pathname === '/api/chat' && req.method === 'POST') {
         const body = await readJson(req);
         const sessionId = typeof body?.sessionId === 'string' && body.sessionId.trim() ? body.sessionId.trim() : 'default';
         const message = typeof body?.message === 'string' ? body.message.trim() : '';
         if (!message) return json(res, 400, { ok: false, error: 'message is required' });
 
-        const session = getOrCreateSession(sessionId);
-        const now = Date.now();
-        session.messages.push({ role: 'user', text: message, ts: now });
-
-        const toolEvents: ToolEvent[] = [];
-        let assistantText = '';
-
-        if (message.startsWith('/exec ')) {
-          const command = message.slice('/exec '.length).trim();
-          const outputs = await core.execute(command, buildContext());
-          // Allow UI-targeted directives without a full command integration yet.
-          // Examples:
-          //   /exec book BTC/USDT binance
-          //   /exec book open BTC/USDT binance
-          const parts = command.split(/\s+/).filter(Boolean);
-          let targetWindow = 'intel';
-          if (parts[0] === 'book') {
-            const symbol = parts[1] === 'open' ? parts[2] : parts[1];
-            const source = parts[1] === 'open' ? parts[3] : parts[2];
-            if (symbol && source) {
-              targetWindow = 'book';
-              outputs.push({
-                kind: 'json',
-                title: 'orderbook',
-                value: { symbol, source }
-              });
-            }
-          }
-          const event: ToolEvent = {
-            id: newId('tool'),
-            type: 'tool',
-            title: 'exec',
-            command,
-            outputs,
-            targetWindow,
-            ts: Date.now()
-          };
-          session.events.push(event);
-          toolEvents.push(event);
-          assistantText = `Ran: ${command}`;
-        } else {
-          const reply = await llmReplyWithTools(session.messages);
-          assistantText = reply.assistantText;
-          if (reply.toolEvents.length) {
-            for (const ev of reply.toolEvents) {
-              session.events.push(ev);
-              toolEvents.push(ev);
-            }
-          }
-        }
-
-        session.messages.push({ role: 'assistant', text: assistantText, ts: Date.now() });
-
+        const reply = await runChatTurn(core, sessionId, message);
         return json(res, 200, {
           ok: true,
-          sessionId: session.id,
-          assistant: assistantText,
-          events: toolEvents
+          sessionId,
+          assistant: reply.assistantText,
+          events: reply.toolEvents
+        });
+      }
+
+      // Same turn as /api/chat, streamed as SSE: `chat.start`, `delta` {text}, `tool.started`, `tool.finished` {event},
+      // then `chat.done` / `chat.cancelled` / `chat.error`. Closing the connection cancels like POST /api/chat/cancel.
+      if (pathname === '/api/chat/stream' && req.method === 'POST') {
+        const body = await readJson(req);
+        const sessionId = typeof body?.sessionId === 'string' && body.sessionId.trim() ? body.sessionId.trim() : 'default';
+        const message = typeof body?.message === 'string' ? body.message.trim() : '';
+        if (!message) return json(res, 400, { ok: false, error: 'message is required' });
+        const requestId = typeof body?.requestId === 'string' && body.requestId.trim() ? body.requestId.trim() : newId('chat');
+        if (chatRuns.has(requestId)) return json(res, 409, { ok: false, error: 'requestId already in flight' });
+
+        const controller = new AbortController();
+        chatRuns.set(requestId, { controller, sessionId });
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-store',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no'
+        });
+        const send = (event: string, data: unknown) => {
+          if (res.writableEnded || res.destroyed) return;
+          res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        };
+        res.on('close', () => {
+          if (!res.writableFinished) controller.abort();
         });
+
+        send('chat.start', { requestId, sessionId });
+        try {
+          const reply = await runChatTurn(core, sessionId, message, {
+            signal: controller.signal,
+            onEvent: (event) => send(event.type, event)
+          });
+          send(reply.cancelled ? 'chat.cancelled' : 'chat.done', {
+            requestId,
+            sessionId,
+            assistant: reply.assistantText,
+            events: reply.toolEvents
+          });
+        } catch (err) {
+          send('chat.error', { requestId, sessionId, error: err instanceof Error ? err.message : String(err) });
+        } finally {
+          chatRuns.delete(requestId);
+          res.end();
+        }
+        return;
+      }
+
+      // Aborts a streaming turn by requestId, or every in-flight turn of a session.
+      if (pathname === '/api/chat/cancel' && req.method === 'POST') {
+        const body = await readJson(req);
+        const requestId = typeof body?.requestId === 'string' ? body.requestId.trim() : '';
+        const sessionId = typeof body?.sessionId === 'string' ? body.sessionId.trim() : '';
+        if (!requestId && !sessionId) return json(res, 400, { ok: false, error: 'requestId or sessionId is required' });
+        let cancelled = 0;
+        for (const [id, run] of chatRuns) {
+          if (requestId ? id !== requestId : run.sessionId !== sessionId) continue;
+          run.controller.abort();
+          cancelled++;
+        }
+        return json(res, 200, { ok: true, cancelled });
+      }
+
+      if (pathname === '/api/chat/sessions' && req.method === 'GET') {
+        const limitRaw = Number(url.searchParams.get('limit') || '200');
+        return json(res, 200, { ok: true, sessions: listChatSessions({ limit: limitRaw }) });
+      }
+
+      // Markdown or JSON transcript with tool outputs inlined where they ran.
+      if (pathname.startsWith('/api/chat/sessions/') && pathname.endsWith('/export') && req.method === 'GET') {
+        const id = decodeURIComponent(pathname.slice('/api/chat/sessions/'.length, -'/export'.length)).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        const session = getChatSession(id);
+        if (!session) return json(res, 404, { ok: false, error: 'Chat session not found' });
+        const format = (url.searchParams.get('format') || 'md').trim().toLowerCase();
+        const filename = `chat-${id.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+        if (format === 'json') {
+          res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`);
+          return json(res, 200, chatSessionJson(session));
+        }
+        if (format !== 'md' && format !== 'markdown') return json(res, 400, { ok: false, error: 'format must be md or json' });
+        const body = chatSessionMarkdown(session);
+        res.statusCode = 200;
+        res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.md"`);
+        res.setHeader('Content-Length', Buffer.byteLength(body));
+        return res.end(body);
+      }
+
+      if (pathname.startsWith('/api/chat/sessions/') && req.method === 'GET') {
+        const id = decodeURIComponent(pathname.slice('/api/chat/sessions/'.length)).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        const session = getChatSession(id);
+        if (!session) return json(res, 404, { ok: false, error: 'Chat session not found' });
+        return json(res, 200, { ok: true, session });
+      }
+
+      if (pathname.startsWith('/api/chat/sessions/') && req.method === 'DELETE') {
+        const id = decodeURIComponent(pathname.slice('/api/chat/sessions/'.length)).trim();
+        if (!id) return json(res, 400, { ok: false, error: 'id required' });
+        deleteChatSession(id);
+        return json(res, 200, { ok: true });
       }
 
       if (pathname === '/api/tools' && req.method === 'GET') {
@@ -3,7 +3,7 @@ import { stdin as input, stdout as output } from 'node:process';
 
 import { TerminalCore } from '../core/index.js';
 import type { CommandContext, CommandSpec } from '../core/types.js';
-import { edgarCommand, grokCommand } from '../integrations/index.js';
+import { calibrationCommand, edgarCommand, eventsCommand, grokCommand, ruleCommand } from '../integrations/index.js';
 import { renderOutputs } from './render.js';
 
 function helpCommand(getCommands: () => CommandSpec[]): CommandSpec {
@@ -50,6 +50,9 @@ function buildCore(): TerminalCore {
   commands.push(quitCommand());
   commands.push(grokCommand());
   commands.push(edgarCommand());
+  commands.push(ruleCommand());
+  commands.push(calibrationCommand());
+  commands.push(eventsCommand());
   return new TerminalCore(commands);
 }
 
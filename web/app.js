@@ -252,6 +252,16 @@ async function upsertConviction(payload) {
   return data;
 }
 
+async function fetchConvictionRevisions(id) {
+  const res = await fetch(`/api/convictions/${encodeURIComponent(String(id))}/revisions`, { headers: { 'Accept': 'application/json' } });
+  if (!res.ok) {
+    throw new Error(await responseErrorMessage(res));
+  }
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error || 'conviction revisions error');
+  return data;
+}
+
 async function deleteConvictionById(id) {
   const res = await fetch(`/api/convictions/${encodeURIComponent(String(id))}`, { method: 'DELETE' });
   if (!res.ok) {
@@ -300,6 +310,16 @@ async function deleteEventById(id) {
   return true;
 }
 
+async function fetchPortfolio() {
+  const res = await fetch('/api/portfolio', { headers: { 'Accept': 'application/json' } });
+  if (!res.ok) {
+    throw new Error(await responseErrorMessage(res));
+  }
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error || 'portfolio error');
+  return data;
+}
+
 async function fetchPositions(limit) {
   const url = new URL('/api/positions', window.location.origin);
   url.searchParams.set('limit', String(limit || 500));
@@ -327,6 +347,16 @@ async function createPosition(payload) {
   return data;
 }
 
+async function fetchPositionLedger(id) {
+  const res = await fetch(`/api/positions/${encodeURIComponent(String(id))}/ledger`, { headers: { 'Accept': 'application/json' } });
+  if (!res.ok) {
+    throw new Error(await responseErrorMessage(res));
+  }
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error || 'position ledger error');
+  return Array.isArray(data.entries) ? data.entries : [];
+}
+
 async function deletePositionById(id) {
   const res = await fetch(`/api/positions/${encodeURIComponent(String(id))}`, { method: 'DELETE' });
   if (!res.ok) {
@@ -337,6 +367,20 @@ async function deletePositionById(id) {
   return true;
 }
 
+async function fetchMarketHistory(marketId, opts) {
+  const url = new URL(`/api/markets/${encodeURIComponent(String(marketId))}/history`, window.location.origin);
+  if (opts?.from != null) url.searchParams.set('from', String(opts.from));
+  if (opts?.to != null) url.searchParams.set('to', String(opts.to));
+  if (opts?.interval) url.searchParams.set('interval', String(opts.interval));
+  const res = await fetch(url.toString(), { headers: { 'Accept': 'application/json' } });
+  if (!res.ok) {
+    throw new Error(await responseErrorMessage(res));
+  }
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error || 'market history error');
+  return Array.isArray(data.points) ? data.points : [];
+}
+
 async function fetchRules(limit) {
   const url = new URL('/api/rules', window.location.origin);
   url.searchParams.set('limit', String(limit || 500));
@@ -377,6 +421,16 @@ async function updateRuleById(id, payload) {
   return data.rule;
 }
 
+async function fetchRuleHistory(id) {
+  const res = await fetch(`/api/rules/${encodeURIComponent(String(id))}/history`, { headers: { 'Accept': 'application/json' } });
+  if (!res.ok) {
+    throw new Error(await responseErrorMessage(res));
+  }
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error || 'rule history error');
+  return Array.isArray(data.history) ? data.history : [];
+}
+
 async function deleteRuleById(id) {
   const res = await fetch(`/api/rules/${encodeURIComponent(String(id))}`, { method: 'DELETE' });
   if (!res.ok) {
@@ -387,6 +441,49 @@ async function deleteRuleById(id) {
   return true;
 }
 
+// Live updates from GET /api/stream. Each server event is re-dispatched as `tt:server-event`
+// ({ topic, at, data }); windows refresh on the topics they show and keep a slow poll as a fallback.
+let serverStreamLive = false;
+
+function setupServerStream() {
+  if (typeof EventSource === 'undefined') return null;
+  const topics = ['alert', 'rule', 'order', 'fill', 'conviction'];
+  const source = new EventSource(`/api/stream?topics=${encodeURIComponent(topics.join(','))}`);
+
+  function forward(topic, e) {
+    let payload = null;
+    try {
+      payload = e?.data ? JSON.parse(e.data) : null;
+    } catch {
+      payload = null;
+    }
+    document.dispatchEvent(new CustomEvent('tt:server-event', { detail: { topic, at: payload?.at ?? Date.now(), data: payload?.data ?? null } }));
+  }
+
+  source.addEventListener('stream.open', () => {
+    serverStreamLive = true;
+    debugLog('stream:open');
+  });
+  // The server could not replay what we missed while disconnected: every window should refetch.
+  source.addEventListener('stream.reset', (e) => forward('stream.reset', e));
+  for (const topic of ['alert.created', 'rule.state', 'order.created', 'order.updated', 'fill.created', 'conviction.updated', 'conviction.deleted']) {
+    source.addEventListener(topic, (e) => forward(topic, e));
+  }
+  source.addEventListener('error', () => {
+    // EventSource reconnects on its own (sending Last-Event-ID); poll until it does.
+    serverStreamLive = false;
+  });
+
+  return { close: () => source.close() };
+}
+
+function onServerEvent(prefixes, fn) {
+  document.addEventListener('tt:server-event', (e) => {
+    const topic = String(e?.detail?.topic || '');
+    if (topic === 'stream.reset' || prefixes.some((p) => topic === p || topic.startsWith(`${p}.`))) fn(e.detail);
+  });
+}
+
 async function fetchAlerts(limit) {
   const url = new URL('/api/alerts', window.location.origin);
   url.searchParams.set('unseen', '1');
@@ -455,6 +552,20 @@ async function fillExecutionOrder(payload) {
   return data;
 }
 
+async function confirmExecutionOrder(payload) {
+  const res = await fetch('/api/execution/confirm', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload)
+  });
+  if (!res.ok) {
+    throw new Error(await responseErrorMessage(res));
+  }
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error || 'confirm error');
+  return data.order;
+}
+
 async function cancelExecutionOrder(payload) {
   const res = await fetch('/api/execution/cancel', {
     method: 'POST',
@@ -481,16 +592,62 @@ async function fetchStockQuote(symbol) {
   return data.quote;
 }
 
-async function chat(sessionId, message) {
-  const res = await fetch('/api/chat', {
+// Streams one chat turn from /api/chat/stream (SSE over a POST body). `onEvent(name, data)` sees
+// delta / tool.started / tool.finished as they arrive; resolves with the final chat.done or chat.cancelled payload.
+// Aborting `signal` drops the connection, which cancels the turn server-side.
+async function chatStream(sessionId, message, { signal, onEvent } = {}) {
+  const res = await fetch('/api/chat/stream', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ sessionId, message })
+    headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+    body: JSON.stringify({ sessionId, message }),
+    signal
   });
+  if (!res.ok || !res.body) {
+    throw new Error(await responseErrorMessage(res));
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result = null;
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let sep;
+    while ((sep = buffer.indexOf('\n\n')) >= 0) {
+      const frame = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      let name = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event: ')) name = line.slice(7);
+        else if (line.startsWith('data: ')) data += line.slice(6);
+      }
+      let payload = null;
+      try {
+        payload = data ? JSON.parse(data) : null;
+      } catch {
+        continue;
+      }
+      if (name === 'chat.error') throw new Error(payload?.error || 'chat error');
+      if (name === 'chat.done' || name === 'chat.cancelled') result = { ...payload, cancelled: name === 'chat.cancelled' };
+      else if (onEvent) onEvent(name, payload);
+    }
+  }
+  if (!result) throw new Error('Chat stream ended early');
+  return result;
+}
+
+async function fetchChatSession(sessionId) {
+  const res = await fetch(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, { headers: { 'Accept': 'application/json' } });
+  if (res.status === 404) return null;
   if (!res.ok) {
     throw new Error(await responseErrorMessage(res));
   }
-  return res.json();
+  const data = await res.json();
+  if (!data?.ok) throw new Error(data?.error || 'chat session error');
+  return data.session;
 }
 
 function renderOutputs(outputs) {
@@ -1282,6 +1439,16 @@ function appendChatMessage(role, text) {
   row.appendChild(body);
   chatEl.appendChild(row);
   chatEl.scrollTop = chatEl.scrollHeight;
+  return row;
+}
+
+function setChatMessageText(row, text) {
+  if (!row) return;
+  const body = row.querySelector('.chat-body');
+  row.dataset.raw = String(text ?? '');
+  if (body) body.innerHTML = escapeHtml(text).replaceAll('\n', '<br/>');
+  const chatEl = row.parentElement;
+  if (chatEl) chatEl.scrollTop = chatEl.scrollHeight;
 }
 
 function setPinnedUserPrompt(text) {
@@ -1415,34 +1582,84 @@ function setupChat(getWorkspaceId) {
     appendChatMessage('assistant', `Workspace: ${workspaceId}`);
     appendChatMessage('assistant', 'Ask normally; the agent can call tools. Use /exec for manual runs (e.g. "/exec grok <query>").');
     updatePinnedFromScroll();
+
+    // Replay the stored conversation (sessions are persisted server-side).
+    const sessionId = getChatSessionId(workspaceId);
+    fetchChatSession(sessionId)
+      .then((session) => {
+        if (!session || getWorkspaceId() !== workspaceId) return;
+        for (const m of session.messages || []) appendChatMessage(m.role === 'user' ? 'user' : 'assistant', String(m.text || ''));
+        if (session.toolEventCount) {
+          appendChatMessage('assistant', `${session.toolEventCount} earlier tool runs · export: /api/chat/sessions/${sessionId}/export?format=md`);
+        }
+        updatePinnedFromScroll();
+      })
+      .catch(() => {
+        // ignore; the chat still works without history
+      });
   }
 
   loadWorkspace(getWorkspaceId());
 
   chatEl.addEventListener('scroll', updatePinnedFromScroll);
 
+  // The turn in flight; Esc in the input (or sending another message) cancels it.
+  let inflight = null;
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && inflight) {
+      e.preventDefault();
+      inflight.abort();
+    }
+  });
+
   form.addEventListener('submit', async (e) => {
     e.preventDefault();
     const message = input.value.trim();
     if (!message) return;
     input.value = '';
+    if (inflight) inflight.abort();
 
     appendChatMessage('user', message);
     updatePinnedFromScroll();
 
+    const controller = new AbortController();
+    inflight = controller;
+    const row = appendChatMessage('assistant', '…');
+    let streamed = '';
+    let running = 0;
+    let focused = false;
+    const showProgress = () => {
+      const status = running ? `[running ${running} tool${running === 1 ? '' : 's'}… Esc to cancel]` : '';
+      setChatMessageText(row, [streamed, status].filter(Boolean).join('\n') || '…');
+    };
+
     try {
-      const resp = await chat(getChatSessionId(getWorkspaceId()), message);
-      if (resp?.assistant) appendChatMessage('assistant', resp.assistant);
-      for (const ev of resp?.events || []) appendIntelEvent(ev);
-      if (resp?.events?.length && windowManager?.focusWindowById) {
-        const first = resp.events[0];
-        const target = first?.targetWindow || 'intel';
-        openTargetWindow(target);
-      }
+      const resp = await chatStream(getChatSessionId(getWorkspaceId()), message, {
+        signal: controller.signal,
+        onEvent: (name, data) => {
+          if (name === 'delta') {
+            streamed += String(data?.text || '');
+          } else if (name === 'tool.started') {
+            running++;
+          } else if (name === 'tool.finished' && data?.event) {
+            running = Math.max(0, running - 1);
+            appendIntelEvent(data.event);
+            if (!focused && windowManager?.focusWindowById) {
+              focused = true;
+              openTargetWindow(data.event.targetWindow || 'intel');
+            }
+          }
+          showProgress();
+        }
+      });
+      setChatMessageText(row, resp?.assistant || streamed || '(no reply)');
       updatePinnedFromScroll();
     } catch (err) {
-      appendChatMessage('assistant', `Error: ${userFacingError(err, 'Error')}`);
+      if (controller.signal.aborted) setChatMessageText(row, [streamed, '[cancelled]'].filter(Boolean).join('\n'));
+      else setChatMessageText(row, `Error: ${userFacingError(err, 'Error')}`);
       updatePinnedFromScroll();
+    } finally {
+      if (inflight === controller) inflight = null;
     }
   });
 
@@ -1478,6 +1695,41 @@ function formatCompactNumber(n) {
   return String(num.toFixed(0));
 }
 
+// Inline YES-mid sparkline from the price snapshot store (last 7 days, hourly). Empty until the sampler has data.
+function mountMarketSparkline(container, marketId) {
+  const id = String(marketId || '').trim();
+  if (!container || !id) return;
+  fetchMarketHistory(id, { from: Date.now() - 7 * 24 * 60 * 60 * 1000, interval: '1h' })
+    .then((points) => {
+      const mids = points.map((p) => Number(p?.mid)).filter((x) => Number.isFinite(x));
+      if (mids.length < 2) return;
+      const min = Math.min(...mids);
+      const max = Math.max(...mids);
+      const span = max - min || 1;
+      const w = 120;
+      const h = 24;
+      const coords = mids.map((m, i) => `${((i / (mids.length - 1)) * w).toFixed(1)},${(h - ((m - min) / span) * h).toFixed(1)}`);
+
+      const ns = 'http://www.w3.org/2000/svg';
+      const svg = document.createElementNS(ns, 'svg');
+      svg.setAttribute('viewBox', `0 0 ${w} ${h}`);
+      svg.setAttribute('preserveAspectRatio', 'none');
+      svg.classList.add('mkt-spark');
+      const line = document.createElementNS(ns, 'polyline');
+      line.setAttribute('points', coords.join(' '));
+      line.classList.add(mids[mids.length - 1] >= mids[0] ? 'mkt-spark-up' : 'mkt-spark-down');
+      svg.appendChild(line);
+
+      const title = document.createElementNS(ns, 'title');
+      title.textContent = `7d ${(mids[0] * 100).toFixed(1)}% → ${(mids[mids.length - 1] * 100).toFixed(1)}% (lo ${(min * 100).toFixed(1)}%, hi ${(max * 100).toFixed(1)}%)`;
+      svg.appendChild(title);
+      container.replaceChildren(svg);
+    })
+    .catch(() => {
+      // ignore; sparkline is decorative
+    });
+}
+
 function setupDescription(getWorkspaceId) {
   const form = $('des-form');
   const symbolInput = $('des-symbol');
@@ -2168,6 +2420,7 @@ function setupWatchlist(getWorkspaceId) {
   const myProbInput = $('wl-my-prob');
   const statusSel = $('wl-status-sel');
   const thesisInput = $('wl-entry-thesis');
+  const reasonInput = $('wl-reason');
   const refreshBtn = $('wl-refresh');
   const list = $('wl-list');
   const statusEl = $('wl-status');
@@ -2189,6 +2442,76 @@ function setupWatchlist(getWorkspaceId) {
     return `${sign}${n.toFixed(1)} pts`;
   }
 
+  // My probability (step line + a dot per revision) against the market mid (hourly snapshots, else the mids saved with revisions).
+  function renderRevisionChart(container, data) {
+    const revisions = Array.isArray(data?.revisions) ? data.revisions : [];
+    const points = (Array.isArray(data?.points) ? data.points : []).filter((p) => Number.isFinite(Number(p?.mid)));
+    container.replaceChildren();
+    if (!revisions.length) {
+      container.textContent = 'No revisions recorded';
+      return;
+    }
+
+    const start = Number(revisions[0].createdAt);
+    const end = Math.max(Date.now(), ...points.map((p) => Number(p.at)));
+    const span = end - start || 1;
+    const w = 300;
+    const h = 72;
+    const x = (t) => (((Number(t) - start) / span) * w).toFixed(1);
+    const y = (p) => (h - Number(p) * h).toFixed(1);
+
+    const mine = [];
+    revisions.forEach((r, i) => {
+      if (i > 0) mine.push(`${x(r.createdAt)},${y(revisions[i - 1].myProbability)}`);
+      mine.push(`${x(r.createdAt)},${y(r.myProbability)}`);
+    });
+    mine.push(`${x(end)},${y(revisions[revisions.length - 1].myProbability)}`);
+
+    const market = points.length
+      ? points.map((p) => `${x(p.at)},${y(p.mid)}`)
+      : revisions.filter((r) => r.marketMid != null).map((r) => `${x(r.createdAt)},${y(r.marketMid)}`);
+
+    const ns = 'http://www.w3.org/2000/svg';
+    const svg = document.createElementNS(ns, 'svg');
+    svg.setAttribute('viewBox', `0 0 ${w} ${h}`);
+    svg.setAttribute('preserveAspectRatio', 'none');
+    svg.classList.add('wl-rev-chart');
+    if (market.length >= 2) {
+      const line = document.createElementNS(ns, 'polyline');
+      line.setAttribute('points', market.join(' '));
+      line.classList.add('wl-rev-mkt');
+      svg.appendChild(line);
+    }
+    const line = document.createElementNS(ns, 'polyline');
+    line.setAttribute('points', mine.join(' '));
+    line.classList.add('wl-rev-mine');
+    svg.appendChild(line);
+    for (const r of revisions) {
+      const dot = document.createElementNS(ns, 'circle');
+      dot.setAttribute('cx', x(r.createdAt));
+      dot.setAttribute('cy', y(r.myProbability));
+      dot.setAttribute('r', '2');
+      const title = document.createElementNS(ns, 'title');
+      title.textContent = `${new Date(Number(r.createdAt)).toLocaleString()} · my ${fmtPct(r.myProbability)} · mkt ${r.marketMid == null ? '—' : fmtPct(r.marketMid)}${
+        r.reason ? ` · ${r.reason}` : ''
+      }`;
+      dot.appendChild(title);
+      svg.appendChild(dot);
+    }
+    container.appendChild(svg);
+
+    const log = document.createElement('div');
+    log.className = 'wl-rev-log';
+    for (const r of revisions.slice(-5).reverse()) {
+      const lineEl = document.createElement('div');
+      const move = r.previousProbability == null ? fmtPct(r.myProbability) : `${fmtPct(r.previousProbability)} → ${fmtPct(r.myProbability)}`;
+      const link = r.caseId != null ? ` · case #${r.caseId}` : r.infoEventId ? ` · event ${r.infoEventId}` : '';
+      lineEl.textContent = `${new Date(Number(r.createdAt)).toLocaleDateString()} ${move} (mkt ${r.marketMid == null ? '—' : fmtPct(r.marketMid)})${link}${r.reason ? ` · ${r.reason}` : ''}`;
+      log.appendChild(lineEl);
+    }
+    container.appendChild(log);
+  }
+
   function renderItem(item) {
     const row = document.createElement('div');
     row.className = 'wl-item';
@@ -2237,12 +2560,40 @@ function setupWatchlist(getWorkspaceId) {
       }
     });
 
+    const revisionsEl = document.createElement('div');
+    revisionsEl.className = 'wl-revisions';
+
+    const hist = document.createElement('button');
+    hist.type = 'button';
+    hist.className = 'wl-mini';
+    hist.textContent = 'HIST';
+    hist.title = 'Show probability revisions against the market';
+    hist.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      if (revisionsEl.childNodes.length) {
+        revisionsEl.replaceChildren();
+        return;
+      }
+      try {
+        renderRevisionChart(revisionsEl, await fetchConvictionRevisions(item.id));
+      } catch (err) {
+        appendTerminal(`Error: ${userFacingError(err, 'Error')}`);
+      }
+    });
+
+    actions.appendChild(hist);
     actions.appendChild(del);
 
+    const spark = document.createElement('div');
+    spark.className = 'mkt-spark-wrap';
+    mountMarketSparkline(spark, item?.market?.id);
+
     row.appendChild(top);
     row.appendChild(q);
+    row.appendChild(spark);
     row.appendChild(meta);
     row.appendChild(actions);
+    row.appendChild(revisionsEl);
 
     row.addEventListener('click', () => {
       if (item?.market?.externalId) externalIdInput.value = String(item.market.externalId);
@@ -2292,11 +2643,13 @@ function setupWatchlist(getWorkspaceId) {
     const myProbability = String(myProbInput.value || '').trim();
     const status = String(statusSel.value || 'watching');
     const entryThesis = thesisInput ? String(thesisInput.value || '') : '';
+    const reason = reasonInput ? String(reasonInput.value || '').trim() : '';
 
     try {
       statusEl.textContent = 'saving';
-      await upsertConviction({ source: 'polymarket', externalId, myProbability, status, entryThesis });
+      await upsertConviction({ source: 'polymarket', externalId, myProbability, status, entryThesis, reason });
       statusEl.textContent = 'ok';
+      if (reasonInput) reasonInput.value = '';
       await reload();
     } catch (err) {
       statusEl.textContent = 'err';
@@ -2515,6 +2868,7 @@ function setupPortfolio(getWorkspaceId) {
   const avgInput = $('pf-avg');
   const refreshBtn = $('pf-refresh');
   const totalsEl = $('pf-totals');
+  const analyticsEl = $('pf-analytics');
   const list = $('pf-list');
   const statusEl = $('pf-status');
 
@@ -2576,7 +2930,7 @@ function setupPortfolio(getWorkspaceId) {
 
     const right = document.createElement('span');
     right.className = 'pf-right';
-    right.textContent = pos.pnl == null ? 'pnl —' : `pnl ${fmtUsd(pos.pnl)}`;
+    right.textContent = `${pos.pnl == null ? 'pnl —' : `pnl ${fmtUsd(pos.pnl)}`}${pos.realizedPnl ? ` · real ${fmtUsd(pos.realizedPnl)}` : ''}`;
 
     top.appendChild(left);
     top.appendChild(right);
@@ -2612,10 +2966,39 @@ function setupPortfolio(getWorkspaceId) {
       }
     });
 
+    const ledger = document.createElement('button');
+    ledger.type = 'button';
+    ledger.className = 'wl-mini';
+    ledger.textContent = 'LEDG';
+    ledger.title = 'Print fills and adjustments to the terminal';
+    ledger.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      try {
+        const entries = await fetchPositionLedger(pos.id);
+        const label = String(pos?.market?.question || pos.marketId || pos.id).slice(0, 80);
+        appendTerminal(`Position ledger: ${label} (${String(pos.outcome || 'YES')})`);
+        for (const l of entries.slice().reverse()) {
+          const when = new Date(Number(l.createdAt)).toLocaleString();
+          const delta = `${l.sharesDelta >= 0 ? '+' : ''}${fmtNum(l.sharesDelta, 2)} sh${l.price == null ? '' : ` @ ${fmtPct(l.price)}`}`;
+          const realized = l.realizedPnl ? ` · real ${fmtUsd(l.realizedPnl)}` : '';
+          const after = `→ ${fmtNum(l.sharesAfter, 2)} sh avg ${fmtPct(l.avgPriceAfter)}`;
+          appendTerminal(`  ${when}  ${l.kind}  ${delta}${realized}  ${after}${l.note ? `  ${l.note}` : ''}`);
+        }
+      } catch (err) {
+        appendTerminal(`Error: ${userFacingError(err, 'Error')}`);
+      }
+    });
+
+    actions.appendChild(ledger);
     actions.appendChild(del);
 
+    const spark = document.createElement('div');
+    spark.className = 'mkt-spark-wrap';
+    mountMarketSparkline(spark, pos?.market?.id);
+
     row.appendChild(top);
     row.appendChild(market);
+    row.appendChild(spark);
     row.appendChild(meta);
     row.appendChild(actions);
 
@@ -2631,14 +3014,43 @@ function setupPortfolio(getWorkspaceId) {
     return row;
   }
 
+  // Exposure, EV at conviction probabilities, top concentration and time-to-resolution split (GET /api/portfolio).
+  async function reloadAnalytics() {
+    if (!analyticsEl) return;
+    try {
+      const data = await fetchPortfolio();
+      const t = data?.totals || {};
+      const top = data?.largestMarket;
+      const labels = { overdue: 'overdue', week: '≤1w', month: '≤1m', quarter: '≤3m', later: 'later', unknown: 'no date' };
+      const buckets = (data?.byResolution || []).map((b) => `${labels[b.key] || b.key} ${fmtPct(b.share)}`).join(' · ');
+      const categories = (data?.byCategory || [])
+        .slice(0, 3)
+        .map((c) => `${c.key} ${fmtPct(c.share)}`)
+        .join(' · ');
+      analyticsEl.textContent = [
+        `exposure ${fmtUsd(t.exposure).replace('+', '')} · EV ${t.withConviction ? fmtUsd(t.expectedPnl) : '—'} (${Number(t.withConviction || 0)}/${Number(t.positions || 0)} w/ conviction)`,
+        top ? `top ${fmtPct(top.share)} ${String(top.question || '').slice(0, 60)}` : '',
+        buckets,
+        categories
+      ]
+        .filter(Boolean)
+        .join('\n');
+    } catch (err) {
+      analyticsEl.textContent = `analytics: ${userFacingError(err, 'Error')}`;
+    }
+  }
+
   async function reload() {
+    reloadAnalytics();
     try {
       statusEl.textContent = 'loading';
       const data = await fetchPositions(500);
       const positions = Array.isArray(data?.positions) ? data.positions : [];
       const totals = data?.totals || {};
 
-      totalsEl.textContent = `cost ${fmtUsd(totals.cost)} · value ${fmtUsd(totals.value)} · pnl ${fmtUsd(totals.pnl)}`;
+      totalsEl.textContent = `cost ${fmtUsd(totals.cost)} · value ${fmtUsd(totals.value)} · pnl ${fmtUsd(totals.pnl)} · realized ${fmtUsd(
+        totals.realizedPnl
+      )}`;
 
       list.innerHTML = '';
       for (const p of positions) list.appendChild(renderItem(p));
@@ -2715,6 +3127,13 @@ function setupRules(getWorkspaceId) {
   const typeSel = $('rules-type');
   const thresholdInput = $('rules-threshold');
   const minMyInput = $('rules-min-my');
+  const conditionsInput = $('rules-conditions');
+  const modeSel = $('rules-mode');
+  const rearmBandInput = $('rules-rearm-band');
+  const cooldownInput = $('rules-cooldown');
+  const maxFiresInput = $('rules-max-fires');
+  const expiresInput = $('rules-expires');
+  const actionInput = $('rules-action');
   const refreshBtn = $('rules-refresh');
   const list = $('rules-list');
   const statusEl = $('rules-status');
@@ -2760,11 +3179,20 @@ function setupRules(getWorkspaceId) {
     top.className = 'rules-topline';
 
     const left = document.createElement('span');
-    left.textContent = String(rule.status || 'active');
+    const lifecycle = [String(rule.status || 'active')];
+    if (rule.mode === 'rearm') lifecycle.push(`re-arm ${Number(rule.fireCount || 0)}/${rule.maxFires != null ? rule.maxFires : '∞'}`);
+    else if (rule.fireCount) lifecycle.push(`fired ${rule.fireCount}`);
+    if (rule.cooldownMinutes) lifecycle.push(`cd ${rule.cooldownMinutes}m`);
+    if (rule.expiresAt) lifecycle.push(`exp ${new Date(rule.expiresAt).toLocaleString()}`);
+    left.textContent = lifecycle.join(' · ');
 
     const right = document.createElement('span');
     right.className = 'rules-right';
-    right.textContent = `${rule.type === 'price_above' ? '≥' : '≤'} ${fmtPct(rule.priceThreshold)}`;
+    if (rule.type === 'composite') right.textContent = 'conditions';
+    else if (rule.type === 'edge_above' || rule.type === 'edge_above_no') {
+      const side = rule.type === 'edge_above_no' ? 'NO' : 'YES';
+      right.textContent = `${side} edge ≥ ${fmtPct(rule.minEdge)} @${rule.edgeBasis === 'ask' ? 'ask' : 'mid'}`;
+    } else right.textContent = `${rule.type === 'price_above' ? '≥' : '≤'} ${fmtPct(rule.priceThreshold)}`;
 
     top.appendChild(left);
     top.appendChild(right);
@@ -2775,7 +3203,9 @@ function setupRules(getWorkspaceId) {
 
     const meta = document.createElement('div');
     meta.className = 'rules-meta';
-    meta.textContent = rule.minMyProbability != null ? `min my ${fmtPct(rule.minMyProbability)}` : 'min my —';
+    if (rule.type === 'composite') meta.textContent = String(rule.conditionsSummary || '—');
+    else meta.textContent = rule.minMyProbability != null ? `min my ${fmtPct(rule.minMyProbability)}` : 'min my —';
+    if (rule.action) meta.textContent += ` · ${String(rule.actionSummary || 'order')}`;
 
     const actions = document.createElement('div');
     actions.className = 'rules-actions';
@@ -2833,12 +3263,39 @@ function setupRules(getWorkspaceId) {
       }
     });
 
+    const hist = document.createElement('button');
+    hist.type = 'button';
+    hist.className = 'wl-mini';
+    hist.textContent = 'HIST';
+    hist.title = 'Print state history to the terminal';
+    hist.addEventListener('click', async (e) => {
+      e.stopPropagation();
+      try {
+        const history = await fetchRuleHistory(rule.id);
+        const label = String(rule?.market?.question || rule.marketId || rule.id).slice(0, 80);
+        appendTerminal(`Rule history: ${label}`);
+        for (const h of history.slice().reverse()) {
+          const when = new Date(Number(h.createdAt)).toLocaleString();
+          const move = h.fromStatus ? `${h.fromStatus} → ${h.toStatus}` : h.toStatus;
+          appendTerminal(`  ${when}  ${h.event}  ${move}${h.detail ? `  ${h.detail}` : ''}`);
+        }
+      } catch (err) {
+        appendTerminal(`Error: ${userFacingError(err, 'Error')}`);
+      }
+    });
+
     actions.appendChild(act);
     actions.appendChild(dis);
+    actions.appendChild(hist);
     actions.appendChild(del);
 
+    const spark = document.createElement('div');
+    spark.className = 'mkt-spark-wrap';
+    mountMarketSparkline(spark, rule.marketId);
+
     row.appendChild(top);
     row.appendChild(market);
+    row.appendChild(spark);
     row.appendChild(meta);
     row.appendChild(actions);
 
@@ -2877,22 +3334,70 @@ function setupRules(getWorkspaceId) {
     e.preventDefault();
     const marketId = String(marketSel.value || '').trim();
     if (!marketId) return;
-    const type = String(typeSel.value || 'price_below');
+    const [type, edgeBasis] = String(typeSel.value || 'price_below').split(':');
     const priceThreshold = String(thresholdInput.value || '').trim();
-    if (!priceThreshold) return;
+    const conditionsText = conditionsInput ? String(conditionsInput.value || '').trim() : '';
+    if (type === 'composite' ? !conditionsText : !priceThreshold) return;
     const minMyProbability = String(minMyInput.value || '').trim();
 
+    const expiresText = expiresInput ? String(expiresInput.value || '').trim() : '';
+    const lifecycle = {
+      mode: modeSel ? String(modeSel.value || 'once') : 'once',
+      rearmBand: rearmBandInput && rearmBandInput.value.trim() ? rearmBandInput.value.trim() : null,
+      cooldownMinutes: cooldownInput && cooldownInput.value.trim() ? cooldownInput.value.trim() : null,
+      maxFires: maxFiresInput && maxFiresInput.value.trim() ? maxFiresInput.value.trim() : null,
+      // datetime-local has no zone; resolve it in the browser's local time.
+      expiresAt: expiresText ? new Date(expiresText).getTime() : null
+    };
+
+    const actionText = actionInput ? String(actionInput.value || '').trim() : '';
+    if (actionText) {
+      lifecycle.action = tryParseJson(actionText);
+      if (!lifecycle.action) {
+        statusEl.textContent = 'err';
+        appendTerminal('Error: action must be valid JSON');
+        return;
+      }
+    }
+
+    let conditions = null;
+    if (type === 'composite') {
+      conditions = tryParseJson(conditionsText);
+      if (!conditions) {
+        statusEl.textContent = 'err';
+        appendTerminal('Error: conditions must be valid JSON');
+        return;
+      }
+    }
+
     try {
       statusEl.textContent = 'saving';
-      await createRule({
-        marketId,
-        type,
-        priceThreshold,
-        minMyProbability: minMyProbability ? minMyProbability : null
-      });
+      await createRule(
+        type === 'composite'
+          ? { marketId, conditions, ...lifecycle }
+          : edgeBasis
+            ? {
+                marketId,
+                type,
+                minEdge: priceThreshold,
+                edgeBasis,
+                minMyProbability: minMyProbability ? minMyProbability : null,
+                ...lifecycle
+              }
+            : {
+                marketId,
+                type,
+                priceThreshold,
+                minMyProbability: minMyProbability ? minMyProbability : null,
+                ...lifecycle
+              }
+      );
       statusEl.textContent = 'ok';
       thresholdInput.value = '';
       minMyInput.value = '';
+      if (conditionsInput) conditionsInput.value = '';
+      if (actionInput) actionInput.value = '';
+      for (const input of [rearmBandInput, cooldownInput, maxFiresInput, expiresInput]) if (input) input.value = '';
       await reload();
     } catch (err) {
       statusEl.textContent = 'err';
@@ -2949,7 +3454,8 @@ function setupAlerts(getWorkspaceId) {
     const title = document.createElement('div');
     title.className = 'intel-title';
     const ts = alert.createdAt ? new Date(alert.createdAt).toLocaleTimeString() : '';
-    title.textContent = `ALERT ${ts}`.trim();
+    const severity = alert.severity && alert.severity !== 'info' ? ` ${String(alert.severity).toUpperCase()}` : '';
+    title.textContent = `ALERT${severity} ${ts}`.trim();
 
     const body = document.createElement('div');
     body.className = 'intel-body';
@@ -2989,7 +3495,10 @@ function setupAlerts(getWorkspaceId) {
 
   // tiny delay so the server is fully up in dev
   setTimeout(poll, 500);
-  const timer = setInterval(poll, 3000);
+  onServerEvent(['alert'], () => poll());
+  const timer = setInterval(() => {
+    if (!serverStreamLive) poll();
+  }, 3000);
 
   return { stop: () => clearInterval(timer) };
 }
@@ -3697,6 +4206,8 @@ function setupExecution() {
   const status = $('exec-status');
   const form = $('exec-form');
   const sym = $('exec-symbol');
+  const marketSel = $('exec-market');
+  const outcomeSel = $('exec-outcome');
   const side = $('exec-side');
   const qty = $('exec-qty');
   const type = $('exec-type');
@@ -3712,6 +4223,8 @@ function setupExecution() {
     !status ||
     !form ||
     !sym ||
+    !marketSel ||
+    !outcomeSel ||
     !side ||
     !qty ||
     !type ||
@@ -3753,7 +4266,9 @@ function setupExecution() {
     const meta = document.createElement('div');
     meta.className = 'exec-row-meta';
     const expected = o.expectedPrice ? `exp ${fmtMoney(o.expectedPrice)} · ` : '';
-    meta.textContent = `${expected}status ${o.status} · filled ${o.filledQty}/${o.qty} · ${fmtTime(o.updatedAt)}`;
+    const staged = o.confirmedAt == null ? 'awaiting confirm · ' : '';
+    const origin = `${o.marketId ? ` · ${o.outcome} position` : ''}${o.tokenId ? ' · paper-matched' : ''}${o.ruleId ? ` · rule ${o.ruleId}` : ''}`;
+    meta.textContent = `${staged}${expected}status ${o.status} · filled ${o.filledQty}/${o.qty} · ${fmtTime(o.updatedAt)}${origin}`;
 
     left.appendChild(title);
     left.appendChild(meta);
@@ -3775,8 +4290,9 @@ function setupExecution() {
         const fillQty = qtyRaw && qtyRaw.trim() ? Number(qtyRaw) : undefined;
         try {
           status.textContent = 'filling';
-          await fillExecutionOrder({ orderId: o.id, price, qty: fillQty });
+          const filled = await fillExecutionOrder({ orderId: o.id, price, qty: fillQty });
           await poll();
+          if (filled.positionError) alert(`Filled, but the ${o.outcome} position was not updated: ${filled.positionError}`);
         } catch (err) {
           alert(err instanceof Error ? err.message : String(err));
         } finally {
@@ -3801,7 +4317,27 @@ function setupExecution() {
         }
       });
 
-      actions.appendChild(fillBtn);
+      if (o.confirmedAt == null) {
+        const confirmBtn = document.createElement('button');
+        confirmBtn.type = 'button';
+        confirmBtn.className = 'exec-mini';
+        confirmBtn.textContent = 'Confirm';
+        confirmBtn.title = 'Release this rule-staged order';
+        confirmBtn.addEventListener('click', async () => {
+          try {
+            status.textContent = 'confirming';
+            await confirmExecutionOrder({ orderId: o.id });
+            await poll();
+          } catch (err) {
+            alert(err instanceof Error ? err.message : String(err));
+          } finally {
+            status.textContent = 'ok';
+          }
+        });
+        actions.appendChild(confirmBtn);
+      } else {
+        actions.appendChild(fillBtn);
+      }
       actions.appendChild(cancelBtn);
     }
 
@@ -3885,9 +4421,13 @@ function setupExecution() {
   function start() {
     if (pollTimer) clearInterval(pollTimer);
     poll();
-    pollTimer = setInterval(poll, 3000);
+    pollTimer = setInterval(() => {
+      if (!serverStreamLive) poll();
+    }, 3000);
   }
 
+  onServerEvent(['order', 'fill'], () => poll());
+
   function readNum(el) {
     const raw = String(el.value || '').trim();
     if (!raw) return null;
@@ -3899,8 +4439,12 @@ function setupExecution() {
   form.addEventListener('submit', async (e) => {
     e.preventDefault();
     const symbol = String(sym.value || '').trim().toUpperCase();
+    // A market links the order to a position; the server derives symbol and CLOB token when they are left blank.
+    const marketId = String(marketSel.value || '').trim();
     const payload = {
       symbol,
+      marketId: marketId || undefined,
+      outcome: marketId ? String(outcomeSel.value || 'YES') : undefined,
       side: String(side.value || 'BUY'),
       qty: Number(String(qty.value || '0').trim()),
       type: String(type.value || 'MARKET'),
@@ -3928,6 +4472,24 @@ function setupExecution() {
   });
   limit.disabled = String(type.value || '').toUpperCase() !== 'LIMIT';
 
+  document.addEventListener('tt:markets', (e) => {
+    const selected = String(marketSel.value || '');
+    marketSel.innerHTML = '';
+    const none = document.createElement('option');
+    none.value = '';
+    none.textContent = 'No market';
+    marketSel.appendChild(none);
+    for (const m of Array.isArray(e?.detail?.markets) ? e.detail.markets : []) {
+      const id = String(m?.id || '').trim();
+      if (!id) continue;
+      const opt = document.createElement('option');
+      opt.value = id;
+      opt.textContent = String(m?.question || m?.externalId || id).slice(0, 120);
+      marketSel.appendChild(opt);
+    }
+    marketSel.value = Array.from(marketSel.options).some((o) => o.value === selected) ? selected : '';
+  });
+
   start();
 
   return {};
@@ -4130,6 +4692,14 @@ onReady(() => {
   safeInit('orderbook', () => setupOrderBookManager(() => (workspaceManager ? workspaceManager.getCurrentId() : 'default')));
   safeInit('execution', () => setupExecution());
   safeInit('alerts', () => setupAlerts(() => (workspaceManager ? workspaceManager.getCurrentId() : 'default')));
+  safeInit('stream', () => setupServerStream());
+
+  onServerEvent(['rule'], () => rulesManager?.reload?.());
+  onServerEvent(['conviction'], () => {
+    watchlistManager?.reload?.();
+    portfolioManager?.reload?.();
+  });
+  onServerEvent(['position'], () => portfolioManager?.reload?.());
 
   // Route tool events into their target windows (keeping Intel as the global trace).
   document.addEventListener('tt:tool-event', (e) => {